@@ -3,14 +3,28 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import { apiRoutes } from '../../routes/api';
+import { importRoutes } from '../../routes/import';
 import { DatabaseService } from '../../services/database';
 import { PingService } from '../../services/ping';
+import { AnomalyDetectionService } from '../../services/anomalyDetection';
+import { RetentionService } from '../../services/retention';
+import { NotificationService } from '../../services/notifications';
+import { ApiKeyService } from '../../services/apiKeys';
+import { UserService } from '../../services/users';
+import { SchedulerService } from '../../services/scheduler';
+import { SettingsService } from '../../services/settings';
+import { authenticate } from '../../middleware/auth';
 
 describe('API Integration Tests', () => {
   let app: express.Application;
   let server: any;
   let databaseService: DatabaseService;
   let pingService: PingService;
+  let anomalyService: AnomalyDetectionService;
+  let retentionService: RetentionService;
+  let notificationService: NotificationService;
+  let settingsService: SettingsService;
+  let schedulerService: SchedulerService;
   let mockIo: Server;
 
   beforeAll(async () => {
@@ -27,11 +41,17 @@ describe('API Integration Tests', () => {
 
     // Setup PingService
     pingService = new PingService(databaseService, mockIo);
+    anomalyService = new AnomalyDetectionService(databaseService, mockIo);
+    retentionService = new RetentionService(databaseService);
+    notificationService = new NotificationService(databaseService, { retryDelays: [] });
+    settingsService = new SettingsService(databaseService, pingService, anomalyService);
+    schedulerService = new SchedulerService(databaseService, pingService);
 
     // Setup Express app
     app = express();
     app.use(express.json());
-    app.use('/api', apiRoutes(databaseService, pingService));
+    // Authentication is covered by its own app below; here every request gets every scope
+    app.use('/api', authenticate(new ApiKeyService(databaseService), new UserService(databaseService), { required: false }), apiRoutes(databaseService, pingService, anomalyService, retentionService, notificationService, settingsService, schedulerService));
     
     server = createServer(app);
   });
@@ -126,6 +146,57 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('GET /api/export', () => {
+    it('should stream filtered records as CSV', async () => {
+      const response = await request(app)
+        .get('/api/export?format=csv&statusCode=500')
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="pings-.*\.csv"$/);
+      const lines = response.text.trim().split('\n');
+      expect(lines[0]).toMatch(/^id,timestamp,monitorId,requestType,statusCode,responseTime,/);
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.slice(1).every(line => line.includes(',auto,500,300,'))).toBe(true);
+      expect(response.text).toContain('"{""status"":""error""}"');
+    });
+
+    it('should stream records as NDJSON up to the limit', async () => {
+      const response = await request(app)
+        .get('/api/export?format=ndjson&limit=3')
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^application\/x-ndjson/);
+      const records = response.text.trim().split('\n').map(line => JSON.parse(line));
+      expect(records).toHaveLength(3);
+      expect(records[0].id).toBeLessThan(records[1].id);
+      expect(records[0]).toMatchObject({ statusCode: expect.any(Number), dnsTime: null });
+    });
+
+    it('should validate the format and filters', async () => {
+      const response = await request(app)
+        .get('/api/export?format=parquet')
+        .expect(400);
+      expect(response.body.error).toBe('Invalid query parameters');
+
+      await request(app).get('/api/export?offset=10').expect(400);
+    });
+
+    it('should answer with a JSON error when the first rows cannot be read', async () => {
+      const failing = jest.spyOn(databaseService, 'iteratePingRecords').mockImplementation(async function* () {
+        throw new Error('connection lost');
+      });
+      try {
+        const response = await request(app)
+          .get('/api/export?format=csv')
+          .expect(500);
+        expect(response.body).toEqual({ error: 'Internal server error', message: 'Failed to export ping records' });
+      } finally {
+        failing.mockRestore();
+      }
+    });
+  });
+
   describe('GET /api/stats', () => {
     it('should return statistics', async () => {
       const response = await request(app)
@@ -183,6 +254,34 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('GET /api/series', () => {
+    it('should return bucketed percentiles for the last 24 hours', async () => {
+      const response = await request(app)
+        .get('/api/series?bucket=1h')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.bucket).toBe('1h');
+      expect(response.body.data.length).toBeGreaterThan(0);
+
+      const [point] = response.body.data;
+      expect(point.count).toBeGreaterThanOrEqual(2);
+      expect(point.errorCount).toBeGreaterThanOrEqual(1);
+      expect(point.p50).toBeLessThanOrEqual(point.p95);
+      expect(point.p95).toBeLessThanOrEqual(point.p99);
+    });
+
+    it('should reject unknown buckets and oversized ranges', async () => {
+      await request(app)
+        .get('/api/series?bucket=10s')
+        .expect(400);
+
+      await request(app)
+        .get('/api/series?bucket=1m&from=2024-01-01T00:00:00Z&to=2024-02-01T00:00:00Z')
+        .expect(400);
+    });
+  });
+
   describe('GET /api/anomaly-stats', () => {
     it('should return anomaly statistics', async () => {
       const response = await request(app)
@@ -194,6 +293,884 @@ describe('API Integration Tests', () => {
       expect(response.body.data).toHaveProperty('errorRate');
       expect(response.body.data).toHaveProperty('totalRequests');
     });
+
+    it('should report percentiles, active rules and the last analysis time', async () => {
+      await anomalyService.analyzeOnce();
+
+      const response = await request(app)
+        .get('/api/anomaly-stats?minutes=1440')
+        .expect(200);
+
+      expect(response.body.data.windowMinutes).toBe(1440);
+      expect(response.body.data.responseTimeStats).toEqual(expect.objectContaining({
+        p50: expect.any(Number),
+        p90: expect.any(Number),
+        p99: expect.any(Number)
+      }));
+      expect(response.body.data.rules).toEqual(expect.arrayContaining([
+        expect.objectContaining({
+          name: 'Response time outlier',
+          description: expect.stringContaining('zscore > 2.5σ and response_time > 5000ms')
+        })
+      ]));
+      expect(response.body.data.lastAnalysisAt).not.toBeNull();
+    });
+
+    it('should reject an invalid window', async () => {
+      await request(app)
+        .get('/api/anomaly-stats?minutes=0')
+        .expect(400);
+    });
+  });
+
+  describe('/api/monitors', () => {
+    it('should create, update, list and delete a monitor', async () => {
+      const created = await request(app)
+        .post('/api/monitors')
+        .send({ name: 'Example', url: 'https://example.com/health', interval: 60000 })
+        .expect(201);
+
+      expect(created.body.data.id).toBeGreaterThan(0);
+      expect(created.body.data.method).toBe('GET');
+      expect(created.body.data.timeout).toBe(30000);
+
+      const id = created.body.data.id;
+
+      const updated = await request(app)
+        .put(`/api/monitors/${id}`)
+        .send({ enabled: false })
+        .expect(200);
+      expect(updated.body.data.enabled).toBe(false);
+
+      const list = await request(app)
+        .get('/api/monitors')
+        .expect(200);
+      expect(list.body.data.some((monitor: any) => monitor.id === id)).toBe(true);
+
+      await request(app)
+        .delete(`/api/monitors/${id}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/monitors/${id}`)
+        .expect(404);
+    });
+
+    it('should validate monitor payloads', async () => {
+      const response = await request(app)
+        .post('/api/monitors')
+        .send({ name: 'Broken', url: 'not-a-url' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid monitor');
+    });
+
+    it('should filter pings by monitor', async () => {
+      const response = await request(app)
+        .get('/api/pings?monitorId=9999')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(0);
+    });
+  });
+
+  describe('GET /api/anomalies', () => {
+    it('should return stored anomalies with pagination', async () => {
+      await databaseService.insertAnomaly({
+        timestamp: new Date().toISOString(),
+        type: 'status_code',
+        severity: 'medium',
+        value: 25,
+        threshold: 20,
+        message: 'High error rate detected'
+      });
+
+      const response = await request(app)
+        .get('/api/anomalies?type=status_code&limit=5')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.length).toBeGreaterThan(0);
+      expect(response.body.data.every((anomaly: any) => anomaly.type === 'status_code')).toBe(true);
+      expect(response.body.pagination.limit).toBe(5);
+    });
+
+    it('should validate filters', async () => {
+      await request(app)
+        .get('/api/anomalies?severity=critical')
+        .expect(400);
+    });
+
+    it('should export filtered anomalies', async () => {
+      await databaseService.insertAnomaly({
+        timestamp: new Date().toISOString(),
+        type: 'error_rate',
+        severity: 'high',
+        value: 50,
+        threshold: 20,
+        message: 'Error rate, "sustained"'
+      });
+
+      const csv = await request(app)
+        .get('/api/anomalies/export?severity=high')
+        .expect(200);
+      expect(csv.headers['content-disposition']).toMatch(/filename="anomalies-.*\.csv"/);
+      const lines = csv.text.trim().split('\n');
+      expect(lines[0]).toBe('id,timestamp,type,severity,value,threshold,message,monitorId,recordId,incidentId,phase,acknowledgedAt');
+      expect(lines[lines.length - 1]).toContain(',error_rate,high,50,20,"Error rate, ""sustained""",');
+
+      const ndjson = await request(app)
+        .get('/api/anomalies/export?format=ndjson&type=error_rate')
+        .expect(200);
+      const anomalies = ndjson.text.trim().split('\n').map(line => JSON.parse(line));
+      expect(anomalies.every(anomaly => anomaly.type === 'error_rate')).toBe(true);
+    });
+
+    it('should name the phase a slow response spent its time in', async () => {
+      const now = Date.now();
+      const timed = (minutesAgo: number, responseTime: number, tcpTime: number) => databaseService.insertPingRecord({
+        timestamp: new Date(now - minutesAgo * 60 * 1000).toISOString(),
+        requestPayload: '{}',
+        responseData: '{}',
+        statusCode: 200,
+        responseTime,
+        dnsTime: 5,
+        tcpTime,
+        tlsTime: 20,
+        ttfbTime: responseTime - tcpTime - 30,
+        downloadTime: 5
+      });
+
+      for (let i = 1; i <= 20; i++) {
+        await timed(i, 300, 10);
+      }
+      await timed(0, 8000, 7700);
+
+      await anomalyService.analyzeOnce();
+
+      const response = await request(app)
+        .get('/api/anomalies?type=response_time')
+        .expect(200);
+
+      expect(response.body.data[0]).toEqual(expect.objectContaining({
+        value: 8000,
+        phase: 'tcp'
+      }));
+      expect(response.body.data[0].message).toContain('TCP connect took 7700ms against an average of 10ms');
+    });
+  });
+
+  describe('/api/incidents', () => {
+    it('should list and acknowledge incidents', async () => {
+      const incident = await databaseService.createIncident({
+        fingerprint: 'error_rate:default:hourly',
+        type: 'error_rate',
+        monitorId: null,
+        severity: 'high',
+        message: 'Elevated error rate',
+        lastValue: 60,
+        threshold: 30,
+        openedAt: new Date().toISOString()
+      });
+
+      const list = await request(app)
+        .get('/api/incidents?status=active')
+        .expect(200);
+      expect(list.body.data.some((item: any) => item.id === incident.id)).toBe(true);
+
+      const detail = await request(app)
+        .get(`/api/incidents/${incident.id}`)
+        .expect(200);
+      expect(detail.body.data.anomalies).toBeInstanceOf(Array);
+
+      const ack = await request(app)
+        .post(`/api/incidents/${incident.id}/ack`)
+        .expect(200);
+      expect(ack.body.data.status).toBe('acknowledged');
+
+      await request(app)
+        .post(`/api/incidents/${incident.id}/ack`)
+        .expect(404);
+    });
+  });
+
+  describe('/api/notifications', () => {
+    it('should manage channels without returning their secrets', async () => {
+      const created = await request(app)
+        .post('/api/notifications/channels')
+        .send({
+          name: 'Ops webhook',
+          type: 'webhook',
+          config: { url: 'https://hooks.example.com/ops', secret: 'a-long-shared-secret' },
+          minSeverity: 'medium'
+        })
+        .expect(201);
+
+      const id = created.body.data.id;
+      expect(created.body.data.config.secret).toBe('********');
+      expect(created.body.data.enabled).toBe(true);
+
+      // Sending the placeholder back keeps the stored secret
+      const updated = await request(app)
+        .put(`/api/notifications/channels/${id}`)
+        .send({ config: { url: 'https://hooks.example.com/oncall', secret: '********' } })
+        .expect(200);
+      expect(updated.body.data.config.url).toBe('https://hooks.example.com/oncall');
+      const stored = await databaseService.getNotificationChannel(id);
+      expect((stored!.config as { secret: string }).secret).toBe('a-long-shared-secret');
+
+      const list = await request(app)
+        .get('/api/notifications/channels')
+        .expect(200);
+      expect(list.body.data.map((channel: any) => channel.name)).toContain('Ops webhook');
+
+      await request(app)
+        .delete(`/api/notifications/channels/${id}`)
+        .expect(200);
+      await request(app)
+        .delete(`/api/notifications/channels/${id}`)
+        .expect(404);
+    });
+
+    it('should validate the config for the channel type', async () => {
+      const response = await request(app)
+        .post('/api/notifications/channels')
+        .send({ name: 'Mail', type: 'email', config: { host: 'smtp.example.com', from: 'not-an-email' } })
+        .expect(400);
+      expect(response.body.error).toBe('Invalid notification channel');
+
+      const slack = await request(app)
+        .post('/api/notifications/channels')
+        .send({ name: 'Slack', type: 'slack', config: { url: 'https://hooks.slack.com/services/x' } })
+        .expect(201);
+
+      await request(app)
+        .put(`/api/notifications/channels/${slack.body.data.id}`)
+        .send({ type: 'email' })
+        .expect(400);
+    });
+
+    it('should log test deliveries', async () => {
+      const channel = await request(app)
+        .post('/api/notifications/channels')
+        .send({ name: 'Unreachable', type: 'webhook', config: { url: 'http://127.0.0.1:1/hook' } })
+        .expect(201);
+
+      const test = await request(app)
+        .post(`/api/notifications/channels/${channel.body.data.id}/test`)
+        .expect(200);
+      expect(test.body.success).toBe(false);
+      expect(test.body.data).toEqual(expect.objectContaining({ status: 'failed', attempts: 1, anomalyId: null }));
+
+      const log = await request(app)
+        .get(`/api/notifications/deliveries?channelId=${channel.body.data.id}&status=failed`)
+        .expect(200);
+      expect(log.body.data).toHaveLength(1);
+      expect(log.body.pagination.total).toBe(1);
+    });
+  });
+
+  describe('/api/alert-rules', () => {
+    it('should create, update, list and delete a rule', async () => {
+      const created = await request(app)
+        .post('/api/alert-rules')
+        .send({
+          name: 'Slow p95',
+          when: [{ metric: 'p95', operator: '>', threshold: 800 }],
+          window: { minutes: 15 },
+          consecutive: 2,
+          severity: 'high'
+        })
+        .expect(201);
+
+      const id = created.body.data.id;
+      expect(created.body.data).toEqual(expect.objectContaining({
+        type: 'response_time',
+        enabled: true,
+        monitorId: null,
+        escalate: [],
+        description: 'p95 > 800ms over 15m for 2 consecutive windows → high'
+      }));
+
+      const updated = await request(app)
+        .put(`/api/alert-rules/${id}`)
+        .send({ enabled: false, window: { pings: 50 } })
+        .expect(200);
+      expect(updated.body.data).toEqual(expect.objectContaining({ enabled: false, window: { pings: 50 }, consecutive: 2 }));
+
+      const list = await request(app)
+        .get('/api/alert-rules')
+        .expect(200);
+      expect(list.body.data.map((rule: any) => rule.name)).toEqual(expect.arrayContaining([
+        'Response time outlier', 'Failed requests', 'Elevated error rate', 'Slow p95'
+      ]));
+
+      await request(app)
+        .delete(`/api/alert-rules/${id}`)
+        .expect(200);
+      await request(app)
+        .get(`/api/alert-rules/${id}`)
+        .expect(404);
+    });
+
+    it('should validate rules', async () => {
+      const mixed = await request(app)
+        .post('/api/alert-rules')
+        .send({
+          name: 'Mixed',
+          when: [{ metric: 'zscore', operator: '>', threshold: 3 }],
+          window: { minutes: 60 },
+          escalate: [{ metric: 'p99', operator: '>', threshold: 1000, severity: 'high' }]
+        })
+        .expect(400);
+      expect(mixed.body.error).toBe('Invalid alert rule');
+
+      await request(app)
+        .post('/api/alert-rules')
+        .send({ name: 'Both windows', when: [{ metric: 'avg', operator: '>', threshold: 1 }], window: { minutes: 5, pings: 5 } })
+        .expect(400);
+
+      await request(app)
+        .post('/api/alert-rules')
+        .send({ name: 'No monitor', monitorId: 9999, when: [{ metric: 'avg', operator: '>', threshold: 1 }], window: { minutes: 5 } })
+        .expect(400);
+
+      // The merged rule is checked too
+      const [pingRule] = await databaseService.getAlertRules();
+      await request(app)
+        .put(`/api/alert-rules/${pingRule.id}`)
+        .send({ consecutive: 3 })
+        .expect(400);
+    });
+
+    it('should open incidents from custom rules', async () => {
+      const monitor = await databaseService.createMonitor({
+        name: 'Rule target',
+        url: 'https://httpbin.org/get',
+        method: 'GET',
+        headers: {},
+        bodyTemplate: null,
+        interval: 60000,
+        timeout: 30000,
+        enabled: true,
+        assertions: []
+      });
+
+      await request(app)
+        .post('/api/alert-rules')
+        .send({
+          name: 'Slow average',
+          monitorId: monitor.id,
+          when: [{ metric: 'avg', operator: '>=', threshold: 2000 }],
+          window: { minutes: 10 },
+          minSamples: 3
+        })
+        .expect(201);
+
+      for (let i = 0; i < 3; i++) {
+        await databaseService.insertPingRecord({
+          timestamp: new Date(Date.now() - i * 60 * 1000).toISOString(),
+          requestPayload: '{}',
+          responseData: '{}',
+          statusCode: 200,
+          responseTime: 2500,
+          monitorId: monitor.id
+        });
+      }
+
+      await anomalyService.analyzeOnce();
+
+      const response = await request(app)
+        .get(`/api/anomalies?monitorId=${monitor.id}`)
+        .expect(200);
+      expect(response.body.data.map((anomaly: any) => anomaly.message)).toContain('Slow average: avg 2500ms over 10m');
+    });
+  });
+
+  describe('POST /api/alert-rules/backtest', () => {
+    it('should report what each detector would have flagged', async () => {
+      const monitor = await databaseService.createMonitor({
+        name: 'Backtest target',
+        url: 'https://httpbin.org/get',
+        method: 'GET',
+        headers: {},
+        bodyTemplate: null,
+        interval: 60000,
+        timeout: 30000,
+        enabled: true,
+        assertions: []
+      });
+
+      for (let i = 30; i >= 0; i--) {
+        await databaseService.insertPingRecord({
+          timestamp: new Date(Date.now() - i * 60 * 1000).toISOString(),
+          requestPayload: '{}',
+          responseData: '{}',
+          statusCode: 200,
+          responseTime: i === 0 ? 3000 : 100 + (i % 2) * 10,
+          monitorId: monitor.id
+        });
+      }
+
+      const response = await request(app)
+        .post('/api/alert-rules/backtest')
+        .send({ monitorId: monitor.id, from: new Date(Date.now() - 60 * 60 * 1000).toISOString() })
+        .expect(200);
+
+      expect(response.body.data.records).toBe(31);
+      const results = response.body.data.results;
+      expect(results.map((result: any) => result.rule.name)).toEqual([
+        'Z-score', 'Median/MAD', 'EWMA control band', 'CUSUM drift', 'Hour-of-week seasonal'
+      ]);
+      expect(results[0]).toEqual(expect.objectContaining({ flagged: 1, bySeverity: { low: 0, medium: 1, high: 0 } }));
+      expect(results[0].findings[0]).toEqual(expect.objectContaining({ value: 3000 }));
+
+      // Replaying leaves incidents alone
+      const incidents = await request(app).get(`/api/incidents?monitorId=${monitor.id}`).expect(200);
+      expect(incidents.body.data).toHaveLength(0);
+    });
+
+    it('should replay stored and inline rules', async () => {
+      const [stored] = await databaseService.getAlertRules();
+
+      const response = await request(app)
+        .post('/api/alert-rules/backtest')
+        .send({ ruleIds: [stored.id], limit: 0 })
+        .expect(200);
+      expect(response.body.data.results[0].rule).toEqual(expect.objectContaining({ id: stored.id, name: stored.name }));
+      expect(response.body.data.results[0].findings).toHaveLength(0);
+
+      const inline = await request(app)
+        .post('/api/alert-rules/backtest')
+        .send({ rules: [{ name: 'Any failure', when: [{ metric: 'error_count', operator: '>=', threshold: 1 }], window: { pings: 5 } }] })
+        .expect(200);
+      expect(inline.body.data.results[0].rule).toEqual(expect.objectContaining({ id: null, name: 'Any failure' }));
+      expect(inline.body.data.results[0].flagged).toBeGreaterThan(0);
+    });
+
+    it('should validate the request', async () => {
+      await request(app)
+        .post('/api/alert-rules/backtest')
+        .send({ from: '2024-03-02T00:00:00.000Z', to: '2024-03-01T00:00:00.000Z' })
+        .expect(400);
+
+      await request(app)
+        .post('/api/alert-rules/backtest')
+        .send({ ruleIds: [1], rules: [] })
+        .expect(400);
+
+      await request(app)
+        .post('/api/alert-rules/backtest')
+        .send({ ruleIds: [9999] })
+        .expect(404);
+    });
+  });
+
+  describe('/api/slo', () => {
+    it('should create, report, update and delete an SLO', async () => {
+      const created = await request(app)
+        .post('/api/slo')
+        .send({ name: 'Availability', objective: 'availability', target: 99.5, windowDays: 7 })
+        .expect(201);
+      const id = created.body.data.id;
+      expect(created.body.data).toEqual(expect.objectContaining({
+        monitorId: null,
+        latencyThreshold: null,
+        burnRateAlerts: true,
+        description: '99.5% of requests succeed over 7d',
+        errorBudget: expect.objectContaining({ spent: expect.any(Number) }),
+        burnRates: expect.objectContaining({ '1h': expect.any(Number) })
+      }));
+
+      const updated = await request(app)
+        .put(`/api/slo/${id}`)
+        .send({ objective: 'latency', latencyThreshold: 250, target: 95 })
+        .expect(200);
+      expect(updated.body.data.description).toBe('95% of requests within 250ms over 7d');
+
+      const list = await request(app).get('/api/slo').expect(200);
+      expect(list.body.data.map((slo: any) => slo.id)).toContain(id);
+
+      // Switching back drops the threshold
+      const back = await request(app).put(`/api/slo/${id}`).send({ objective: 'availability' }).expect(200);
+      expect(back.body.data.latencyThreshold).toBeNull();
+
+      await request(app).delete(`/api/slo/${id}`).expect(200);
+      await request(app).get(`/api/slo/${id}`).expect(404);
+    });
+
+    it('should validate SLOs', async () => {
+      await request(app)
+        .post('/api/slo')
+        .send({ name: 'Perfect', objective: 'availability', target: 100 })
+        .expect(400);
+
+      await request(app)
+        .post('/api/slo')
+        .send({ name: 'No threshold', objective: 'latency', target: 95 })
+        .expect(400);
+
+      await request(app)
+        .post('/api/slo')
+        .send({ name: 'No monitor', monitorId: 9999, objective: 'availability', target: 99 })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/import', () => {
+    it('should import an export and report rejected lines', async () => {
+      const exported = await request(app)
+        .get('/api/export?format=ndjson&statusCode=500&limit=1')
+        .expect(200);
+      const record = JSON.parse(exported.text);
+      const moved = { ...record, timestamp: new Date(Date.parse(record.timestamp) - 1000).toISOString() };
+      const body = [JSON.stringify(record), JSON.stringify(moved), '{"timestamp":"soon"}'].join('\n');
+
+      const response = await request(app)
+        .post('/api/import')
+        .set('Content-Type', 'application/x-ndjson')
+        .send(body)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toMatchObject({ format: 'ndjson', rows: 3, imported: 1, duplicates: 1, failed: 1 });
+      expect(response.body.data.errors[0]).toEqual({ line: 3, message: expect.stringContaining('"timestamp" must be in iso format') });
+
+      const csv = await request(app)
+        .post('/api/import')
+        .set('Content-Type', 'text/csv')
+        .send(`timestamp,statusCode,responseTime\n${new Date().toISOString()},201,42\n`)
+        .expect(200);
+      expect(csv.body.data).toMatchObject({ format: 'csv', imported: 1 });
+    });
+
+    it('should apply IMPORT_BODY_LIMIT as set when the routes are built', async () => {
+      process.env.IMPORT_BODY_LIMIT = '1kb';
+      try {
+        const limitedApp = express();
+        limitedApp.use(
+          '/api/import',
+          authenticate(new ApiKeyService(databaseService), new UserService(databaseService), { required: false }),
+          importRoutes(databaseService, retentionService)
+        );
+        await request(limitedApp)
+          .post('/api/import')
+          .set('Content-Type', 'text/csv')
+          .send(`timestamp,statusCode,responseTime\n${'x'.repeat(2048)}\n`)
+          .expect(413);
+      } finally {
+        delete process.env.IMPORT_BODY_LIMIT;
+      }
+    });
+
+    it('should reject bodies and files it cannot read', async () => {
+      await request(app).post('/api/import').send({ records: [] }).expect(400);
+      await request(app).post('/api/import?format=parquet').set('Content-Type', 'text/plain').send('x').expect(400);
+
+      const response = await request(app)
+        .post('/api/import')
+        .set('Content-Type', 'text/csv')
+        .send('time,status\n')
+        .expect(400);
+      expect(response.body).toEqual({ error: 'Invalid import', message: 'Unknown columns in the CSV header: time, status' });
+    });
+  });
+
+  describe('/api/admin/retention', () => {
+    it('should show, update and run retention', async () => {
+      const current = await request(app)
+        .get('/api/admin/retention')
+        .expect(200);
+      expect(current.body.data.rawRetentionDays).toBe(30);
+
+      const updated = await request(app)
+        .put('/api/admin/retention')
+        .send({ rawRetentionDays: 14, hourlyRetentionDays: 180 })
+        .expect(200);
+      expect(updated.body.data).toEqual(expect.objectContaining({ rawRetentionDays: 14, hourlyRetentionDays: 180 }));
+
+      const run = await request(app)
+        .post('/api/admin/retention/run')
+        .expect(200);
+      expect(run.body.data.rawPrunedBefore).toBeDefined();
+
+      const after = await request(app)
+        .get('/api/admin/retention')
+        .expect(200);
+      expect(after.body.data.lastRunAt).toBe(run.body.data.ranAt);
+    });
+
+    it('should reject invalid retention settings', async () => {
+      await request(app)
+        .put('/api/admin/retention')
+        .send({ rawRetentionDays: 0 })
+        .expect(400);
+
+      await request(app)
+        .put('/api/admin/retention')
+        .send({ rawRetentionDays: 400, hourlyRetentionDays: 90 })
+        .expect(400);
+    });
+  });
+
+  describe('/api/settings', () => {
+    it('should show the environment defaults until settings are saved, then apply changes', async () => {
+      const current = await request(app)
+        .get('/api/settings')
+        .expect(200);
+      expect(current.body.data).toEqual({
+        pingInterval: 300000,
+        httpbinUrl: 'https://httpbin.org/anything',
+        analysisInterval: 600000,
+        updatedAt: null
+      });
+
+      const updated = await request(app)
+        .put('/api/settings')
+        .send({ pingInterval: 60000, analysisInterval: 120000 })
+        .expect(200);
+      expect(updated.body.data).toEqual({
+        pingInterval: 60000,
+        httpbinUrl: 'https://httpbin.org/anything',
+        analysisInterval: 120000,
+        updatedAt: expect.any(String)
+      });
+      expect(pingService.status().interval).toBe(60000);
+      expect(anomalyService.status().interval).toBe(120000);
+
+      await request(app)
+        .put('/api/settings')
+        .send({ httpbinUrl: 'http://httpbin.internal/anything' })
+        .expect(200);
+      const after = await request(app)
+        .get('/api/settings')
+        .expect(200);
+      expect(after.body.data).toMatchObject({ pingInterval: 60000, httpbinUrl: 'http://httpbin.internal/anything' });
+
+      // Later manual pings go to the default URL again
+      await request(app)
+        .put('/api/settings')
+        .send({ httpbinUrl: 'https://httpbin.org/anything' })
+        .expect(200);
+    });
+
+    it('should reject invalid settings', async () => {
+      await request(app)
+        .put('/api/settings')
+        .send({})
+        .expect(400);
+
+      const response = await request(app)
+        .put('/api/settings')
+        .send({ pingInterval: 500 })
+        .expect(400);
+      expect(response.body.error).toBe('Invalid settings');
+
+      await request(app)
+        .put('/api/settings')
+        .send({ httpbinUrl: 'ftp://httpbin.org' })
+        .expect(400);
+    });
+  });
+
+  describe('/api/scheduler', () => {
+    it('should pause and resume scheduled pings and keep the pause across restarts', async () => {
+      const initial = await request(app)
+        .get('/api/scheduler/status')
+        .expect(200);
+      expect(initial.body.data).toMatchObject({ paused: false, pausedAt: null, monitors: [], inFlight: [] });
+
+      const paused = await request(app)
+        .post('/api/scheduler/pause')
+        .expect(200);
+      expect(paused.body.data).toMatchObject({ paused: true, pausedAt: expect.any(String), pausedBy: null, nextRunAt: null });
+
+      // Pausing again keeps the original time
+      const again = await request(app)
+        .post('/api/scheduler/pause')
+        .expect(200);
+      expect(again.body.data.pausedAt).toBe(paused.body.data.pausedAt);
+
+      // A restarted ping service picks the pause up from the database
+      const restarted = new PingService(databaseService, mockIo);
+      await new SchedulerService(databaseService, restarted).load();
+      expect(restarted.status()).toMatchObject({ paused: true, pausedAt: paused.body.data.pausedAt });
+
+      const resumed = await request(app)
+        .post('/api/scheduler/resume')
+        .expect(200);
+      expect(resumed.body.data).toMatchObject({ paused: false, pausedAt: null });
+      expect(await databaseService.getSchedulerState()).toEqual({ paused: false, pausedAt: null, pausedBy: null });
+    });
+  });
+
+  describe('API keys', () => {
+    let securedApp: express.Application;
+    let adminKey: string;
+
+    beforeAll(async () => {
+      const apiKeyService = new ApiKeyService(databaseService);
+      securedApp = express();
+      securedApp.use(express.json());
+      securedApp.use('/api', authenticate(apiKeyService, new UserService(databaseService), { required: true }), apiRoutes(databaseService, pingService, anomalyService, retentionService, notificationService, settingsService, schedulerService));
+      adminKey = (await apiKeyService.create({ name: 'Admin', scopes: ['admin'] })).key;
+    });
+
+    it('should reject requests without a valid key', async () => {
+      const missing = await request(securedApp).get('/api/pings').expect(401);
+      expect(missing.body.error).toBe('Unauthorized');
+
+      await request(securedApp).get('/api/pings').set('Authorization', 'Bearer hbm_not-a-key').expect(401);
+      await request(securedApp).post('/api/ping').expect(401);
+    });
+
+    it('should create keys that only grant their scopes, then revoke them', async () => {
+      const created = await request(securedApp)
+        .post('/api/keys')
+        .set('Authorization', `Bearer ${adminKey}`)
+        .send({ name: 'Dashboard', scopes: ['read'] })
+        .expect(201);
+      const { id, key, prefix } = created.body.data;
+      expect(key).toMatch(/^hbm_/);
+      expect(key.startsWith(prefix)).toBe(true);
+
+      await request(securedApp).get('/api/stats').set('X-API-Key', key).expect(200);
+      // The backtest only reads, so a read key may run it
+      await request(securedApp).post('/api/alert-rules/backtest').set('X-API-Key', key).send({}).expect(200);
+      const forbidden = await request(securedApp).post('/api/ping').set('X-API-Key', key).expect(403);
+      expect(forbidden.body.message).toBe('This API key lacks the "trigger" scope');
+      await request(securedApp).get('/api/keys').set('X-API-Key', key).expect(403);
+
+      const list = await request(securedApp).get('/api/keys').set('Authorization', `Bearer ${adminKey}`).expect(200);
+      const listed = list.body.data.find((apiKey: any) => apiKey.id === id);
+      expect(listed).toMatchObject({ name: 'Dashboard', scopes: ['read'], lastUsedAt: expect.any(String) });
+      expect(listed.key).toBeUndefined();
+
+      await request(securedApp).delete(`/api/keys/${id}`).set('Authorization', `Bearer ${adminKey}`).expect(200);
+      await request(securedApp).get('/api/stats').set('X-API-Key', key).expect(401);
+      await request(securedApp).delete(`/api/keys/${id}`).set('Authorization', `Bearer ${adminKey}`).expect(404);
+    });
+
+    it('should let trigger keys ping and acknowledge but not configure', async () => {
+      const { body } = await request(securedApp)
+        .post('/api/keys')
+        .set('Authorization', `Bearer ${adminKey}`)
+        .send({ name: 'CI', scopes: ['trigger'] })
+        .expect(201);
+
+      await request(securedApp).post('/api/ping').set('X-API-Key', body.data.key).expect(200);
+      await request(securedApp).post('/api/incidents/999/ack').set('X-API-Key', body.data.key).expect(404);
+      const paused = await request(securedApp).post('/api/scheduler/pause').set('X-API-Key', body.data.key).expect(200);
+      expect(paused.body.data.pausedBy).toBe('API key CI');
+      await request(securedApp).post('/api/scheduler/resume').set('X-API-Key', body.data.key).expect(200);
+      await request(securedApp).post('/api/monitors').set('X-API-Key', body.data.key).send({}).expect(403);
+      await request(securedApp).get('/api/pings').set('X-API-Key', body.data.key).expect(403);
+    });
+
+    it('should validate new keys', async () => {
+      const response = await request(securedApp)
+        .post('/api/keys')
+        .set('Authorization', `Bearer ${adminKey}`)
+        .send({ name: 'Bad', scopes: ['write'] })
+        .expect(400);
+      expect(response.body.error).toBe('Invalid API key');
+    });
+  });
+
+  describe('Dashboard users', () => {
+    let securedApp: express.Application;
+    let adminCookie: string;
+
+    const login = async (username: string, password: string): Promise<string> => {
+      const response = await request(securedApp).post('/api/auth/login').send({ username, password }).expect(200);
+      return response.headers['set-cookie'][0].split(';')[0];
+    };
+
+    beforeAll(async () => {
+      const userService = new UserService(databaseService);
+      securedApp = express();
+      securedApp.use(express.json());
+      securedApp.use('/api', authenticate(new ApiKeyService(databaseService), userService, { required: true }), apiRoutes(databaseService, pingService, anomalyService, retentionService, notificationService, settingsService, schedulerService));
+      await userService.create({ username: 'root', password: 'root-password', role: 'admin' });
+      adminCookie = await login('root', 'root-password');
+    });
+
+    it('should sign in with a session cookie and sign out again', async () => {
+      const failed = await request(securedApp).post('/api/auth/login').send({ username: 'root', password: 'wrong' }).expect(401);
+      expect(failed.body.message).toBe('Invalid username or password');
+      expect(failed.headers['set-cookie']).toBeUndefined();
+
+      const response = await request(securedApp).post('/api/auth/login').send({ username: 'root', password: 'root-password' }).expect(200);
+      expect(response.headers['set-cookie'][0]).toMatch(/^hbm_session=[\w-]+; Max-Age=\d+; Path=\/; .*HttpOnly; SameSite=Lax/);
+      const cookie = response.headers['set-cookie'][0].split(';')[0];
+
+      const me = await request(securedApp).get('/api/auth/me').set('Cookie', cookie).expect(200);
+      expect(me.body.data).toMatchObject({ user: { username: 'root', role: 'admin', lastLoginAt: expect.any(String) }, scopes: ['admin'] });
+      expect(me.body.data.user.passwordHash).toBeUndefined();
+
+      await request(securedApp).post('/api/auth/logout').set('Cookie', cookie).expect(200);
+      await request(securedApp).get('/api/auth/me').set('Cookie', cookie).expect(401);
+      await request(securedApp).get('/api/stats').set('Cookie', cookie).expect(401);
+    });
+
+    it('should enforce the viewer and operator roles', async () => {
+      for (const [username, role] of [['vera', 'viewer'], ['otto', 'operator']]) {
+        await request(securedApp)
+          .post('/api/users')
+          .set('Cookie', adminCookie)
+          .send({ username, password: `${username}-password`, role })
+          .expect(201);
+      }
+      const viewer = await login('vera', 'vera-password');
+      const operator = await login('otto', 'otto-password');
+
+      await request(securedApp).get('/api/stats').set('Cookie', viewer).expect(200);
+      const forbidden = await request(securedApp).post('/api/ping').set('Cookie', viewer).expect(403);
+      expect(forbidden.body.message).toBe('The viewer role does not allow this');
+
+      await request(securedApp).post('/api/ping').set('Cookie', operator).expect(200);
+      await request(securedApp).post('/api/monitors').set('Cookie', operator).send({}).expect(403);
+      await request(securedApp).get('/api/users').set('Cookie', operator).expect(403);
+    });
+
+    it('should let admins manage users but keep the last admin', async () => {
+      const created = await request(securedApp)
+        .post('/api/users')
+        .set('Cookie', adminCookie)
+        .send({ username: 'pat', password: 'pat-password', role: 'viewer' })
+        .expect(201);
+      const { id } = created.body.data;
+      await request(securedApp)
+        .post('/api/users')
+        .set('Cookie', adminCookie)
+        .send({ username: 'pat', password: 'pat-password', role: 'viewer' })
+        .expect(409);
+      const invalid = await request(securedApp)
+        .post('/api/users')
+        .set('Cookie', adminCookie)
+        .send({ username: 'short', password: 'short', role: 'viewer' })
+        .expect(400);
+      expect(invalid.body.details).toEqual(['"password" length must be at least 8 characters long']);
+
+      const pat = await login('pat', 'pat-password');
+      const promoted = await request(securedApp).put(`/api/users/${id}`).set('Cookie', adminCookie).send({ role: 'operator' }).expect(200);
+      expect(promoted.body.data.role).toBe('operator');
+      await request(securedApp).post('/api/ping').set('Cookie', pat).expect(200);
+
+      // A reset password ends the sessions opened with the old one
+      await request(securedApp).put(`/api/users/${id}`).set('Cookie', adminCookie).send({ password: 'new-password' }).expect(200);
+      await request(securedApp).get('/api/stats').set('Cookie', pat).expect(401);
+      await login('pat', 'new-password');
+
+      const rootId = (await request(securedApp).get('/api/auth/me').set('Cookie', adminCookie)).body.data.user.id;
+      await request(securedApp).put(`/api/users/${rootId}`).set('Cookie', adminCookie).send({ role: 'viewer' }).expect(409);
+      await request(securedApp).delete(`/api/users/${rootId}`).set('Cookie', adminCookie).expect(409);
+
+      await request(securedApp).delete(`/api/users/${id}`).set('Cookie', adminCookie).expect(200);
+      await request(securedApp).delete(`/api/users/${id}`).set('Cookie', adminCookie).expect(404);
+      const list = await request(securedApp).get('/api/users').set('Cookie', adminCookie).expect(200);
+      expect(list.body.data.map((user: any) => user.username)).not.toContain('pat');
+    });
   });
 
   describe('Error Handling', () => {
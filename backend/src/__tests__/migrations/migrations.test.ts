@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { DatabaseService } from '../../services/database';
+import { Migration, MigrationRunner, migrations } from '../../migrations';
+import { SqliteAdapter } from '../../storage';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const run = (db: sqlite3.Database, sql: string): Promise<void> => new Promise((resolve, reject) => {
+  db.run(sql, err => (err ? reject(err) : resolve()));
+});
+
+describe('migrations', () => {
+  let databaseService: DatabaseService | undefined;
+
+  afterEach(async () => {
+    await databaseService?.close();
+    databaseService = undefined;
+  });
+
+  it('should have unique, ascending versions', () => {
+    expect(migrations.map(m => m.version)).toEqual(migrations.map((_, index) => index + 1));
+  });
+
+  it('should apply every migration on initialize and record it', async () => {
+    process.env.DB_PATH = ':memory:';
+    const service = new DatabaseService();
+    databaseService = service;
+    await service.initialize();
+
+    const status = await databaseService.migrations().status();
+    expect(status.every(m => m.appliedAt !== null)).toBe(true);
+    expect(await databaseService.migrations().pending()).toEqual([]);
+  });
+
+  it('should upgrade a database created before versioning without losing rows', async () => {
+    const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-')), 'legacy.db');
+    const legacy = new sqlite3.Database(dbPath);
+    await run(legacy, `
+      CREATE TABLE ping_records (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        request_payload TEXT NOT NULL,
+        response_data TEXT NOT NULL,
+        status_code INTEGER NOT NULL,
+        response_time INTEGER NOT NULL,
+        content_type TEXT,
+        content_length INTEGER
+      )
+    `);
+    await run(
+      legacy,
+      `INSERT INTO ping_records (timestamp, request_payload, response_data, status_code, response_time)
+        VALUES ('2024-01-01T00:00:00.000Z', '{}', '{}', 200, 120)`
+    );
+    await new Promise(resolve => legacy.close(resolve));
+
+    process.env.DB_PATH = dbPath;
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+
+    const { records } = await databaseService.getPingRecords(10, 0);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toEqual(expect.objectContaining({ responseTime: 120, requestType: 'auto', monitorId: null }));
+  });
+
+  it('should leave the database untouched on a dry run', async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize({ migrate: false });
+
+    const result = await databaseService.migrations().migrate({ dryRun: true });
+    expect(result.applied).toHaveLength(migrations.length);
+    expect(result.statements[2]).toEqual(["ALTER TABLE ping_records ADD COLUMN request_type TEXT DEFAULT 'auto'"]);
+
+    const status = await databaseService.migrations().status();
+    expect(status.every(m => m.appliedAt === null)).toBe(true);
+    await expect(databaseService.getPingRecords(10, 0)).rejects.toThrow(/no such table/);
+  });
+
+  it('should roll back a failing migration and keep the ones before it', async () => {
+    const db = new SqliteAdapter(':memory:');
+    await db.connect();
+    const failing: Migration[] = [
+      { version: 1, name: 'create_a', up: async ctx => { await ctx.run('CREATE TABLE a (id INTEGER)'); } },
+      {
+        version: 2,
+        name: 'broken',
+        up: async ctx => {
+          await ctx.run('CREATE TABLE b (id INTEGER)');
+          await ctx.run('INSERT INTO missing_table VALUES (1)');
+        }
+      }
+    ];
+    const runner = new MigrationRunner(db, failing);
+
+    await expect(runner.migrate()).rejects.toThrow('Migration 2 (broken) failed');
+
+    const status = await runner.status();
+    expect(status.map(m => m.appliedAt !== null)).toEqual([true, false]);
+    const tables = await db.all<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('a', 'b')");
+    expect(tables.map(t => t.name)).toEqual(['a']);
+
+    await db.close();
+  });
+
+  it('should reject out-of-order versions', () => {
+    const noop = async (): Promise<void> => undefined;
+    expect(() => new MigrationRunner(new SqliteAdapter(':memory:'), [
+      { version: 2, name: 'b', up: noop },
+      { version: 1, name: 'a', up: noop }
+    ])).toThrow('unique and ascending');
+  });
+});
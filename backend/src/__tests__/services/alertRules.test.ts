@@ -0,0 +1,174 @@
+import { AlertRule, createRuleState, describeRule, evaluateRule, observeRule, ruleLookbackMinutes } from '../../services/alertRules';
+import { PingRecord } from '../../services/database';
+
+const NOW = Date.parse('2024-03-15T12:00:00.000Z');
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+  id: 1,
+  name: 'Rule',
+  enabled: true,
+  monitorId: null,
+  type: 'response_time',
+  when: [{ metric: 'p95', operator: '>', threshold: 800 }],
+  window: { minutes: 15 },
+  consecutive: 1,
+  minSamples: 1,
+  severity: 'medium',
+  escalate: [],
+  createdAt: '2024-03-15T00:00:00.000Z',
+  updatedAt: '2024-03-15T00:00:00.000Z',
+  ...overrides
+});
+
+// One ping a minute, newest first, like getRecentRecords returns them
+const pings = (responseTimes: number[], statusCode = 200): PingRecord[] =>
+  responseTimes.map((responseTime, index) => ({
+    id: responseTimes.length - index,
+    timestamp: new Date(NOW - index * 60 * 1000).toISOString(),
+    requestPayload: '{}',
+    responseData: '{}',
+    statusCode,
+    responseTime
+  }));
+
+const options = { now: NOW, activeWithinMs: 10 * 60 * 1000 };
+
+describe('alert rules', () => {
+  it('should only fire when every consecutive window breaches', () => {
+    const slowRule = rule({ consecutive: 2 });
+
+    const slowThenFast = pings([...Array(15).fill(1000), ...Array(15).fill(100)]);
+    expect(evaluateRule(slowRule, slowThenFast, null, options)).toHaveLength(0);
+
+    // Fires with every ping once the older window filled up too
+    const findings = evaluateRule(slowRule, pings(Array(30).fill(1000)), null, options);
+    expect(findings).toHaveLength(15);
+    expect(findings[0]).toEqual(expect.objectContaining({
+      severity: 'medium',
+      value: 1000,
+      threshold: 800,
+      message: 'Rule: p95 1000ms over 15m',
+      fingerprint: 'response_time:default:rule-1'
+    }));
+  });
+
+  it('should skip windows with too few samples', () => {
+    expect(evaluateRule(rule({ minSamples: 20 }), pings(Array(15).fill(1000)), null, options)).toHaveLength(0);
+  });
+
+  it('should escalate severity when a step holds', () => {
+    const errorRule = rule({
+      type: 'error_rate',
+      when: [{ metric: 'error_rate', operator: '>', threshold: 30 }],
+      window: { pings: 10 },
+      escalate: [
+        { metric: 'error_rate', operator: '>=', threshold: 50, severity: 'high' },
+        { metric: 'error_rate', operator: '>=', threshold: 40, severity: 'low' }
+      ]
+    });
+
+    const findings = evaluateRule(errorRule, pings(Array(10).fill(100), 503), null, options);
+    const finding = findings[findings.length - 1];
+
+    expect(finding.severity).toBe('high');
+    expect(finding.message).toBe('Rule: error_rate 100% over the last 10 pings (10/10 requests failed)');
+  });
+
+  it('should keep exact running statistics until the window weight takes over', () => {
+    const zScoreRule = rule({ when: [{ metric: 'zscore', operator: '>', threshold: 3 }], window: { pings: 5 } });
+    const state = createRuleState(zScoreRule);
+    const observe = (responseTime: number, index: number): void => {
+      observeRule(zScoreRule, state, { ...pings([responseTime])[0], id: index + 1 }, null, options);
+    };
+
+    [100, 200, 300].forEach(observe);
+    expect(state).toEqual(expect.objectContaining({ stats: { count: 3, mean: 200, variance: expect.closeTo(6666.67, 1) } }));
+
+    // A 5-ping span weighs each new ping by 2 / (5 + 1), more than 1/4 of a plain average
+    observe(400, 3);
+    expect(state).toEqual(expect.objectContaining({ stats: expect.objectContaining({ count: 4, mean: expect.closeTo(266.67, 1) }) }));
+  });
+
+  it('should report each matching ping for per-ping rules', () => {
+    const outlierRule = rule({
+      when: [{ metric: 'zscore', operator: '>', threshold: 2.5 }, { metric: 'response_time', operator: '>', threshold: 5000 }],
+      window: { minutes: 60 }
+    });
+    const records = pings([8000, ...Array(20).fill(300)]);
+
+    const findings = evaluateRule(outlierRule, records, 4, options);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toEqual(expect.objectContaining({ recordId: records[0].id, monitorId: 4, active: true }));
+    expect(findings[0].message).toMatch(/^Response time 8000ms is \d+\.\d{2} standard deviations above mean/);
+  });
+
+  it('should judge pings against the median so an earlier outlier does not mask later ones', () => {
+    const history = Array.from({ length: 30 }, (_, index) => (index === 15 ? 5000 : index % 2 ? 95 : 105));
+    const records = pings([400, ...history]);
+    const detector = (metric: 'zscore' | 'mad_score', threshold: number): AlertRule =>
+      rule({ when: [{ metric, operator: '>', threshold }], window: { pings: 50 }, minSamples: 10 });
+
+    expect(evaluateRule(detector('zscore', 3), records, null, options).map(f => f.recordId)).not.toContain(records[0].id);
+
+    const findings = evaluateRule(detector('mad_score', 3.5), records, null, options);
+    expect(findings[findings.length - 1]).toEqual(expect.objectContaining({ recordId: records[0].id, value: 400 }));
+    expect(findings[findings.length - 1].message).toMatch(/^Response time 400ms is \d+\.\d{2} scaled MADs above the median \(105ms\)/);
+  });
+
+  it('should catch a small sustained shift with EWMA and CUSUM that a z-score misses', () => {
+    const baseline = Array.from({ length: 30 }, (_, index) => (index % 2 ? 95 : 105));
+    const records = pings([...Array(10).fill(110), ...baseline]);
+    const detector = (metric: 'zscore' | 'ewma_score' | 'cusum', threshold: number): AlertRule =>
+      rule({ when: [{ metric, operator: '>', threshold }], window: { pings: 100 }, minSamples: 10 });
+
+    expect(evaluateRule(detector('zscore', 3), records, null, options)).toHaveLength(0);
+
+    const ewma = evaluateRule(detector('ewma_score', 3), records, null, options);
+    expect(ewma.length).toBeGreaterThan(0);
+    expect(ewma[0].message).toMatch(/^Smoothed response time \d+ms is \d+\.\d{2} control band widths above mean/);
+
+    const cusum = evaluateRule(detector('cusum', 5), records, null, options);
+    expect(cusum.length).toBeGreaterThan(0);
+    expect(cusum[0]).toEqual(expect.objectContaining({ threshold: 5 }));
+    expect(cusum[0].message).toMatch(/^Response times are drifting above mean \(\d+ms\), CUSUM \d+\.\d{2}/);
+  });
+
+  it('should compare pings with the same hour of the week', () => {
+    // Three weeks of hourly pings that are slow every night at 02:00 UTC, then a fourth day
+    const start = Date.parse('2024-02-19T00:00:00.000Z');
+    const records: PingRecord[] = Array.from({ length: 22 * 24 }, (_, index) => {
+      const hour = new Date(start + index * 60 * 60 * 1000).getUTCHours();
+      const slow = hour === 2 || index === 21 * 24 + 14;
+      return {
+        id: index + 1,
+        timestamp: new Date(start + index * 60 * 60 * 1000).toISOString(),
+        requestPayload: '{}',
+        responseData: '{}',
+        statusCode: 200,
+        responseTime: slow ? 1000 : 100
+      };
+    });
+    const seasonalRule = rule({ when: [{ metric: 'seasonal_score', operator: '>', threshold: 3 }], window: { minutes: 60 } });
+
+    const findings = evaluateRule(seasonalRule, records, null, { now: start + 22 * 24 * 60 * 60 * 1000, activeWithinMs: options.activeWithinMs });
+
+    expect(findings.map(f => f.timestamp)).toEqual(['2024-03-11T14:00:00.000Z']);
+    expect(findings[0].message).toBe('Response time 1000ms is 900.00 standard deviations above the usual level for Monday 14:00 UTC (100ms)');
+  });
+
+  it('should ignore rules scoped to another monitor or disabled', () => {
+    const records = pings(Array(15).fill(1000));
+
+    expect(evaluateRule(rule({ monitorId: 2 }), records, 1, options)).toHaveLength(0);
+    expect(evaluateRule(rule({ enabled: false }), records, null, options)).toHaveLength(0);
+  });
+
+  it('should describe rules and how far back they look', () => {
+    const slowRule = rule({ consecutive: 2, severity: 'high' });
+
+    expect(describeRule(slowRule)).toBe('p95 > 800ms over 15m for 2 consecutive windows → high');
+    expect(ruleLookbackMinutes(slowRule)).toBe(30);
+    expect(ruleLookbackMinutes(rule({ window: { pings: 50 } }))).toBe(0);
+  });
+});
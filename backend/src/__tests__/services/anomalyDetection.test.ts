@@ -0,0 +1,152 @@
+import { Server } from 'socket.io';
+import { DatabaseService, PingRecord } from '../../services/database';
+import { AnomalyDetectionService } from '../../services/anomalyDetection';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('AnomalyDetectionService', () => {
+  let databaseService: DatabaseService;
+  let anomalyService: AnomalyDetectionService;
+  const mockEmit = jest.fn();
+  const mockIo = { emit: mockEmit } as unknown as Server;
+
+  const anomalyEvents = () => mockEmit.mock.calls.filter(([event]) => event === 'anomaly').map(([, anomaly]) => anomaly);
+
+  // Stores a ping the way PingService does and returns it with its id
+  const store = async (minutesAgo: number, responseTime: number, statusCode = 200): Promise<PingRecord> => {
+    const record = {
+      timestamp: new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+      requestPayload: '{}',
+      responseData: '{}',
+      statusCode,
+      responseTime
+    };
+    return { id: await databaseService.insertPingRecord(record), ...record };
+  };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+    anomalyService = new AnomalyDetectionService(databaseService, mockIo);
+    mockEmit.mockClear();
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should report an anomaly as soon as the record is observed', async () => {
+    for (let i = 30; i > 0; i--) {
+      await anomalyService.observe(await store(i, 300 + (i % 3) * 10));
+    }
+    expect(anomalyEvents()).toHaveLength(0);
+
+    await anomalyService.observe(await store(0, 9000));
+
+    expect(anomalyEvents()).toEqual([expect.objectContaining({ type: 'response_time', value: 9000 })]);
+    const { incidents } = await databaseService.getIncidents(10, 0, { status: 'active' });
+    expect(incidents).toHaveLength(1);
+  });
+
+  it('should keep the baselines across a restart', async () => {
+    for (let i = 30; i > 0; i--) {
+      await anomalyService.observe(await store(i, 300 + (i % 3) * 10));
+    }
+
+    const saved = await databaseService.getDetectorStates();
+    expect(saved.find(detector => detector.state.kind === 'ping')?.state).toEqual(expect.objectContaining({
+      stats: expect.objectContaining({ count: 30, mean: expect.closeTo(310, 0) })
+    }));
+
+    // A new instance resumes from the stored state instead of rereading the history
+    const restarted = new AnomalyDetectionService(databaseService, mockIo);
+    const getRecordsInOrder = jest.spyOn(databaseService, 'getRecordsInOrder');
+    await restarted.observe(await store(0, 9000));
+
+    expect(getRecordsInOrder).not.toHaveBeenCalled();
+    expect(anomalyEvents()).toEqual([expect.objectContaining({ value: 9000 })]);
+  });
+
+  it('should catch up on records it was not handed, once', async () => {
+    for (let i = 12; i > 0; i--) {
+      await store(i, 200, 503);
+    }
+
+    await anomalyService.analyzeOnce();
+    await anomalyService.analyzeOnce();
+
+    const errors = anomalyEvents().filter(anomaly => anomaly.type === 'status_code');
+    expect(errors.length).toBeGreaterThan(0);
+    expect(new Set(errors.map(anomaly => anomaly.message)).size).toBe(errors.length);
+    expect((await anomalyService.getCurrentStats()).lastAnalysisAt).not.toBeNull();
+  });
+
+  it('should resolve an incident once its rule stops firing for that monitor', async () => {
+    for (let i = 30; i > 0; i--) {
+      await anomalyService.observe(await store(i, 300 + (i % 3) * 10));
+    }
+    await anomalyService.observe(await store(0, 9000));
+    await anomalyService.observe(await store(0, 305));
+
+    const { incidents } = await databaseService.getIncidents(10, 0, {});
+    expect(incidents).toEqual([expect.objectContaining({ status: 'resolved' })]);
+  });
+
+  it('should start a changed rule over from the stored history', async () => {
+    for (let i = 8; i > 0; i--) {
+      await anomalyService.observe(await store(i, 200, i <= 4 ? 503 : 200));
+    }
+    const errorEvents = () => anomalyEvents().filter(anomaly => anomaly.type === 'status_code');
+    const [errorRule] = (await databaseService.getAlertRules()).filter(rule => rule.name === 'Failed requests');
+    expect(errorEvents()).toHaveLength(0);
+
+    // Lowering the sample minimum rebuilds the window from the records already stored
+    await databaseService.updateAlertRule(errorRule.id, { minSamples: 5 });
+    await anomalyService.observe(await store(0, 200, 503));
+
+    expect(errorEvents()).toEqual([expect.objectContaining({
+      message: 'Failed requests: error_count 5 failures over the last 20 pings (5/9 requests failed)'
+    })]);
+  });
+
+  it('should open an incident for an SLO burning its error budget and resolve it once the burn stops', async () => {
+    await databaseService.createSlo({
+      name: 'Availability',
+      enabled: true,
+      monitorId: null,
+      objective: 'availability',
+      target: 99.9,
+      latencyThreshold: null,
+      windowDays: 30,
+      burnRateAlerts: true
+    });
+    for (let i = 20; i > 0; i--) {
+      await store(i, 200, i <= 3 ? 503 : 200);
+    }
+
+    await anomalyService.analyzeOnce();
+    await anomalyService.analyzeOnce();
+
+    // The medium alert of the second run is attached to the open incident without being broadcast
+    expect(anomalyEvents().filter(anomaly => anomaly.type === 'slo_burn').map(anomaly => anomaly.severity)).toEqual(['high']);
+    const { incidents } = await databaseService.getIncidents(10, 0, { status: 'active' });
+    expect(incidents.filter(incident => incident.type === 'slo_burn')).toEqual([
+      expect.objectContaining({ severity: 'high', anomalyCount: 2 })
+    ]);
+
+    // Disabling the alerts counts as the burn having stopped
+    const [slo] = await databaseService.getSlos();
+    await databaseService.updateSlo(slo.id, { burnRateAlerts: false });
+    await anomalyService.analyzeOnce();
+
+    const { incidents: after } = await databaseService.getIncidents(10, 0, { status: 'active' });
+    expect(after.filter(incident => incident.type === 'slo_burn')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,67 @@
+import { Socket } from 'socket.io';
+import { DatabaseService } from '../../services/database';
+import { ApiKeyService, hashApiKey, hasScope } from '../../services/apiKeys';
+import { UserService } from '../../services/users';
+import { authenticateSocket } from '../../middleware/auth';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('ApiKeyService', () => {
+  let databaseService: DatabaseService;
+  let apiKeyService: ApiKeyService;
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+    apiKeyService = new ApiKeyService(databaseService);
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should store only a hash of the key and verify it', async () => {
+    const { apiKey, key } = await apiKeyService.create({ name: 'Reader', scopes: ['read'] });
+
+    expect(await databaseService.getApiKeyByHash(hashApiKey(key))).toMatchObject({ id: apiKey.id, name: 'Reader' });
+    expect(JSON.stringify(await databaseService.getApiKeys())).not.toContain(key);
+
+    expect(apiKey.lastUsedAt).toBeNull();
+    expect(await apiKeyService.verify(key)).toMatchObject({ id: apiKey.id, scopes: ['read'], lastUsedAt: expect.any(String) });
+    expect(await apiKeyService.verify(key.slice(0, -1))).toBeNull();
+    expect(await apiKeyService.verify('not-a-key')).toBeNull();
+  });
+
+  it('should treat admin as every scope', () => {
+    expect(hasScope(['admin'], 'trigger')).toBe(true);
+    expect(hasScope(['read', 'trigger'], 'trigger')).toBe(true);
+    expect(hasScope(['trigger'], 'read')).toBe(false);
+  });
+
+  it('should only accept socket connections with a read key', async () => {
+    const reader = await apiKeyService.create({ name: 'Dashboard', scopes: ['read'] });
+    const trigger = await apiKeyService.create({ name: 'CI', scopes: ['trigger'] });
+    const middleware = authenticateSocket(apiKeyService, new UserService(databaseService), { required: true });
+    const connect = async (auth: Record<string, unknown>): Promise<Error | undefined> => {
+      const next = jest.fn();
+      await middleware({ handshake: { auth, headers: {} } } as unknown as Socket, next);
+      return next.mock.calls[0][0];
+    };
+
+    expect(await connect({ token: reader.key })).toBeUndefined();
+    expect(await connect({ token: trigger.key })).toEqual(new Error('Unauthorized'));
+    expect(await connect({})).toEqual(new Error('Unauthorized'));
+
+    const open = authenticateSocket(apiKeyService, new UserService(databaseService), { required: false });
+    const next = jest.fn();
+    await open({ handshake: { auth: {} } } as unknown as Socket, next);
+    expect(next).toHaveBeenCalledWith();
+  });
+});
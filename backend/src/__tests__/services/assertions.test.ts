@@ -0,0 +1,76 @@
+import { evaluateAssertions, isFailedRecord, parseJsonPath } from '../../services/assertions';
+
+describe('assertions', () => {
+  const response = {
+    status: 200,
+    data: { status: 'ok', items: [{ id: 1 }, { id: 2 }], 'weird key': true },
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+    responseTime: 120
+  };
+
+  describe('parseJsonPath', () => {
+    it('should parse dot, bracket and index segments', () => {
+      expect(parseJsonPath('$')).toEqual([]);
+      expect(parseJsonPath('$.items[1].id')).toEqual(['items', 1, 'id']);
+      expect(parseJsonPath("$['weird key']")).toEqual(['weird key']);
+    });
+
+    it('should reject unsupported syntax', () => {
+      expect(() => parseJsonPath('items.id')).toThrow();
+      expect(() => parseJsonPath('$..id')).toThrow();
+      expect(() => parseJsonPath('$.items[*]')).toThrow();
+    });
+  });
+
+  describe('evaluateAssertions', () => {
+    it('should pass when every assertion holds', () => {
+      const results = evaluateAssertions([
+        { type: 'status', expected: [200, 201] },
+        { type: 'json_path', path: '$.items[1].id', equals: 2 },
+        { type: 'body_regex', pattern: '"status":"ok"' },
+        { type: 'header', name: 'Content-Type', pattern: '^application/json' },
+        { type: 'response_time', max: 500 }
+      ], response);
+
+      expect(results).toHaveLength(5);
+      expect(results.every(result => result.passed)).toBe(true);
+    });
+
+    it('should report a 200 with the wrong payload', () => {
+      const [statusResult, payloadResult] = evaluateAssertions([
+        { type: 'status', expected: [200] },
+        { type: 'json_path', path: '$.status', equals: 'healthy' }
+      ], response);
+
+      expect(statusResult.passed).toBe(true);
+      expect(payloadResult.passed).toBe(false);
+      expect(payloadResult.actual).toBe('ok');
+      expect(payloadResult.message).toContain('expected "healthy"');
+    });
+
+    it('should fail missing paths, headers and slow responses', () => {
+      const results = evaluateAssertions([
+        { type: 'json_path', path: '$.missing.value', equals: 1 },
+        { type: 'header', name: 'X-Request-Id' },
+        { type: 'response_time', max: 100 }
+      ], response);
+
+      expect(results.map(result => result.passed)).toEqual([false, false, false]);
+      expect(results[1].message).toBe('Header X-Request-Id is missing');
+    });
+
+    it('should fail every assertion when there is no response', () => {
+      const results = evaluateAssertions([{ type: 'status', expected: [200] }], null);
+      expect(results[0]).toEqual({ type: 'status', passed: false, message: 'No response received' });
+    });
+  });
+
+  describe('isFailedRecord', () => {
+    it('should treat HTTP errors and failed assertions as failures', () => {
+      expect(isFailedRecord({ statusCode: 500 })).toBe(true);
+      expect(isFailedRecord({ statusCode: 200, assertionStatus: 'failed' })).toBe(true);
+      expect(isFailedRecord({ statusCode: 200, assertionStatus: 'passed' })).toBe(false);
+      expect(isFailedRecord({ statusCode: 200 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  BacktestFinding,
+  backtest,
+  draftRule,
+  evaluateFindings,
+  findingTimeline,
+  outlierRule,
+  parseLabels,
+  parseRecords
+} from '../../services/backtest';
+import { PingRecord } from '../../services/database';
+
+const START = Date.parse('2024-03-01T00:00:00.000Z');
+
+// One ping a minute, oldest first
+const pings = (responseTimes: number[]): PingRecord[] =>
+  responseTimes.map((responseTime, index) => ({
+    id: index + 1,
+    timestamp: new Date(START + index * 60 * 1000).toISOString(),
+    requestPayload: '{}',
+    responseData: '{}',
+    statusCode: 200,
+    responseTime
+  }));
+
+const finding = (minute: number, severity: BacktestFinding['severity'] = 'medium'): BacktestFinding => ({
+  timestamp: new Date(START + minute * 60 * 1000).toISOString(),
+  severity,
+  value: 1,
+  threshold: 1,
+  message: ''
+});
+
+describe('backtest', () => {
+  it('should replay candidate thresholds side by side', () => {
+    const records = pings([...Array.from({ length: 30 }, (_, index) => 100 + (index % 3) * 10), 3000, 6000]);
+
+    const results = backtest([draftRule(outlierRule(2.5, 5000)), draftRule(outlierRule(2.5, 2000))], records, null);
+
+    expect(results.map(result => result.rule)).toEqual([
+      expect.objectContaining({ id: null, name: 'Response time outlier (z > 2.5, > 5000ms)' }),
+      expect.objectContaining({ id: null, name: 'Response time outlier (z > 2.5, > 2000ms)' })
+    ]);
+    expect(results.map(result => result.flagged)).toEqual([1, 2]);
+    expect(results[1].bySeverity).toEqual({ low: 0, medium: 0, high: 2 });
+    expect(results[1].findings.map(f => f.recordId)).toEqual([31, 32]);
+  });
+
+  it('should score findings against labeled incidents', () => {
+    const labels = [
+      { start: '2024-03-01T00:10:00.000Z', end: '2024-03-01T00:20:00.000Z' },
+      { start: '2024-03-01T02:00:00.000Z', end: '2024-03-01T02:30:00.000Z' }
+    ];
+
+    expect(evaluateFindings([finding(12), finding(15), finding(40)], labels)).toEqual({
+      truePositives: 2,
+      falsePositives: 1,
+      detected: 1,
+      missed: 1,
+      precision: 2 / 3,
+      recall: 0.5
+    });
+    expect(evaluateFindings([], [])).toEqual(expect.objectContaining({ precision: null, recall: null }));
+  });
+
+  it('should count findings per bucket including empty ones', () => {
+    const timeline = findingTimeline(
+      [finding(5, 'low'), finding(20, 'high'), finding(50)],
+      new Date(START),
+      new Date(START + 59 * 60 * 1000),
+      15
+    );
+
+    expect(timeline).toEqual([
+      { start: '2024-03-01T00:00:00.000Z', total: 1, low: 1, medium: 0, high: 0 },
+      { start: '2024-03-01T00:15:00.000Z', total: 1, low: 0, medium: 0, high: 1 },
+      { start: '2024-03-01T00:30:00.000Z', total: 0, low: 0, medium: 0, high: 0 },
+      { start: '2024-03-01T00:45:00.000Z', total: 1, low: 0, medium: 1, high: 0 }
+    ]);
+  });
+
+  it('should read exported records and labels', () => {
+    const ndjson = [
+      '{"timestamp":"2024-03-01T00:00:00Z","statusCode":200,"responseTime":120}',
+      '',
+      '{"id":7,"timestamp":"2024-03-01T00:01:00.000Z","statusCode":500,"responseTime":80,"monitorId":2}'
+    ].join('\n');
+
+    expect(parseRecords(ndjson)).toEqual([
+      expect.objectContaining({ id: 1, timestamp: '2024-03-01T00:00:00.000Z', responseTime: 120 }),
+      expect.objectContaining({ id: 7, statusCode: 500, monitorId: 2 })
+    ]);
+    expect(parseRecords(JSON.stringify({ success: true, data: pings([100]) }))).toHaveLength(1);
+
+    expect(() => parseRecords('{"timestamp":"2024-03-01T00:00:00Z","statusCode":200,"responseTime":1}\n{oops')).toThrow('Line 2: not valid JSON');
+    expect(() => parseRecords('[{"timestamp":"yesterday","statusCode":200,"responseTime":1}]')).toThrow('Record 1');
+    expect(() => parseLabels('[{"start":"2024-03-01T00:00:00Z"}]')).toThrow('Label 1');
+  });
+});
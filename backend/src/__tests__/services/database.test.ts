@@ -1,4 +1,6 @@
+import { Client } from 'pg';
 import { DatabaseService } from '../../services/database';
+import { SqlStorageAdapter } from '../../storage/sql';
 import { logger } from '../../utils/logger';
 
 // Mock logger to avoid console output during tests
@@ -10,19 +12,38 @@ jest.mock('../../utils/logger', () => ({
   }
 }));
 
-describe('DatabaseService', () => {
+// SQLite always runs; PostgreSQL runs too when TEST_POSTGRES_URL points at a disposable database (CI starts one)
+const backends: Array<{ name: string; dbUrl?: string }> = [{ name: 'SQLite' }];
+if (process.env.TEST_POSTGRES_URL) {
+  backends.push({ name: 'PostgreSQL', dbUrl: process.env.TEST_POSTGRES_URL });
+}
+
+const resetPostgres = async (dbUrl: string): Promise<void> => {
+  const client = new Client({ connectionString: dbUrl });
+  await client.connect();
+  await client.query('DROP SCHEMA public CASCADE; CREATE SCHEMA public;');
+  await client.end();
+};
+
+describe.each(backends)('DatabaseService ($name)', ({ dbUrl }) => {
   let databaseService: DatabaseService;
   const testDbPath = './test_monitoring.db';
 
   beforeEach(async () => {
     databaseService = new DatabaseService();
     // Use a test database
-    process.env.DB_PATH = testDbPath;
+    if (dbUrl) {
+      await resetPostgres(dbUrl);
+      process.env.DB_URL = dbUrl;
+    } else {
+      process.env.DB_PATH = testDbPath;
+    }
     await databaseService.initialize();
   });
 
   afterEach(async () => {
     await databaseService.close();
+    delete process.env.DB_URL;
     // Clean up test database file
     const fs = require('fs');
     if (fs.existsSync(testDbPath)) {
@@ -152,6 +173,30 @@ describe('DatabaseService', () => {
         new Date(secondRecord.timestamp).getTime()
       );
     });
+
+    it('should iterate over every matching record in id order, a page at a time', async () => {
+      await databaseService.insertPingRecord({
+        timestamp: new Date().toISOString(),
+        requestPayload: '{}',
+        responseData: '{}',
+        statusCode: 404,
+        responseTime: 300
+      });
+
+      const all = [];
+      for await (const record of databaseService.iteratePingRecords({}, 2)) {
+        all.push(record);
+      }
+      const ids = all.map(record => record.id);
+      expect(ids).toHaveLength(3);
+      expect(ids).toEqual([...ids].sort((a, b) => a - b));
+
+      const notFound = [];
+      for await (const record of databaseService.iteratePingRecords({ statusCode: 404 }, 1)) {
+        notFound.push(record);
+      }
+      expect(notFound.map(record => record.responseTime).sort()).toEqual([200, 300]);
+    });
   });
 
   describe('getStatistics', () => {
@@ -226,4 +271,191 @@ describe('DatabaseService', () => {
       expect(foundRecord).toBeDefined();
     });
   });
+
+  describe('getSeries', () => {
+    it('should aggregate records into buckets with percentiles', async () => {
+      const base = {
+        requestPayload: '{}',
+        responseData: '{}',
+        contentType: 'application/json',
+        contentLength: 2
+      };
+      const responseTimes = [100, 200, 300, 400, 1000];
+      for (const [i, responseTime] of responseTimes.entries()) {
+        await databaseService.insertPingRecord({
+          ...base,
+          timestamp: `2024-01-01T10:0${i}:00.000Z`,
+          statusCode: i === 4 ? 500 : 200,
+          responseTime
+        });
+      }
+      await databaseService.insertPingRecord({
+        ...base,
+        timestamp: '2024-01-01T11:30:00.000Z',
+        statusCode: 200,
+        responseTime: 50
+      });
+
+      const series = await databaseService.getSeries('1h', '2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z');
+
+      expect(series).toHaveLength(2);
+      expect(series[0]).toEqual({
+        bucketStart: '2024-01-01T10:00:00.000Z',
+        count: 5,
+        errorCount: 1,
+        min: 100,
+        max: 1000,
+        avg: 400,
+        p50: 300,
+        p95: 880,
+        p99: 976
+      });
+      expect(series[1]).toEqual(expect.objectContaining({ bucketStart: '2024-01-01T11:00:00.000Z', count: 1, p99: 50 }));
+
+      const minutes = await databaseService.getSeries('5m', '2024-01-01T10:00:00.000Z', '2024-01-01T10:05:00.000Z');
+      expect(minutes).toHaveLength(1);
+      expect(minutes[0].count).toBe(5);
+    });
+  });
+
+  describe('monitors', () => {
+    const monitorInput = {
+      name: 'Example API',
+      url: 'https://example.com/health',
+      method: 'GET' as const,
+      headers: { Accept: 'application/json' },
+      bodyTemplate: null,
+      interval: 60000,
+      timeout: 5000,
+      enabled: true,
+      assertions: [{ type: 'status' as const, expected: [200] }]
+    };
+
+    it('should create and fetch a monitor', async () => {
+      const created = await databaseService.createMonitor(monitorInput);
+      expect(created.id).toBeGreaterThan(0);
+      expect(created.headers).toEqual({ Accept: 'application/json' });
+      expect(created.enabled).toBe(true);
+      expect(created.assertions).toEqual([{ type: 'status', expected: [200] }]);
+
+      const fetched = await databaseService.getMonitor(created.id);
+      expect(fetched).toEqual(created);
+    });
+
+    it('should update and delete a monitor', async () => {
+      const created = await databaseService.createMonitor(monitorInput);
+
+      const updated = await databaseService.updateMonitor(created.id, { enabled: false, interval: 120000 });
+      expect(updated?.enabled).toBe(false);
+      expect(updated?.interval).toBe(120000);
+      expect(updated?.name).toBe('Example API');
+
+      expect(await databaseService.deleteMonitor(created.id)).toBe(true);
+      expect(await databaseService.getMonitor(created.id)).toBeNull();
+      expect(await databaseService.updateMonitor(created.id, { enabled: true })).toBeNull();
+    });
+
+    it('should filter records and statistics by monitor', async () => {
+      const monitor = await databaseService.createMonitor(monitorInput);
+      const base = {
+        timestamp: new Date().toISOString(),
+        requestPayload: '',
+        responseData: JSON.stringify({ status: 'ok' }),
+        contentType: 'application/json',
+        contentLength: 20
+      };
+
+      await databaseService.insertPingRecord({ ...base, statusCode: 200, responseTime: 100, monitorId: monitor.id });
+      await databaseService.insertPingRecord({
+        ...base,
+        statusCode: 200,
+        responseTime: 150,
+        monitorId: monitor.id,
+        assertionStatus: 'failed',
+        assertionResults: JSON.stringify([{ type: 'status', passed: false, message: 'Wrong status' }])
+      });
+      await databaseService.insertPingRecord({ ...base, statusCode: 500, responseTime: 300 });
+
+      const result = await databaseService.getPingRecords(10, 0, { monitorId: monitor.id });
+      expect(result.total).toBe(2);
+      expect(result.records.every(record => record.monitorId === monitor.id)).toBe(true);
+
+      // The assertion failure counts against the success rate even though it was a 200
+      const stats = await databaseService.getStatistics(24, monitor.id);
+      expect(stats.totalRequests).toBe(2);
+      expect(stats.successRate).toBe(50);
+
+      const recent = await databaseService.getRecentRecords(60, monitor.id);
+      expect(recent).toHaveLength(2);
+      expect(recent.some(record => record.assertionStatus === 'failed')).toBe(true);
+
+      // Deleting the monitor takes its history along instead of handing it to the default target
+      await databaseService.deleteMonitor(monitor.id);
+      const remaining = await databaseService.getPingRecords(10, 0);
+      expect(remaining.total).toBe(1);
+      expect(remaining.records[0].statusCode).toBe(500);
+    });
+
+    it('should keep a monitor and its history when deleting it fails partway', async () => {
+      const monitor = await databaseService.createMonitor(monitorInput);
+      await databaseService.insertPingRecord({
+        timestamp: new Date().toISOString(),
+        requestPayload: '',
+        responseData: '{}',
+        statusCode: 200,
+        responseTime: 100,
+        monitorId: monitor.id
+      });
+
+      const run = SqlStorageAdapter.prototype.run;
+      const failing = jest.spyOn(SqlStorageAdapter.prototype, 'run').mockImplementation(function (this: SqlStorageAdapter, sql, params) {
+        return sql.startsWith('DELETE FROM slos') ? Promise.reject(new Error('disk I/O error')) : run.call(this, sql, params);
+      });
+      try {
+        await expect(databaseService.deleteMonitor(monitor.id)).rejects.toThrow('disk I/O error');
+      } finally {
+        failing.mockRestore();
+      }
+
+      expect(await databaseService.getMonitor(monitor.id)).not.toBeNull();
+      expect((await databaseService.getPingRecords(10, 0, { monitorId: monitor.id })).total).toBe(1);
+      expect(await databaseService.deleteMonitor(monitor.id)).toBe(true);
+    });
+  });
+
+  describe('anomalies', () => {
+    const anomaly = {
+      timestamp: new Date().toISOString(),
+      type: 'response_time' as const,
+      severity: 'high' as const,
+      value: 9000,
+      threshold: 5000,
+      message: 'Response time 9000ms is 4.00 standard deviations above mean (400ms)'
+    };
+
+    it('should store and page through anomalies', async () => {
+      await databaseService.insertAnomaly(anomaly);
+      await databaseService.insertAnomaly({ ...anomaly, type: 'error_rate', severity: 'medium', value: 40, threshold: 30 });
+
+      const page = await databaseService.getAnomalies(1, 0);
+      expect(page.total).toBe(2);
+      expect(page.anomalies).toHaveLength(1);
+      expect(page.anomalies[0]).toHaveProperty('timestamp');
+      expect(page.anomalies[0].acknowledgedAt).toBeNull();
+
+      const highOnly = await databaseService.getAnomalies(10, 0, { severity: 'high' });
+      expect(highOnly.total).toBe(1);
+      expect(highOnly.anomalies[0].value).toBe(9000);
+    });
+
+    it('should acknowledge an anomaly once', async () => {
+      const id = await databaseService.insertAnomaly(anomaly);
+
+      expect(await databaseService.acknowledgeAnomaly(id)).toBe(true);
+      expect(await databaseService.acknowledgeAnomaly(id)).toBe(false);
+
+      const unacknowledged = await databaseService.getAnomalies(10, 0, { acknowledged: false });
+      expect(unacknowledged.total).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,135 @@
+import request from 'supertest';
+import express from 'express';
+import { Server } from 'socket.io';
+import { DatabaseService } from '../../services/database';
+import { PingService, SchedulerStatus } from '../../services/ping';
+import { AnomalyDetectionService } from '../../services/anomalyDetection';
+import { HealthService } from '../../services/health';
+import { healthRoutes } from '../../routes/health';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+// Close to the real clock, since the routes check against it
+const NOW = Date.now();
+const minutesAgo = (minutes: number): string => new Date(NOW - minutes * 60000).toISOString();
+
+const pingStatus = (status: Partial<SchedulerStatus>): SchedulerStatus => ({
+  running: true,
+  paused: false,
+  pausedAt: null,
+  pausedBy: null,
+  interval: 5 * 60000,
+  startedAt: minutesAgo(60),
+  lastPingAt: null,
+  nextRunAt: null,
+  monitors: [],
+  inFlight: [],
+  ...status
+});
+
+describe('HealthService', () => {
+  let databaseService: DatabaseService;
+  let pingService: PingService;
+  let anomalyService: AnomalyDetectionService;
+  let healthService: HealthService;
+  let app: express.Application;
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+
+    const io = { emit: jest.fn(), engine: { clientsCount: 2 } } as unknown as Server;
+    pingService = new PingService(databaseService, io);
+    anomalyService = new AnomalyDetectionService(databaseService, io);
+    healthService = new HealthService(databaseService, pingService, anomalyService, io);
+
+    // Both loops running, each within its interval
+    jest.spyOn(pingService, 'status').mockReturnValue(pingStatus({ lastPingAt: minutesAgo(4) }));
+    jest.spyOn(anomalyService, 'status').mockReturnValue({
+      running: true, interval: 10 * 60000, startedAt: minutesAgo(60), lastAnalysisAt: minutesAgo(12)
+    });
+
+    app = express();
+    app.use('/health', healthRoutes(healthService));
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should report ready when every check passes', async () => {
+    const report = await healthService.readiness(NOW);
+
+    expect(report).toMatchObject({
+      status: 'ready',
+      timestamp: new Date(NOW).toISOString(),
+      checks: {
+        database: { status: 'ok', latencyMs: expect.any(Number) },
+        pingScheduler: { status: 'ok', running: true, interval: 300000, lastRunAt: minutesAgo(4) },
+        anomalyDetection: { status: 'ok', running: true, lastRunAt: minutesAgo(12) },
+        socketio: { status: 'ok', clients: 2 }
+      }
+    });
+    expect(report.checks.database.error).toBeUndefined();
+  });
+
+  it('should flag stopped and stale loops, counting from startup before the first run', async () => {
+    jest.spyOn(pingService, 'status').mockReturnValue(pingStatus({ lastPingAt: minutesAgo(11) }));
+    jest.spyOn(anomalyService, 'status').mockReturnValue({
+      running: false, interval: 10 * 60000, startedAt: null, lastAnalysisAt: minutesAgo(1)
+    });
+
+    const report = await healthService.readiness(NOW);
+    expect(report.status).toBe('degraded');
+    expect(report.checks.pingScheduler).toMatchObject({
+      status: 'failed',
+      error: `Ping scheduler last ran at ${minutesAgo(11)}`
+    });
+    expect(report.checks.anomalyDetection).toMatchObject({ status: 'failed', error: 'Anomaly detection is not running' });
+    expect(report.checks.database.status).toBe('ok');
+
+    // Just started, no ping finished yet
+    jest.spyOn(pingService, 'status').mockReturnValue(pingStatus({ startedAt: minutesAgo(1) }));
+    expect((await healthService.readiness(NOW)).checks.pingScheduler).toMatchObject({ status: 'ok', lastRunAt: null });
+
+    jest.spyOn(pingService, 'status').mockReturnValue(pingStatus({ startedAt: minutesAgo(11) }));
+    expect((await healthService.readiness(NOW)).checks.pingScheduler).toMatchObject({
+      status: 'failed',
+      error: `Ping scheduler has not run since ${minutesAgo(11)}`
+    });
+
+    // Paused on purpose
+    jest.spyOn(pingService, 'status').mockReturnValue(pingStatus({ running: false, paused: true, lastPingAt: minutesAgo(60) }));
+    expect((await healthService.readiness(NOW)).checks.pingScheduler).toMatchObject({ status: 'ok', paused: true });
+  });
+
+  it('should answer 503 with the breakdown once the database is closed', async () => {
+    const live = await request(app).get('/health/live').expect(200);
+    expect(live.body).toMatchObject({ status: 'healthy', uptime: expect.any(Number) });
+    await request(app).get('/health').expect(200);
+
+    const ready = await request(app).get('/health/ready').expect(200);
+    expect(ready.body.status).toBe('ready');
+
+    await databaseService.close();
+
+    const degraded = await request(app).get('/health/ready').expect(503);
+    expect(degraded.body).toMatchObject({
+      status: 'degraded',
+      checks: {
+        database: { status: 'failed', error: expect.any(String) },
+        pingScheduler: { status: 'ok' },
+        socketio: { status: 'ok' }
+      }
+    });
+    // Liveness does not depend on the database
+    await request(app).get('/health/live').expect(200);
+  });
+});
@@ -0,0 +1,146 @@
+import { DatabaseService } from '../../services/database';
+import { ImportError, ImportService } from '../../services/import';
+import { RetentionService } from '../../services/retention';
+import { toCsv } from '../../utils/csv';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('ImportService', () => {
+  let databaseService: DatabaseService;
+  let retentionService: RetentionService;
+  let importService: ImportService;
+  let monitorId: number;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  // Three complete hours ago, so retention rolls it up
+  const hourStart = Math.floor(Date.now() / HOUR_MS) * HOUR_MS - 3 * HOUR_MS;
+  const at = (minute: number): string => new Date(hourStart + minute * 60 * 1000).toISOString();
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+    retentionService = new RetentionService(databaseService);
+    // Two rows per transaction, so the tests span batches
+    importService = new ImportService(databaseService, retentionService, 2);
+
+    const monitor = await databaseService.createMonitor({
+      name: 'Target',
+      url: 'https://example.com',
+      method: 'GET',
+      headers: {},
+      bodyTemplate: null,
+      interval: 60000,
+      timeout: 5000,
+      enabled: true,
+      assertions: []
+    });
+    monitorId = monitor.id;
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should import NDJSON, skip duplicates and report rejected lines', async () => {
+    const lines = [
+      { id: 90, timestamp: at(1), statusCode: 200, responseTime: 120, monitorId },
+      { timestamp: at(2), statusCode: 500, responseTime: 900, dnsTime: 4 },
+      'not json',
+      { timestamp: at(3), responseTime: -1 },
+      { timestamp: at(1), statusCode: 200, responseTime: 120, monitorId },
+      { timestamp: at(4), statusCode: 200, responseTime: 80, monitorId: 999 },
+      { timestamp: '2000-01-01T00:00:00.000Z', statusCode: 200, responseTime: 80 },
+      // Same time as the first line, but without a monitor
+      { timestamp: at(1), statusCode: 204, responseTime: 60 }
+    ];
+    const text = lines.map(line => typeof line === 'string' ? line : JSON.stringify(line)).join('\n') + '\n';
+
+    const result = await importService.importRecords(text, { format: 'ndjson' });
+
+    expect(result).toMatchObject({ rows: 8, imported: 3, duplicates: 1, failed: 4, from: at(1), to: at(2) });
+    expect(result.errors.map(error => error.line)).toEqual([3, 4, 6, 7]);
+    expect(result.errors[0].message).toBe('Not valid JSON');
+    expect(result.errors[1].message).toMatch(/"statusCode" is required; "responseTime" must be greater than or equal to 0/);
+    expect(result.errors[2].message).toBe('Monitor 999 does not exist');
+    expect(result.errors[3].message).toMatch(/^Older than the raw data retention allows/);
+
+    const { records } = await databaseService.getPingRecords(10, 0);
+    expect(records).toHaveLength(3);
+    expect(records.find(record => record.statusCode === 500)).toMatchObject({
+      requestType: 'auto',
+      requestPayload: '',
+      dnsTime: 4,
+      monitorId: null
+    });
+
+    // Importing the same file again only finds duplicates
+    const again = await importService.importRecords(text, { format: 'ndjson' });
+    expect(again).toMatchObject({ imported: 0, duplicates: 4, failed: 4 });
+  });
+
+  it('should read back a CSV export, optionally under another monitor', async () => {
+    const csv = toCsv(['id', 'timestamp', 'monitorId', 'statusCode', 'responseTime', 'contentType', 'responseData'], [
+      { id: 1, timestamp: at(10), monitorId: null, statusCode: 200, responseTime: 100, contentType: 'application/json', responseData: '{"a":\n"b, c"}' },
+      { id: 2, timestamp: at(11), monitorId: null, statusCode: 404, responseTime: 50, contentType: null, responseData: '' }
+    ]);
+
+    const result = await importService.importRecords(csv + 'broken,row\n', { format: 'csv', monitorId });
+
+    expect(result).toMatchObject({ rows: 3, imported: 2, failed: 1 });
+    expect(result.errors).toEqual([{ line: 5, message: 'Expected 7 fields, found 2' }]);
+
+    const { records } = await databaseService.getPingRecords(10, 0, { monitorId });
+    expect(records.map(record => [record.statusCode, record.contentType, record.responseData])).toEqual([
+      [404, null, ''],
+      [200, 'application/json', '{"a":\n"b, c"}']
+    ]);
+
+    await expect(importService.importRecords('timestamp,latency\n', { format: 'csv' }))
+      .rejects.toThrow(new ImportError('Unknown column in the CSV header: latency'));
+    await expect(importService.importRecords(csv, { format: 'csv', monitorId: 999 }))
+      .rejects.toThrow('Monitor 999 does not exist');
+  });
+
+  it('should rebuild rollups that already cover the imported span', async () => {
+    await databaseService.insertPingRecord({
+      timestamp: at(5),
+      requestPayload: '{}',
+      responseData: '{}',
+      statusCode: 200,
+      responseTime: 100
+    });
+    await retentionService.runOnce();
+    const bucket = (): Promise<unknown> => databaseService.getRollups('hourly', at(0), at(60))
+      .then(rollups => rollups.find(rollup => rollup.bucketStart === at(0)));
+    expect(await bucket()).toMatchObject({ count: 1, max: 100 });
+
+    await importService.importRecords(JSON.stringify({ timestamp: at(30), statusCode: 503, responseTime: 700 }), { format: 'ndjson' });
+
+    expect(await bucket()).toMatchObject({ count: 2, errorCount: 1, max: 700 });
+  });
+
+  it('should take turns with retention runs and keep pings stored meanwhile', async () => {
+    const ping = { requestPayload: '{}', responseData: '{}', statusCode: 200, responseTime: 100 };
+    await databaseService.insertPingRecord({ ...ping, timestamp: at(5) });
+    await retentionService.runOnce();
+
+    const lines = [10, 11, 12, 13, 14, 15].map(minute => JSON.stringify({ timestamp: at(minute), statusCode: 200, responseTime: 200 }));
+    const [result] = await Promise.all([
+      importService.importRecords(lines.join('\n'), { format: 'ndjson' }),
+      retentionService.runOnce(),
+      databaseService.insertPingRecord({ ...ping, timestamp: new Date().toISOString() })
+    ]);
+
+    expect(result).toMatchObject({ imported: 6, failed: 0 });
+    expect((await databaseService.getPingRecords(10, 0)).total).toBe(8);
+    const rollups = await databaseService.getRollups('hourly', at(0), at(60));
+    expect(rollups.find(rollup => rollup.bucketStart === at(0))).toMatchObject({ count: 7 });
+  });
+});
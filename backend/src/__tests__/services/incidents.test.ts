@@ -0,0 +1,154 @@
+import { Server } from 'socket.io';
+import { DatabaseService } from '../../services/database';
+import { AnomalyFinding, IncidentService, incidentFingerprint } from '../../services/incidents';
+import { NotificationService } from '../../services/notifications';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('IncidentService', () => {
+  let databaseService: DatabaseService;
+  let incidentService: IncidentService;
+  const mockEmit = jest.fn();
+  const mockIo = { emit: mockEmit } as unknown as Server;
+  const mockNotify = jest.fn().mockResolvedValue([]);
+  const mockNotifications = { notify: mockNotify } as unknown as NotificationService;
+
+  const fingerprint = incidentFingerprint('status_code', 3, 'last-20');
+  const finding = (overrides: Partial<AnomalyFinding> = {}): AnomalyFinding => ({
+    timestamp: new Date().toISOString(),
+    type: 'status_code',
+    severity: 'medium',
+    value: 25,
+    threshold: 20,
+    message: 'High error rate detected: 5/20 requests failed (25.0%)',
+    monitorId: 3,
+    fingerprint,
+    dedupeKey: `${fingerprint}:through:10`,
+    active: true,
+    ...overrides
+  });
+
+  const incidentEvents = (action: string) =>
+    mockEmit.mock.calls.filter(([event, payload]) => event === 'incident' && payload.action === action);
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+    incidentService = new IncidentService(databaseService, mockIo, mockNotifications);
+    mockEmit.mockClear();
+    mockNotify.mockClear();
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should open an incident once and not re-broadcast a rescanned anomaly', async () => {
+    await incidentService.process([finding()]);
+    await incidentService.process([finding()]);
+
+    const { incidents } = await databaseService.getIncidents(10, 0, { status: 'active' });
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].fingerprint).toBe('status_code:3:last-20');
+    expect(incidents[0].anomalyCount).toBe(1);
+
+    expect(incidentEvents('opened')).toHaveLength(1);
+    expect(mockEmit.mock.calls.filter(([event]) => event === 'anomaly')).toHaveLength(1);
+    expect(mockNotify).toHaveBeenCalledTimes(1);
+    expect(mockNotify).toHaveBeenCalledWith(expect.objectContaining({
+      id: expect.any(Number),
+      incidentId: incidents[0].id,
+      severity: 'medium'
+    }));
+  });
+
+  it('should update the open incident while the condition lasts', async () => {
+    await incidentService.process([finding()]);
+    await incidentService.process([finding({ dedupeKey: `${fingerprint}:through:11`, severity: 'high', value: 60 })]);
+
+    const { incidents } = await databaseService.getIncidents(10, 0, { status: 'active' });
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].anomalyCount).toBe(2);
+    expect(incidents[0].severity).toBe('high');
+    expect(incidents[0].lastValue).toBe(60);
+    expect(incidentEvents('updated')).toHaveLength(1);
+    // The escalation is news
+    expect(mockNotify).toHaveBeenCalledTimes(2);
+    expect(mockNotify).toHaveBeenLastCalledWith(expect.objectContaining({ severity: 'high', incidentId: incidents[0].id }));
+  });
+
+  it('should attach repeats of an open incident without broadcasting or notifying them', async () => {
+    await incidentService.process([finding()]);
+    await incidentService.process([finding({ dedupeKey: `${fingerprint}:through:11`, value: 30 })]);
+    await incidentService.process([finding({ dedupeKey: `${fingerprint}:through:12`, severity: 'low', value: 22 })]);
+
+    const { incidents } = await databaseService.getIncidents(10, 0, { status: 'active' });
+    expect(incidents[0].anomalyCount).toBe(3);
+    expect(incidents[0].severity).toBe('medium');
+    expect(incidents[0].lastValue).toBe(22);
+    expect((await databaseService.getAnomalies()).anomalies.every(a => a.incidentId === incidents[0].id)).toBe(true);
+
+    expect(incidentEvents('updated')).toHaveLength(2);
+    expect(mockEmit.mock.calls.filter(([event]) => event === 'anomaly')).toHaveLength(1);
+    expect(mockNotify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve the incident when the condition clears', async () => {
+    await incidentService.process([finding()]);
+    await incidentService.process([]);
+
+    const { incidents } = await databaseService.getIncidents(10, 0, { status: 'resolved' });
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].resolvedAt).not.toBeNull();
+    expect(incidentEvents('resolved')).toHaveLength(1);
+    expect(mockNotify).toHaveBeenCalledTimes(2);
+    expect(mockNotify).toHaveBeenLastCalledWith(expect.objectContaining({
+      incidentId: incidents[0].id,
+      resolvedAt: incidents[0].resolvedAt,
+      message: `Resolved: ${incidents[0].message}`
+    }));
+  });
+
+  it('should resolve acknowledged incidents too', async () => {
+    await incidentService.process([finding()]);
+    const [open] = (await databaseService.getIncidents(10, 0, { status: 'open' })).incidents;
+
+    const acknowledged = await databaseService.acknowledgeIncident(open.id);
+    expect(acknowledged?.status).toBe('acknowledged');
+    expect(await databaseService.acknowledgeIncident(open.id)).toBeNull();
+
+    await incidentService.process([]);
+    expect((await databaseService.getIncident(open.id))?.status).toBe('resolved');
+  });
+
+  it('should store past anomalies without opening an incident', async () => {
+    await incidentService.process([finding({ active: false })]);
+
+    const { incidents } = await databaseService.getIncidents();
+    expect(incidents).toHaveLength(0);
+
+    const { anomalies } = await databaseService.getAnomalies();
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].incidentId).toBeNull();
+    expect(anomalies[0].monitorId).toBe(3);
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it('should not notify past anomalies attached to an open incident', async () => {
+    await incidentService.process([finding()]);
+    await incidentService.process([
+      finding(),
+      finding({ dedupeKey: `${fingerprint}:through:9`, severity: 'high', active: false })
+    ]);
+
+    expect((await databaseService.getAnomalies()).total).toBe(2);
+    expect(mockNotify).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,231 @@
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { DatabaseService, NotificationChannel } from '../../services/database';
+import { NotificationService, NotifiableAnomaly, SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhookPayload } from '../../services/notifications';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Answers with the queued status codes in order, then 200
+const startHttpServer = async (statuses: number[] = []) => {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, requests, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook` };
+};
+
+// Just enough SMTP for nodemailer: accepts every message, or rejects recipients with the given reply
+const startSmtpServer = async (rcptReply = '250 OK') => {
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let message: string | null = null;
+    socket.write('220 localhost ESMTP test\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (message !== null) {
+          if (line === '.') {
+            messages.push(message);
+            message = null;
+            socket.write('250 OK queued\r\n');
+          } else {
+            message += `${line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 localhost\r\n');
+        } else if (command === 'RCPT') {
+          socket.write(`${rcptReply}\r\n`);
+        } else if (command === 'DATA') {
+          message = '';
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, messages, port: (server.address() as AddressInfo).port };
+};
+
+const close = (server: net.Server): Promise<void> => new Promise(resolve => server.close(() => resolve()));
+
+describe('NotificationService', () => {
+  let databaseService: DatabaseService;
+  let notificationService: NotificationService;
+  const servers: net.Server[] = [];
+
+  const anomaly: NotifiableAnomaly = {
+    timestamp: '2024-03-15T03:00:00.000Z',
+    type: 'response_time',
+    severity: 'high',
+    value: 8000,
+    threshold: 1200,
+    message: 'Response time 8000ms is 4.10 standard deviations above mean (400ms)',
+    phase: 'tcp'
+  };
+
+  const createChannel = (overrides: Partial<NotificationChannel>): Promise<NotificationChannel> =>
+    databaseService.createNotificationChannel({
+      name: 'Channel',
+      type: 'webhook',
+      config: { url: 'http://127.0.0.1:1/unused' },
+      minSeverity: 'low',
+      enabled: true,
+      ...overrides
+    });
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+    notificationService = new NotificationService(databaseService, { retryDelays: [10, 20], timeout: 2000 });
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(close));
+    await databaseService.close();
+  });
+
+  it('should sign generic webhooks with the channel secret', async () => {
+    const receiver = await startHttpServer();
+    servers.push(receiver.server);
+    const secret = 'a-long-shared-secret';
+    await createChannel({ config: { url: receiver.url, secret } });
+
+    const [delivery] = await notificationService.notify(anomaly);
+
+    expect(delivery).toEqual(expect.objectContaining({ status: 'delivered', attempts: 1, responseStatus: 200 }));
+    const [request] = receiver.requests;
+    const timestamp = request.headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+    expect(request.headers[SIGNATURE_HEADER.toLowerCase()]).toBe(signWebhookPayload(secret, timestamp, request.body));
+    expect(JSON.parse(request.body)).toEqual(expect.objectContaining({
+      event: 'anomaly',
+      anomaly: expect.objectContaining({ severity: 'high', phase: 'tcp' })
+    }));
+
+    await notificationService.notify({ ...anomaly, resolvedAt: new Date().toISOString() });
+    expect(JSON.parse(receiver.requests[1].body).event).toBe('resolved');
+  });
+
+  it('should send Slack and Teams shaped payloads', async () => {
+    const receiver = await startHttpServer();
+    servers.push(receiver.server);
+    await createChannel({ type: 'slack', config: { url: receiver.url } });
+    await createChannel({ type: 'teams', config: { url: receiver.url } });
+
+    await notificationService.notify(anomaly);
+
+    const bodies = receiver.requests.map(request => JSON.parse(request.body));
+    expect(bodies).toEqual(expect.arrayContaining([
+      expect.objectContaining({ text: expect.stringContaining('[HIGH] response time anomaly'), attachments: expect.any(Array) }),
+      expect.objectContaining({ '@type': 'MessageCard', text: anomaly.message })
+    ]));
+
+    await notificationService.notify({ ...anomaly, resolvedAt: new Date().toISOString() });
+    const resolved = receiver.requests.slice(2).map(request => JSON.parse(request.body));
+    expect(resolved).toEqual(expect.arrayContaining([
+      expect.objectContaining({ text: expect.stringContaining('[RESOLVED] response time anomaly') }),
+      expect.objectContaining({ title: expect.stringContaining('[RESOLVED] response time anomaly') })
+    ]));
+  });
+
+  it('should only notify channels whose severity filter the anomaly passes', async () => {
+    const receiver = await startHttpServer();
+    servers.push(receiver.server);
+    await createChannel({ config: { url: receiver.url }, minSeverity: 'high' });
+    await createChannel({ config: { url: receiver.url }, enabled: false });
+
+    expect(await notificationService.notify({ ...anomaly, severity: 'medium' })).toHaveLength(0);
+    expect(await notificationService.notify(anomaly)).toHaveLength(1);
+    expect(receiver.requests).toHaveLength(1);
+  });
+
+  it('should retry server errors with backoff and log every outcome', async () => {
+    const receiver = await startHttpServer([503, 500]);
+    servers.push(receiver.server);
+    const channel = await createChannel({ config: { url: receiver.url } });
+
+    const [delivery] = await notificationService.notify(anomaly);
+
+    expect(delivery).toEqual(expect.objectContaining({ status: 'delivered', attempts: 3 }));
+    expect(receiver.requests).toHaveLength(3);
+
+    const { deliveries } = await databaseService.getNotificationDeliveries(10, 0, { channelId: channel.id });
+    expect(deliveries).toEqual([expect.objectContaining({ status: 'delivered', attempts: 3, error: null })]);
+  });
+
+  it('should give up after the last retry, and not retry client errors', async () => {
+    const failing = await startHttpServer([500, 500, 500]);
+    const rejecting = await startHttpServer([400]);
+    servers.push(failing.server, rejecting.server);
+    await createChannel({ config: { url: failing.url } });
+    await createChannel({ config: { url: rejecting.url } });
+
+    const deliveries = await notificationService.notify(anomaly);
+
+    expect(deliveries).toEqual([
+      expect.objectContaining({ status: 'failed', attempts: 3, responseStatus: 500, error: 'HTTP 500' }),
+      expect.objectContaining({ status: 'failed', attempts: 1, responseStatus: 400 })
+    ]);
+  });
+
+  it('should email the recipients over SMTP', async () => {
+    const smtp = await startSmtpServer();
+    servers.push(smtp.server);
+    await createChannel({
+      type: 'email',
+      config: { host: '127.0.0.1', port: smtp.port, secure: false, from: 'monitor@example.com', to: ['oncall@example.com'] }
+    });
+
+    const [delivery] = await notificationService.notify(anomaly);
+
+    expect(delivery.status).toBe('delivered');
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]).toContain('Subject: [HIGH] response time anomaly');
+    expect(smtp.messages[0]).toContain('To: oncall@example.com');
+  });
+
+  it('should not retry permanent SMTP rejections', async () => {
+    const smtp = await startSmtpServer('550 No such user');
+    servers.push(smtp.server);
+    await createChannel({
+      type: 'email',
+      config: { host: '127.0.0.1', port: smtp.port, secure: false, from: 'monitor@example.com', to: ['nobody@example.com'] }
+    });
+
+    const [delivery] = await notificationService.notify(anomaly);
+
+    expect(delivery).toEqual(expect.objectContaining({ status: 'failed', attempts: 1, responseStatus: 550 }));
+  });
+});
@@ -1,7 +1,10 @@
 import { PingService } from '../../services/ping';
 import { DatabaseService } from '../../services/database';
+import { AnomalyDetectionService } from '../../services/anomalyDetection';
 import { Server } from 'socket.io';
 import axios, { AxiosError } from 'axios';
+import { metricsRegistry } from '../../utils/metrics';
+import { initTracing } from '../../utils/tracing';
 
 // Mock dependencies - create mock function inside factory to avoid hoisting issues
 jest.mock('axios', () => {
@@ -233,6 +236,171 @@ describe('PingService', () => {
       
       clearIntervalSpy.mockRestore();
     });
+
+    it('should restart the schedule when the interval setting changes', () => {
+      const setIntervalSpy = jest.spyOn(global, 'setInterval');
+      const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
+
+      pingService.applySettings({ pingInterval: 5 * 60 * 1000, httpbinUrl: 'https://httpbin.org/anything' });
+      pingService.start();
+      pingService.applySettings({ pingInterval: 5 * 60 * 1000, httpbinUrl: 'https://httpbin.org/post' });
+      expect(clearIntervalSpy).not.toHaveBeenCalled();
+
+      pingService.applySettings({ pingInterval: 60000, httpbinUrl: 'https://httpbin.org/post' });
+      expect(clearIntervalSpy).toHaveBeenCalledTimes(1);
+      expect(setIntervalSpy).toHaveBeenLastCalledWith(expect.any(Function), 60000);
+      expect(pingService.status().interval).toBe(60000);
+
+      setIntervalSpy.mockRestore();
+      clearIntervalSpy.mockRestore();
+    });
+
+    it('should stop scheduled pings while paused and restart them on resume', async () => {
+      mockAxiosPost.mockResolvedValue({ status: 200, headers: {}, data: {} });
+      const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
+
+      pingService.start();
+      await Promise.resolve();
+      expect(pingService.status()).toMatchObject({ running: true, paused: false, nextRunAt: expect.any(String) });
+      const callsBeforePause = mockAxiosPost.mock.calls.length;
+
+      pingService.pause('admin');
+      expect(clearIntervalSpy).toHaveBeenCalled();
+      expect(pingService.status()).toMatchObject({
+        running: false,
+        paused: true,
+        pausedAt: expect.any(String),
+        pausedBy: 'admin',
+        nextRunAt: null,
+        monitors: []
+      });
+
+      // Manual pings still run
+      await pingService.pingOnce();
+      expect(mockAxiosPost.mock.calls.length).toBe(callsBeforePause + 1);
+
+      pingService.resume();
+      expect(pingService.status()).toMatchObject({ running: true, paused: false, pausedAt: null, pausedBy: null });
+      expect(mockAxiosPost.mock.calls.length).toBe(callsBeforePause + 2);
+
+      clearIntervalSpy.mockRestore();
+    });
+
+    it('should stay paused when started after a restored pause', () => {
+      const setIntervalSpy = jest.spyOn(global, 'setInterval');
+
+      pingService.pause(null, '2024-01-01T00:00:00.000Z');
+      pingService.start();
+
+      expect(setIntervalSpy).not.toHaveBeenCalled();
+      expect(mockAxiosPost).not.toHaveBeenCalled();
+      expect(pingService.status()).toMatchObject({ paused: true, pausedAt: '2024-01-01T00:00:00.000Z' });
+
+      setIntervalSpy.mockRestore();
+    });
+
+    it('should report when the scheduler last pinged, ignoring manual pings', async () => {
+      mockAxiosPost.mockResolvedValue({ status: 200, headers: {}, data: {} });
+      expect(pingService.status()).toMatchObject({ running: false, interval: 300000, startedAt: null, lastPingAt: null });
+
+      await pingService.pingOnce();
+      expect(pingService.status().lastPingAt).toBeNull();
+
+      await (pingService as any).performPing();
+      pingService.start();
+      expect(pingService.status()).toMatchObject({
+        running: true,
+        startedAt: expect.any(String),
+        lastPingAt: expect.any(String)
+      });
+
+      pingService.stop();
+      expect(pingService.status()).toMatchObject({ running: false, startedAt: null });
+    });
+  });
+
+  describe('assertions', () => {
+    const monitor = {
+      id: 7,
+      name: 'Payload check',
+      url: 'https://example.com/api',
+      method: 'POST' as const,
+      headers: {},
+      bodyTemplate: '{"requestId": "{{requestId}}"}',
+      interval: 60000,
+      timeout: 5000,
+      enabled: true,
+      assertions: [
+        { type: 'status' as const, expected: [200] },
+        { type: 'json_path' as const, path: '$.status', equals: 'healthy' }
+      ],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    it('should store failed assertions for a 200 with the wrong payload', async () => {
+      mockAxiosPost.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        data: { status: 'degraded' }
+      });
+
+      await pingService.pingOnce(monitor);
+
+      expect(mockAxiosPost).toHaveBeenCalledWith(
+        'https://example.com/api',
+        expect.stringMatching(/^\{"requestId": "\w+"\}$/),
+        expect.objectContaining({ timeout: 5000 })
+      );
+
+      const stored = mockDatabaseService.insertPingRecord.mock.calls[0][0];
+      expect(stored).toEqual(expect.objectContaining({
+        statusCode: 200,
+        monitorId: 7,
+        assertionStatus: 'failed'
+      }));
+      expect(JSON.parse(stored.assertionResults!).map((r: any) => r.passed)).toEqual([true, false]);
+
+      // A 200 that fails its assertions is not a successful probe
+      const metrics = await metricsRegistry.metrics();
+      expect(metrics).toContain('httpbin_monitor_probe_last_status_code{monitor_id="7",monitor="Payload check"} 200');
+      expect(metrics).toContain('httpbin_monitor_probe_success{monitor_id="7",monitor="Payload check"} 0');
+      expect(metrics).toContain('httpbin_monitor_probe_response_time_seconds_count{monitor_id="7",monitor="Payload check"} 1');
+    });
+
+    it('should evaluate assertions against HTTP error responses', async () => {
+      const httpError = new AxiosError('Request failed');
+      httpError.response = {
+        status: 503,
+        statusText: 'Service Unavailable',
+        data: { status: 'down' },
+        headers: {},
+        config: {} as any
+      };
+      mockAxiosPost.mockRejectedValueOnce(httpError);
+
+      await pingService.pingOnce(monitor);
+
+      expect(mockDatabaseService.insertPingRecord).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: 503,
+          assertionStatus: 'failed'
+        })
+      );
+    });
+
+    it('should not record assertion results for the default target', async () => {
+      mockAxiosPost.mockResolvedValueOnce({ status: 200, headers: {}, data: {} });
+
+      await pingService.pingOnce();
+
+      expect(mockDatabaseService.insertPingRecord).toHaveBeenCalledWith(
+        expect.objectContaining({
+          assertionStatus: null,
+          assertionResults: null
+        })
+      );
+    });
   });
 
   describe('pingOnce', () => {
@@ -250,5 +418,36 @@ describe('PingService', () => {
       expect(mockAxiosPost).toHaveBeenCalledTimes(1);
       expect(mockDatabaseService.insertPingRecord).toHaveBeenCalledTimes(1);
     });
+
+    it('should hand each stored record to anomaly detection', async () => {
+      const mockObserve = jest.fn().mockResolvedValue(undefined);
+      pingService = new PingService(mockDatabaseService, mockIo, { observe: mockObserve } as unknown as AnomalyDetectionService);
+      mockAxiosPost
+        .mockResolvedValueOnce({ status: 200, headers: {}, data: {} })
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      await pingService.pingOnce();
+      await pingService.pingOnce();
+
+      expect(mockObserve).toHaveBeenCalledTimes(2);
+      expect(mockObserve).toHaveBeenNthCalledWith(1, expect.objectContaining({ id: 1, statusCode: 200 }));
+      expect(mockObserve).toHaveBeenNthCalledWith(2, expect.objectContaining({ id: 1, statusCode: 0 }));
+    });
+  });
+
+  // Last, since the tracer provider stays registered for the rest of the file
+  describe('tracing', () => {
+    it('should send traceparent and store the trace id on the record', async () => {
+      const provider = initTracing({ OTEL_TRACES_EXPORTER: 'none' });
+      mockAxiosPost.mockResolvedValueOnce({ status: 200, headers: {}, data: {} });
+
+      await pingService.pingOnce();
+
+      const { traceId } = mockDatabaseService.insertPingRecord.mock.calls[0][0];
+      expect(traceId).toMatch(/^[0-9a-f]{32}$/);
+      const headers = mockAxiosPost.mock.calls[0][2].headers;
+      expect(headers).toMatchObject({ 'User-Agent': 'httpbin-monitor/1.0.0', traceparent: expect.stringContaining(`00-${traceId}-`) });
+      await provider.shutdown();
+    });
   });
 });
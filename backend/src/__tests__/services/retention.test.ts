@@ -0,0 +1,135 @@
+import { DatabaseService } from '../../services/database';
+import { RetentionService } from '../../services/retention';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('RetentionService', () => {
+  let databaseService: DatabaseService;
+  let retentionService: RetentionService;
+
+  const now = new Date('2024-03-15T12:30:00.000Z');
+
+  const insert = (timestamp: string, responseTime: number, statusCode = 200, monitorId: number | null = null) =>
+    databaseService.insertPingRecord({
+      timestamp,
+      requestPayload: '{}',
+      responseData: '{}',
+      statusCode,
+      responseTime,
+      monitorId
+    });
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+    retentionService = new RetentionService(databaseService);
+
+    await databaseService.updateRetentionSettings({ rawRetentionDays: 30, hourlyRetentionDays: 60 });
+
+    // Past the raw retention
+    await insert('2024-02-01T10:05:00.000Z', 100);
+    await insert('2024-02-01T10:35:00.000Z', 300, 500);
+    await insert('2024-02-01T11:10:00.000Z', 200);
+    // Past the hourly rollup retention
+    await insert('2024-01-01T08:00:00.000Z', 400);
+    // Recent
+    await insert('2024-03-15T11:00:00.000Z', 150);
+    // Current hour, not complete yet
+    await insert('2024-03-15T12:10:00.000Z', 250);
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should roll up complete buckets before deleting raw rows', async () => {
+    const result = await retentionService.runOnce(now);
+
+    expect(result.rawPrunedBefore).toBe('2024-02-14T00:00:00.000Z');
+    expect(result.deletedRecords).toBe(4);
+
+    const { total } = await databaseService.getPingRecords(10, 0);
+    expect(total).toBe(2);
+
+    const daily = await databaseService.getRollups('daily', '2024-02-01T00:00:00.000Z', '2024-02-02T00:00:00.000Z');
+    expect(daily).toEqual([expect.objectContaining({
+      bucketStart: '2024-02-01T00:00:00.000Z',
+      count: 3,
+      errorCount: 1,
+      min: 100,
+      max: 300,
+      sum: 600,
+      p50: 200,
+      statusCodes: { 200: 2, 500: 1 }
+    })]);
+
+    // Hourly rollups older than their own retention are dropped, daily ones are kept
+    expect(await databaseService.getRollups('hourly', '2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z')).toEqual([]);
+    expect(await databaseService.getRollups('daily', '2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z')).toHaveLength(1);
+
+    // The incomplete current hour is left for the next run
+    expect(await databaseService.getRollupWatermark('hourly')).toBe('2024-03-15T12:00:00.000Z');
+  });
+
+  it('should answer old windows from rollups and recent ones from raw rows', async () => {
+    await retentionService.runOnce(now);
+
+    const hourly = await databaseService.getSeries('1h', '2024-02-01T00:00:00.000Z', '2024-03-16T00:00:00.000Z');
+    expect(hourly.map(point => [point.bucketStart, point.count])).toEqual([
+      ['2024-02-01T10:00:00.000Z', 2],
+      ['2024-02-01T11:00:00.000Z', 1],
+      ['2024-03-15T11:00:00.000Z', 1],
+      ['2024-03-15T12:00:00.000Z', 1]
+    ]);
+
+    const daily = await databaseService.getSeries('1d', '2023-12-01T00:00:00.000Z', '2024-03-16T00:00:00.000Z');
+    expect(daily.map(point => point.count)).toEqual([1, 3, 2]);
+  });
+
+  it('should not roll up a bucket twice when run again', async () => {
+    await retentionService.runOnce(now);
+    const second = await retentionService.runOnce(new Date('2024-03-15T12:45:00.000Z'));
+
+    expect(second.hourlyRollups).toBe(0);
+    expect(second.dailyRollups).toBe(0);
+    expect(await databaseService.getRollups('daily', '2024-02-01T00:00:00.000Z', '2024-02-02T00:00:00.000Z')).toHaveLength(1);
+  });
+
+  it('should default to the retention in the environment at the time it is read', async () => {
+    const fresh = new DatabaseService();
+    await fresh.initialize();
+    process.env.RAW_RETENTION_DAYS = '7';
+    process.env.HOURLY_RETENTION_DAYS = '-1';
+    try {
+      expect(await fresh.getRetentionSettings()).toMatchObject({ rawRetentionDays: 7, hourlyRetentionDays: 365 });
+    } finally {
+      delete process.env.RAW_RETENTION_DAYS;
+      delete process.env.HOURLY_RETENTION_DAYS;
+      await fresh.close();
+    }
+  });
+
+  it('should keep pings stored during a rollup that fails', async () => {
+    // The unparseable timestamp makes the rollup throw halfway through its transaction
+    await insert('not-a-date', 100);
+    const failed = databaseService.rollupPingRecords('hourly', '2024-01-01T00:00:00.000Z', 'z');
+    const stored = insert('2024-03-15T12:20:00.000Z', 120);
+    const hourly = databaseService.rollupPingRecords('hourly', '2024-02-01T00:00:00.000Z', '2024-02-02T00:00:00.000Z');
+    const daily = databaseService.rollupPingRecords('daily', '2024-02-01T00:00:00.000Z', '2024-02-02T00:00:00.000Z');
+
+    await expect(failed).rejects.toThrow(RangeError);
+    await stored;
+    // Rollups across all records and for the default target
+    expect(await hourly).toBe(4);
+    expect(await daily).toBe(2);
+    expect((await databaseService.getPingRecords(10, 0)).total).toBe(8);
+    expect(await databaseService.getRollups('hourly', '2024-01-01T00:00:00.000Z', 'z')).toHaveLength(2);
+  });
+});
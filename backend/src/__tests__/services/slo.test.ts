@@ -0,0 +1,126 @@
+import { DatabaseService } from '../../services/database';
+import { SloInput, SloService, describeSlo } from '../../services/slo';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('SloService', () => {
+  let databaseService: DatabaseService;
+  let sloService: SloService;
+  const now = Date.now();
+
+  const availability: SloInput = {
+    name: 'API availability',
+    enabled: true,
+    monitorId: null,
+    objective: 'availability',
+    target: 99,
+    latencyThreshold: null,
+    windowDays: 30,
+    burnRateAlerts: true
+  };
+
+  const store = (minutesAgo: number, statusCode: number, responseTime = 100): Promise<number> =>
+    databaseService.insertPingRecord({
+      timestamp: new Date(now - minutesAgo * 60 * 1000).toISOString(),
+      requestPayload: '{}',
+      responseData: '{}',
+      statusCode,
+      responseTime
+    });
+
+  // A ping every 10 minutes for 30 hours, then three failures in the last few minutes
+  const storeBurningHistory = async (): Promise<void> => {
+    for (let i = 0; i < 180; i++) {
+      await store(i * 10 + 6, 200);
+    }
+    for (const minutesAgo of [1, 2, 3]) {
+      await store(minutesAgo, 503);
+    }
+  };
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+    sloService = new SloService(databaseService);
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should report attainment, error budget and burn rates', async () => {
+    await storeBurningHistory();
+    const slo = await databaseService.createSlo(availability);
+
+    const status = await sloService.getStatus(slo, now);
+
+    expect(status).toEqual(expect.objectContaining({
+      description: '99% of requests succeed over 30d',
+      state: 'breached',
+      totalRequests: 183,
+      goodRequests: 180,
+      attainment: expect.closeTo(98.36, 2),
+      errorBudget: { allowed: expect.closeTo(1.83, 2), spent: 3, remaining: expect.closeTo(-63.93, 2) }
+    }));
+    // 3 of 9 requests failed in the last hour against the 1% the target allows
+    expect(status.burnRates['1h']).toBeCloseTo(33.33, 2);
+    expect(status.burnRates['6h']).toBeCloseTo(7.69, 2);
+  });
+
+  it('should count latency objectives against the threshold', async () => {
+    await store(10, 200, 300);
+    await store(20, 500, 300);
+    await store(30, 200, 900);
+    const slo = await databaseService.createSlo({ ...availability, objective: 'latency', target: 50, latencyThreshold: 500, windowDays: 7 });
+
+    const status = await sloService.getStatus(slo, now);
+
+    expect(describeSlo(slo)).toBe('50% of requests within 500ms over 7d');
+    expect(status).toEqual(expect.objectContaining({ totalRequests: 3, goodRequests: 2, state: 'met' }));
+    expect(status.errorBudget.remaining).toBeCloseTo(33.33, 2);
+  });
+
+  it('should report no data without requests in the window', async () => {
+    const slo = await databaseService.createSlo(availability);
+
+    const status = await sloService.getStatus(slo, now);
+
+    expect(status).toEqual(expect.objectContaining({ state: 'no_data', attainment: null, burnRates: { '1h': null, '6h': null } }));
+  });
+
+  it('should alert when both the long and the short window burn too fast', async () => {
+    await storeBurningHistory();
+    const slo = await databaseService.createSlo(availability);
+    await databaseService.createSlo({ ...availability, name: 'Silenced', burnRateAlerts: false });
+
+    const { findings, scope } = await sloService.evaluateBurnRates(now);
+
+    expect(scope.size).toBe(2);
+    expect(findings.map(finding => finding.severity)).toEqual(['high', 'medium']);
+    expect(findings[0]).toEqual(expect.objectContaining({
+      type: 'slo_burn',
+      fingerprint: `slo_burn:default:slo-${slo.id}`,
+      threshold: expect.closeTo(14.4, 5),
+      active: true
+    }));
+    expect(findings[0].message).toBe('API availability: error budget burning at 33.3x over the last 1h (100.0x over 5m, alerting at 14.4x)');
+
+    // Once the short window is clean again the alert stops, before the long window recovers
+    const later = now + 10 * 60 * 1000;
+    await databaseService.insertPingRecord({
+      timestamp: new Date(later - 60 * 1000).toISOString(),
+      requestPayload: '{}',
+      responseData: '{}',
+      statusCode: 200,
+      responseTime: 100
+    });
+    expect((await sloService.evaluateBurnRates(later)).findings.filter(finding => finding.severity === 'high')).toHaveLength(0);
+  });
+});
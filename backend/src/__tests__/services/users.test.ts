@@ -0,0 +1,98 @@
+import { Socket } from 'socket.io';
+import { DatabaseService } from '../../services/database';
+import { ApiKeyService } from '../../services/apiKeys';
+import { UserService, hashPassword, sessionTtlMs, verifyPassword } from '../../services/users';
+import { authenticateSocket, sessionToken } from '../../middleware/auth';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('UserService', () => {
+  let databaseService: DatabaseService;
+  let userService: UserService;
+
+  beforeEach(async () => {
+    process.env.DB_PATH = ':memory:';
+    databaseService = new DatabaseService();
+    await databaseService.initialize();
+    userService = new UserService(databaseService);
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+    jest.useRealTimers();
+  });
+
+  it('should hash passwords with a salt', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    expect(first).toMatch(/^scrypt\$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('correct horse', first)).toBe(true);
+    expect(await verifyPassword('correct horse!', first)).toBe(false);
+    expect(await verifyPassword('correct horse', 'plain')).toBe(false);
+  });
+
+  it('should fall back to a 12 hour session for an unusable SESSION_TTL_HOURS', () => {
+    const ttl = (raw: string | undefined): number => {
+      if (raw === undefined) {
+        delete process.env.SESSION_TTL_HOURS;
+      } else {
+        process.env.SESSION_TTL_HOURS = raw;
+      }
+      return sessionTtlMs();
+    };
+
+    try {
+      expect(ttl('24')).toBe(24 * 60 * 60 * 1000);
+      expect(ttl('0.5')).toBe(30 * 60 * 1000);
+      for (const raw of [undefined, '', 'twelve', '0', '-3', '1e20']) {
+        expect(ttl(raw)).toBe(12 * 60 * 60 * 1000);
+      }
+    } finally {
+      delete process.env.SESSION_TTL_HOURS;
+    }
+  });
+
+  it('should open sessions for valid credentials until they expire or end', async () => {
+    const user = await userService.create({ username: 'alice', password: 'alice-password', role: 'operator' });
+    expect(JSON.stringify(await databaseService.getUsers())).not.toContain('scrypt');
+
+    expect(await userService.login('alice', 'wrong-password')).toBeNull();
+    expect(await userService.login('bob', 'alice-password')).toBeNull();
+
+    const session = await userService.login('alice', 'alice-password');
+    expect(session).toMatchObject({ user: { id: user.id, role: 'operator', lastLoginAt: expect.any(String) } });
+    expect(await userService.verifySession(session!.token)).toMatchObject({ id: user.id, username: 'alice' });
+    expect(await userService.verifySession(session!.token.slice(1))).toBeNull();
+
+    await userService.logout(session!.token);
+    expect(await userService.verifySession(session!.token)).toBeNull();
+
+    const expiring = await userService.login('alice', 'alice-password');
+    jest.useFakeTimers({ now: Date.parse(expiring!.expiresAt) + 1000, doNotFake: ['setImmediate', 'nextTick'] });
+    expect(await userService.verifySession(expiring!.token)).toBeNull();
+  });
+
+  it('should accept socket connections with a session cookie', async () => {
+    await userService.create({ username: 'vera', password: 'vera-password', role: 'viewer' });
+    const session = await userService.login('vera', 'vera-password');
+    const middleware = authenticateSocket(new ApiKeyService(databaseService), userService, { required: true });
+    const connect = async (cookie?: string): Promise<Error | undefined> => {
+      const next = jest.fn();
+      await middleware({ handshake: { auth: {}, headers: { cookie } } } as unknown as Socket, next);
+      return next.mock.calls[0][0];
+    };
+
+    expect(sessionToken(`theme=dark; hbm_session=${session!.token}`)).toBe(session!.token);
+    expect(await connect(`theme=dark; hbm_session=${session!.token}`)).toBeUndefined();
+    expect(await connect('hbm_session=unknown')).toEqual(new Error('Unauthorized'));
+    expect(await connect()).toEqual(new Error('Unauthorized'));
+  });
+});
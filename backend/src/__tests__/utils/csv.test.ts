@@ -0,0 +1,28 @@
+import { parseCsv, toCsv } from '../../utils/csv';
+
+describe('toCsv', () => {
+  it('should quote fields that need it and leave missing values empty', () => {
+    const csv = toCsv<{ name: string; count?: number; note: string | null }>(['name', 'count', 'note'], [
+      { name: 'plain', count: 1, note: null },
+      { name: 'a, "quoted"\nvalue', note: 'ok' }
+    ]);
+
+    expect(csv).toBe('name,count,note\nplain,1,\n"a, ""quoted""\nvalue",,ok\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('should read back what toCsv writes, with the line each record starts on', () => {
+    const csv = toCsv<{ name: string; count?: number; note: string | null }>(['name', 'count', 'note'], [
+      { name: 'a, "quoted"\nvalue', note: 'ok' },
+      { name: 'plain', count: 1, note: null }
+    ]);
+
+    expect(parseCsv(csv + '\r\n\r\nlast,2,x')).toEqual([
+      { line: 1, values: ['name', 'count', 'note'] },
+      { line: 2, values: ['a, "quoted"\nvalue', '', 'ok'] },
+      { line: 4, values: ['plain', '1', ''] },
+      { line: 7, values: ['last', '2', 'x'] }
+    ]);
+  });
+});
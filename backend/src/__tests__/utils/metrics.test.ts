@@ -0,0 +1,42 @@
+import { metricsRegistry, recordAnomaly, recordProbe, socketClients, timeQuery } from '../../utils/metrics';
+
+describe('metrics', () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  it('should expose the last probe of each target and a response time histogram', async () => {
+    recordProbe({ monitorId: null, monitor: 'default', statusCode: 200, responseTime: 180 });
+    recordProbe({ monitorId: null, monitor: 'default', statusCode: 0, responseTime: 30000 });
+    recordProbe({ monitorId: 3, monitor: 'API', statusCode: 301, responseTime: 40, assertionStatus: 'passed' });
+
+    const metrics = await metricsRegistry.metrics();
+    expect(metrics).toContain('httpbin_monitor_probe_last_status_code{monitor_id="",monitor="default"} 0');
+    expect(metrics).toContain('httpbin_monitor_probe_last_response_time_seconds{monitor_id="",monitor="default"} 30');
+    expect(metrics).toContain('httpbin_monitor_probe_success{monitor_id="",monitor="default"} 0');
+    expect(metrics).toContain('httpbin_monitor_probe_success{monitor_id="3",monitor="API"} 1');
+    expect(metrics).toContain('httpbin_monitor_probe_response_time_seconds_bucket{le="0.25",monitor_id="",monitor="default"} 1');
+    expect(metrics).toContain('httpbin_monitor_probe_response_time_seconds_count{monitor_id="",monitor="default"} 2');
+  });
+
+  it('should count anomalies, socket clients and database statements', async () => {
+    recordAnomaly({ type: 'response_time', severity: 'high' });
+    recordAnomaly({ type: 'response_time', severity: 'high' });
+    recordAnomaly({ type: 'error_rate', severity: 'low' });
+    socketClients.inc();
+    socketClients.inc();
+    socketClients.dec();
+
+    expect(await timeQuery('  SELECT 1', async () => 'row')).toBe('row');
+    await expect(timeQuery('DELETE FROM x', async () => { throw new Error('locked'); })).rejects.toThrow('locked');
+
+    const metrics = await metricsRegistry.metrics();
+    expect(metrics).toContain('httpbin_monitor_anomalies_total{type="response_time",severity="high"} 2');
+    expect(metrics).toContain('httpbin_monitor_anomalies_total{type="error_rate",severity="low"} 1');
+    expect(metrics).toContain('httpbin_monitor_socketio_connected_clients 1');
+    expect(metrics).toContain('httpbin_monitor_db_query_duration_seconds_count{statement="select"} 1');
+    expect(metrics).toContain('httpbin_monitor_db_query_duration_seconds_count{statement="delete"} 1');
+    expect(metrics).toContain('process_cpu_seconds_total');
+    expect(metrics).toContain('nodejs_heap_size_used_bytes');
+  });
+});
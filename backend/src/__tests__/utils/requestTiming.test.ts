@@ -0,0 +1,53 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { RequestTimer } from '../../utils/requestTiming';
+
+describe('RequestTimer', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    // Answers after a delay, so the time to first byte is measurable
+    server = http.createServer((req, res) => {
+      setTimeout(() => res.end('{"ok":true}'), 50);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should measure each phase of a plain HTTP request', async () => {
+    const timer = new RequestTimer();
+    await axios.get(`http://localhost:${port}/`, { httpAgent: timer.httpAgent, httpsAgent: timer.httpsAgent });
+    const timings = timer.finish();
+
+    expect(timings.dnsTime).toBeGreaterThanOrEqual(0);
+    expect(timings.tcpTime).toBeGreaterThanOrEqual(0);
+    expect(timings.tlsTime).toBeNull();
+    expect(timings.ttfbTime).toBeGreaterThanOrEqual(45);
+    expect(timings.downloadTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should skip DNS for an IP address', async () => {
+    const timer = new RequestTimer();
+    await axios.get(`http://127.0.0.1:${port}/`, { httpAgent: timer.httpAgent });
+
+    expect(timer.finish().dnsTime).toBe(0);
+  });
+
+  it('should leave phases that were never reached empty', async () => {
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+
+    const timer = new RequestTimer();
+    await expect(axios.get(`http://127.0.0.1:${closedPort}/`, { httpAgent: timer.httpAgent })).rejects.toThrow();
+
+    expect(timer.finish()).toEqual({ dnsTime: null, tcpTime: null, tlsTime: null, ttfbTime: null, downloadTime: null });
+  });
+});
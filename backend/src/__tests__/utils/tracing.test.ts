@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import express from 'express';
+import request from 'supertest';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { currentTraceId, initTracing, traceHeaders, traceRequests, withSpan } from '../../utils/tracing';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('tracing', () => {
+  const file = join(tmpdir(), `traces-${process.pid}-${Date.now()}.ndjson`);
+  let provider: NodeTracerProvider;
+
+  const exportedSpans = async (): Promise<any[]> => {
+    await provider.forceFlush();
+    const text = await fs.readFile(file, 'utf8');
+    return text.trim().split('\n').map(line => JSON.parse(line));
+  };
+
+  beforeAll(() => {
+    provider = initTracing({ OTEL_TRACES_EXPORTER: 'file', OTEL_TRACES_FILE: file });
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    await fs.rm(file, { force: true });
+  });
+
+  it('should reject unknown exporters', () => {
+    expect(() => initTracing({ OTEL_TRACES_EXPORTER: 'zipkin' })).toThrow('OTEL_TRACES_EXPORTER must be one of otlp, file, none, got zipkin');
+  });
+
+  it('should nest spans, propagate traceparent and write failed spans to the file', async () => {
+    let traceId: string | null = null;
+    let headers: Record<string, string> = {};
+
+    await expect(withSpan('outer', { 'monitor.id': 3 }, async () => {
+      traceId = currentTraceId();
+      await withSpan('inner', {}, () => {
+        headers = traceHeaders();
+      });
+      throw new Error('timed out');
+    })).rejects.toThrow('timed out');
+
+    expect(traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(headers.traceparent).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`));
+    expect(currentTraceId()).toBeNull();
+
+    const spans = (await exportedSpans()).filter(span => span.traceId === traceId);
+    const outer = spans.find(span => span.name === 'outer');
+    const inner = spans.find(span => span.name === 'inner');
+    expect(outer).toMatchObject({ parentSpanId: null, status: 'ERROR', statusMessage: 'timed out', attributes: { 'monitor.id': 3 } });
+    expect(outer.events.map((event: any) => event.name)).toEqual(['exception']);
+    expect(inner).toMatchObject({ parentSpanId: outer.spanId, status: 'UNSET' });
+    expect(headers.traceparent).toContain(inner.spanId);
+  });
+
+  it('should continue the caller\'s trace in a span named after the route', async () => {
+    const app = express();
+    const router = express.Router();
+    router.get('/things/:id', (req, res) => res.json({ traceId: currentTraceId() }));
+    app.use('/api', traceRequests(), router);
+
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const response = await request(app)
+      .get('/api/things/7?verbose=1')
+      .set('traceparent', `00-${traceId}-00f067aa0ba902b7-01`)
+      .expect(200);
+    expect(response.body.traceId).toBe(traceId);
+
+    const span = (await exportedSpans()).find(span => span.traceId === traceId);
+    expect(span).toMatchObject({
+      name: 'GET /api/things/:id',
+      kind: 'SERVER',
+      parentSpanId: '00f067aa0ba902b7',
+      attributes: { 'http.route': '/api/things/:id', 'url.path': '/api/things/7', 'http.response.status_code': 200 }
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { API_KEY_SCOPES, ApiKeyScope, ApiKeyService } from '../services/apiKeys';
+import { DatabaseService } from '../services/database';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+// stdout carries the key, so keep the database connection messages out of it
+logger.level = 'warn';
+
+const USAGE = `Usage: npm run api-key -- <command>
+
+  create --name <name> --scopes <read,trigger,admin>   prints the new key once; only its hash is stored
+  list
+  revoke <id>`;
+
+async function main(args: string[]): Promise<number> {
+  const { values: options, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      name: { type: 'string' },
+      scopes: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+  const [command, id] = positionals;
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const scopes = (options.scopes ?? '').split(',').map(scope => scope.trim()).filter(Boolean) as ApiKeyScope[];
+  if (
+    (command === 'create' && (!options.name || scopes.length === 0 || scopes.some(scope => !API_KEY_SCOPES.includes(scope)))) ||
+    (command === 'revoke' && !(Number(id) > 0)) ||
+    !['create', 'list', 'revoke'].includes(command)
+  ) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const databaseService = new DatabaseService();
+  await databaseService.initialize();
+
+  try {
+    if (command === 'create') {
+      const { apiKey, key } = await new ApiKeyService(databaseService).create({ name: options.name!, scopes });
+      console.error(`Created API key ${apiKey.id} (${apiKey.name}) with scopes ${apiKey.scopes.join(', ')}; it is not shown again`);
+      console.log(key);
+      return 0;
+    }
+
+    if (command === 'list') {
+      for (const apiKey of await databaseService.getApiKeys()) {
+        console.log(`${String(apiKey.id).padStart(4)} ${apiKey.prefix}… ${apiKey.name.padEnd(30)} ${apiKey.scopes.join(',').padEnd(20)} last used ${apiKey.lastUsedAt ?? 'never'}`);
+      }
+      return 0;
+    }
+
+    if (!(await databaseService.deleteApiKey(Number(id)))) {
+      console.error(`API key ${id} does not exist`);
+      return 1;
+    }
+    console.log(`API key ${id} revoked`);
+    return 0;
+  } finally {
+    await databaseService.close();
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
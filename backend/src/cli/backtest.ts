@@ -0,0 +1,247 @@
+import dotenv from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { AlertRule, AlertRuleInput } from '../services/alertRules';
+import {
+  BacktestEvaluation,
+  BacktestResult,
+  DETECTOR_RULES,
+  LabeledIncident,
+  TimelineBucket,
+  backtest,
+  draftRule,
+  evaluateFindings,
+  findingTimeline,
+  outlierRule,
+  parseLabels,
+  parseRecords
+} from '../services/backtest';
+import { DatabaseService, PingRecord } from '../services/database';
+import { ruleSchema } from '../routes/alertRules';
+import { toCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+import { readNumberEnv } from '../utils/env';
+
+dotenv.config();
+
+// stdout carries the report, so keep the database connection messages out of it
+logger.level = 'warn';
+
+const USAGE = `Usage: npm run backtest -- [options]
+
+Records (default: the database in DB_PATH / DB_URL, last 7 days)
+  --file <path>           ping records exported as JSON, a saved { "data": [...] } response or NDJSON
+  --from <iso>, --to <iso>
+  --monitor <id>          records of one monitor (from the database: those without a monitor by default)
+
+Rules (default: the enabled stored rules, or every detector when reading a file)
+  --rules <path>          JSON array of rule drafts, as posted to /api/alert-rules
+  --rule-ids <1,2,...>    stored rules, enabled or not
+  --detectors             one rule per detector (zscore, mad_score, ewma_score, cusum, seasonal_score)
+  --zscore <2.5,3,...>    candidate z-score thresholds for the response time outlier rule
+  --response-time <ms,..> candidate response time thresholds for it (default RESPONSE_TIME_THRESHOLD or 5000)
+
+Output
+  --labels <path>         JSON array of known incidents { "start", "end", "name" } for precision and recall
+  --bucket <minutes>      timeline bucket (default 60)
+  --format json|csv       (default json)
+  --table anomalies|summary|timeline   what a CSV holds (default anomalies)
+  --output <path>         write to a file instead of stdout`;
+
+interface RuleReport extends BacktestResult {
+  evaluation: BacktestEvaluation | null;
+  timeline: TimelineBucket[];
+}
+
+const numberList = (value: string | undefined, option: string): number[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const numbers = value.split(',').map(Number);
+  if (numbers.some(number => !Number.isFinite(number))) {
+    throw new Error(`--${option} must be a comma separated list of numbers`);
+  }
+  return numbers;
+};
+
+const dateOption = (value: string | undefined, option: string): Date | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`--${option} must be an ISO date`);
+  }
+  return date;
+};
+
+const readRuleDrafts = (path: string): AlertRule[] => {
+  const drafts: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(drafts)) {
+    throw new Error(`${path} must hold a JSON array of rules`);
+  }
+  return drafts.map((draft, index) => {
+    const { error, value } = ruleSchema.validate(draft);
+    if (error) {
+      throw new Error(`Rule ${index + 1} in ${path}: ${error.details.map(d => d.message).join('; ')}`);
+    }
+    return draftRule(value as AlertRuleInput);
+  });
+};
+
+async function main(args: string[]): Promise<number> {
+  const { values: options } = parseArgs({
+    args,
+    options: {
+      file: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      monitor: { type: 'string' },
+      rules: { type: 'string' },
+      'rule-ids': { type: 'string' },
+      detectors: { type: 'boolean' },
+      zscore: { type: 'string' },
+      'response-time': { type: 'string' },
+      labels: { type: 'string' },
+      bucket: { type: 'string', default: '60' },
+      format: { type: 'string', default: 'json' },
+      table: { type: 'string', default: 'anomalies' },
+      output: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const bucketMinutes = Number(options.bucket);
+  const monitorId = options.monitor === undefined ? undefined : Number(options.monitor);
+  if (!['json', 'csv'].includes(options.format!) || !['anomalies', 'summary', 'timeline'].includes(options.table!) ||
+    !Number.isInteger(bucketMinutes) || bucketMinutes < 1 || (monitorId !== undefined && !Number.isInteger(monitorId))) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const ruleIds = numberList(options['rule-ids'], 'rule-ids');
+  const zScores = numberList(options.zscore, 'zscore');
+  const responseTimes = numberList(options['response-time'], 'response-time');
+  const labels: LabeledIncident[] = options.labels ? parseLabels(readFileSync(options.labels, 'utf8')) : [];
+  let from = dateOption(options.from, 'from');
+  let to = dateOption(options.to, 'to');
+
+  // Records from a file are replayed without opening the database unless stored rules are asked for
+  const databaseService = !options.file || ruleIds ? new DatabaseService() : null;
+  if (databaseService) {
+    await databaseService.initialize({ migrate: false });
+  }
+
+  try {
+    let records: PingRecord[];
+    if (options.file) {
+      records = parseRecords(readFileSync(options.file, 'utf8')).filter(record =>
+        (monitorId === undefined || (record.monitorId ?? null) === monitorId) &&
+        (!from || record.timestamp >= from.toISOString()) &&
+        (!to || record.timestamp <= to.toISOString()));
+      const times = records.map(record => Date.parse(record.timestamp));
+      from ??= new Date(times.length > 0 ? Math.min(...times) : Date.now());
+      to ??= new Date(times.length > 0 ? Math.max(...times) : Date.now());
+    } else {
+      to ??= new Date();
+      from ??= new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+      records = await databaseService!.getRecordsInOrder({
+        monitorId: monitorId ?? null,
+        since: from.toISOString(),
+        until: to.toISOString()
+      });
+    }
+
+    const rules: AlertRule[] = [];
+    if (options.rules) {
+      rules.push(...readRuleDrafts(options.rules));
+    }
+    for (const id of ruleIds ?? []) {
+      const rule = await databaseService!.getAlertRule(id);
+      if (!rule) {
+        throw new Error(`Alert rule ${id} does not exist`);
+      }
+      rules.push(rule);
+    }
+    if (options.detectors) {
+      rules.push(...DETECTOR_RULES.map(draftRule));
+    }
+    if (zScores || responseTimes) {
+      for (const zScore of zScores ?? [readNumberEnv('Z_SCORE_THRESHOLD', 2.5)]) {
+        for (const responseTime of responseTimes ?? [readNumberEnv('RESPONSE_TIME_THRESHOLD', 5000)]) {
+          rules.push(draftRule(outlierRule(zScore, responseTime)));
+        }
+      }
+    }
+    if (rules.length === 0) {
+      rules.push(...(databaseService
+        ? (await databaseService.getAlertRules()).filter(rule => rule.enabled)
+        : DETECTOR_RULES.map(draftRule)));
+    }
+
+    const reports: RuleReport[] = backtest(rules, records, monitorId ?? null).map(result => ({
+      ...result,
+      evaluation: labels.length > 0 ? evaluateFindings(result.findings, labels) : null,
+      timeline: findingTimeline(result.findings, from!, to!, bucketMinutes)
+    }));
+
+    let output: string;
+    if (options.format === 'json') {
+      output = JSON.stringify({
+        source: options.file ?? 'database',
+        monitorId: monitorId ?? null,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        records: records.length,
+        labels: labels.length,
+        results: reports
+      }, null, 2) + '\n';
+    } else if (options.table === 'summary') {
+      output = toCsv(
+        ['rule', 'description', 'flagged', 'low', 'medium', 'high', 'truePositives', 'falsePositives', 'detected', 'missed', 'precision', 'recall'],
+        reports.map(report => ({
+          rule: report.rule.name,
+          description: report.rule.description,
+          flagged: report.flagged,
+          ...report.bySeverity,
+          ...(report.evaluation ?? {})
+        }))
+      );
+    } else if (options.table === 'timeline') {
+      output = toCsv(
+        ['rule', 'start', 'total', 'low', 'medium', 'high'],
+        reports.flatMap(report => report.timeline.map(bucket => ({ rule: report.rule.name, ...bucket })))
+      );
+    } else {
+      output = toCsv(
+        ['rule', 'timestamp', 'recordId', 'severity', 'value', 'threshold', 'labeled', 'message'],
+        reports.flatMap(report => report.findings.map(finding => ({
+          rule: report.rule.name,
+          ...finding,
+          labeled: labels.length > 0 ? evaluateFindings([finding], labels).truePositives === 1 : undefined
+        })))
+      );
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.error(`Replayed ${records.length} records through ${rules.length} rules into ${options.output}`);
+    } else {
+      process.stdout.write(output);
+    }
+    return 0;
+  } finally {
+    await databaseService?.close();
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,70 @@
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parseArgs } from 'util';
+import { DatabaseService } from '../services/database';
+import { ImportService } from '../services/import';
+import { RetentionService } from '../services/retention';
+import { ExportFormat, EXPORT_FORMATS } from '../utils/export';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+// stdout carries the report, so keep the database connection messages out of it
+logger.level = 'warn';
+
+const USAGE = `Usage: npm run import -- --file <path> [options]
+
+Imports ping records from GET /api/export into the database in DB_PATH / DB_URL. Records whose
+timestamp and monitor are already stored are skipped. Exits with 1 when any line was rejected.
+
+  --file <path>           records as CSV or NDJSON
+  --format csv|ndjson     (default: from the file extension, NDJSON unless .csv)
+  --monitor <id>          store every record under this monitor instead of the one in the file`;
+
+async function main(args: string[]): Promise<number> {
+  const { values: options } = parseArgs({
+    args,
+    options: {
+      file: { type: 'string' },
+      format: { type: 'string' },
+      monitor: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const format = (options.format ?? (extname(options.file ?? '').toLowerCase() === '.csv' ? 'csv' : 'ndjson')) as ExportFormat;
+  const monitorId = options.monitor === undefined ? undefined : Number(options.monitor);
+  if (!options.file || !EXPORT_FORMATS.includes(format) || (monitorId !== undefined && !(Number.isInteger(monitorId) && monitorId > 0))) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const text = readFileSync(options.file, 'utf8');
+  const databaseService = new DatabaseService();
+  await databaseService.initialize();
+
+  try {
+    const importService = new ImportService(databaseService, new RetentionService(databaseService));
+    const result = await importService.importRecords(text, { format, monitorId });
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+    console.error(
+      `Imported ${result.imported} of ${result.rows} records from ${options.file}` +
+      ` (${result.duplicates} duplicates, ${result.failed} rejected)`
+    );
+    return result.failed > 0 ? 1 : 0;
+  } finally {
+    await databaseService.close();
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,54 @@
+import dotenv from 'dotenv';
+import { DatabaseService } from '../services/database';
+
+dotenv.config();
+
+const USAGE = 'Usage: npm run migrate -- <list|apply|dry-run>';
+
+async function main(command: string | undefined): Promise<number> {
+  if (!command || !['list', 'apply', 'dry-run'].includes(command)) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const databaseService = new DatabaseService();
+  await databaseService.initialize({ migrate: false });
+
+  try {
+    const runner = databaseService.migrations();
+
+    if (command === 'list') {
+      for (const migration of await runner.status()) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending';
+        console.log(`${String(migration.version).padStart(3, '0')} ${migration.name.padEnd(30)} ${state}`);
+      }
+      return 0;
+    }
+
+    const result = await runner.migrate({ dryRun: command === 'dry-run' });
+    if (result.applied.length === 0) {
+      console.log('No pending migrations');
+      return 0;
+    }
+
+    for (const migration of result.applied) {
+      console.log(`${result.dryRun ? 'Would apply' : 'Applied'} ${migration.version} (${migration.name})`);
+      for (const statement of result.statements[migration.version]) {
+        console.log(`  ${statement}`);
+      }
+    }
+    if (result.dryRun) {
+      console.log('Dry run rolled back; nothing was changed');
+    }
+    return 0;
+  } finally {
+    await databaseService.close();
+  }
+}
+
+main(process.argv[2])
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
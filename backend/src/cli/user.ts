@@ -0,0 +1,118 @@
+import dotenv from 'dotenv';
+import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+import { USER_ROLES, UserRole, UserService } from '../services/users';
+import { DatabaseService } from '../services/database';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+logger.level = 'warn';
+
+const USAGE = `Usage: npm run user -- <command>
+
+  create <username> --role <viewer|operator|admin> [--password <password>]
+  set-password <username> [--password <password>]   signs the user out everywhere
+  list
+  delete <username>
+
+Without --password the password is read from the first line of stdin, which keeps it out of the
+shell history: echo "$PASSWORD" | npm run user -- create alice --role admin`;
+
+const MIN_PASSWORD_LENGTH = 8;
+
+async function readPassword(): Promise<string> {
+  if (process.stdin.isTTY) {
+    process.stderr.write('Password: ');
+  }
+  const lines = createInterface({ input: process.stdin });
+  for await (const line of lines) {
+    lines.close();
+    return line;
+  }
+  return '';
+}
+
+async function main(args: string[]): Promise<number> {
+  const { values: options, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      role: { type: 'string' },
+      password: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+  const [command, username] = positionals;
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (
+    !['create', 'set-password', 'list', 'delete'].includes(command) ||
+    (command !== 'list' && !username) ||
+    (command === 'create' && !USER_ROLES.includes(options.role as UserRole))
+  ) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const password = command === 'create' || command === 'set-password'
+    ? options.password ?? await readPassword()
+    : '';
+  if ((command === 'create' || command === 'set-password') && password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+    return 1;
+  }
+
+  const databaseService = new DatabaseService();
+  await databaseService.initialize();
+
+  try {
+    const userService = new UserService(databaseService);
+
+    if (command === 'list') {
+      for (const user of await databaseService.getUsers()) {
+        console.log(`${String(user.id).padStart(4)} ${user.username.padEnd(30)} ${user.role.padEnd(10)} last login ${user.lastLoginAt ?? 'never'}`);
+      }
+      return 0;
+    }
+
+    const existing = await databaseService.getUserCredentials(username);
+
+    if (command === 'create') {
+      if (existing) {
+        console.error(`User ${username} already exists`);
+        return 1;
+      }
+      const user = await userService.create({ username, password, role: options.role as UserRole });
+      console.log(`Created user ${user.id} (${user.username}) with role ${user.role}`);
+      return 0;
+    }
+
+    if (!existing) {
+      console.error(`User ${username} does not exist`);
+      return 1;
+    }
+
+    if (command === 'set-password') {
+      await userService.update(existing.user.id, { password });
+      console.log(`Password of ${username} changed`);
+      return 0;
+    }
+
+    await databaseService.deleteUser(existing.user.id);
+    console.log(`User ${username} deleted`);
+    return 0;
+  } finally {
+    await databaseService.close();
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
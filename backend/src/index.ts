@@ -9,17 +9,37 @@ import dotenv from 'dotenv';
 import { DatabaseService } from './services/database';
 import { PingService } from './services/ping';
 import { AnomalyDetectionService } from './services/anomalyDetection';
+import { RetentionService } from './services/retention';
+import { NotificationService } from './services/notifications';
+import { ApiKeyService } from './services/apiKeys';
+import { UserService } from './services/users';
+import { HealthService } from './services/health';
+import { SettingsService } from './services/settings';
+import { SchedulerService } from './services/scheduler';
 import { apiRoutes } from './routes/api';
+import { healthRoutes } from './routes/health';
+import { authenticate, authenticateSocket, requireScope } from './middleware/auth';
 import { logger } from './utils/logger';
+import { metricsRegistry, socketClients } from './utils/metrics';
+import { initTracing, traceRequests } from './utils/tracing';
 
 dotenv.config();
 
+// Before anything starts a span; OTEL_TRACES_EXPORTER picks where spans go
+const tracerProvider = initTracing();
+
+// The dashboard is the only browser origin allowed to call the API
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+// API_AUTH=off leaves the API and socket open, e.g. behind an authenticating proxy
+const authOptions = { required: process.env.API_AUTH !== 'off' };
+
 const app = express();
 const server = createServer(app);
 const io = new Server(server, {
   cors: {
-    origin: process.env.FRONTEND_URL || "http://localhost:3000",
-    methods: ["GET", "POST"]
+    origin: FRONTEND_URL,
+    methods: ["GET", "POST"],
+    credentials: true
   }
 });
 
@@ -27,30 +47,53 @@ const PORT = process.env.PORT || 8001;
 // Middleware
 app.use(helmet());
 app.use(compression());
-app.use(cors());
+// Credentials so the dashboard's session cookie is sent along
+app.use(cors({ origin: FRONTEND_URL, credentials: true, exposedHeaders: ['Content-Disposition'] }));
 app.use(morgan('combined'));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // Initialize services
 const databaseService = new DatabaseService();
-const pingService = new PingService(databaseService, io);
-const anomalyService = new AnomalyDetectionService(databaseService, io);
+const notificationService = new NotificationService(databaseService);
+const anomalyService = new AnomalyDetectionService(databaseService, io, notificationService);
+const pingService = new PingService(databaseService, io, anomalyService);
+const retentionService = new RetentionService(databaseService);
+const apiKeyService = new ApiKeyService(databaseService);
+const userService = new UserService(databaseService);
+const healthService = new HealthService(databaseService, pingService, anomalyService, io);
+const settingsService = new SettingsService(databaseService, pingService, anomalyService);
+const schedulerService = new SchedulerService(databaseService, pingService);
 
 // Routes
-app.use('/api', apiRoutes(databaseService, pingService));
+app.use('/api', traceRequests(), authenticate(apiKeyService, userService, authOptions), apiRoutes(databaseService, pingService, anomalyService, retentionService, notificationService, settingsService, schedulerService));
+
+// Liveness and readiness checks
+app.use('/health', healthRoutes(healthService));
 
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.json({ status: 'healthy', timestamp: new Date().toISOString() });
+// Prometheus scrape endpoint; scrapers authenticate like any API client, with a read key
+app.get('/metrics', authenticate(apiKeyService, userService, authOptions), requireScope('read'), async (req, res) => {
+  try {
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error('Error collecting metrics:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to collect metrics'
+    });
+  }
 });
 
-// Socket.io connection handling
+// Socket.io connection handling; only signed-in users and clients with a read key receive the live streams
+io.use(authenticateSocket(apiKeyService, userService, authOptions));
 io.on('connection', (socket) => {
   logger.info(`Client connected: ${socket.id}`);
+  socketClients.inc();
   
   socket.on('disconnect', () => {
     logger.info(`Client disconnected: ${socket.id}`);
+    socketClients.dec();
   });
 });
 
@@ -59,7 +102,18 @@ async function startServer() {
   try {
     await databaseService.initialize();
     logger.info('Database initialized successfully');
+
+    if (!authOptions.required) {
+      logger.warn('API_AUTH=off: the API and live updates are open to anyone who can reach them');
+    } else if ((await databaseService.countUsers()) === 0) {
+      logger.warn('No dashboard users exist yet; create an admin with `npm run user -- create --username <name> --role admin`');
+    }
     
+    // Settings saved through the API take over from the environment
+    await settingsService.load();
+    // A pause survives restarts
+    await schedulerService.load();
+
     // Start ping service
     pingService.start();
     logger.info('Ping service started');
@@ -67,6 +121,10 @@ async function startServer() {
     // Start anomaly detection
     anomalyService.start();
     logger.info('Anomaly detection service started');
+
+    // Start rollups and retention
+    retentionService.start();
+    logger.info('Retention service started');
     
     server.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
@@ -82,7 +140,9 @@ process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
   pingService.stop();
   anomalyService.stop();
+  retentionService.stop();
   await databaseService.close();
+  await tracerProvider.shutdown();
   process.exit(0);
 });
 
@@ -90,7 +150,9 @@ process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
   pingService.stop();
   anomalyService.stop();
+  retentionService.stop();
   await databaseService.close();
+  await tracerProvider.shutdown();
   process.exit(0);
 });
 
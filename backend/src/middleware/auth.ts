@@ -0,0 +1,130 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Socket } from 'socket.io';
+import { API_KEY_SCOPES, ApiKey, ApiKeyScope, ApiKeyService, hasScope } from '../services/apiKeys';
+import { User, UserService, ROLE_SCOPES } from '../services/users';
+import { logger } from '../utils/logger';
+
+export interface AuthOptions {
+  // With API_AUTH=off every caller gets every scope, as before keys existed
+  required: boolean;
+}
+
+// Who is calling and what they may do, kept in res.locals.auth for the rest of the request.
+// Scripts send an API key; the dashboard sends the session cookie set by POST /api/auth/login.
+export interface AuthContext {
+  apiKey: ApiKey | null;
+  user: User | null;
+  scopes: ApiKeyScope[];
+}
+
+const OPEN_ACCESS: AuthContext = { apiKey: null, user: null, scopes: API_KEY_SCOPES };
+
+export const SESSION_COOKIE = 'hbm_session';
+
+// Keys are sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`
+const presentedKey = (req: Request): string | null => {
+  const authorization = req.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.get('x-api-key') ?? null;
+};
+
+// The session token from a Cookie header, which express leaves unparsed
+export const sessionToken = (cookieHeader: string | undefined): string | null => {
+  for (const cookie of (cookieHeader ?? '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+};
+
+const resolveCaller = async (
+  apiKeyService: ApiKeyService,
+  userService: UserService,
+  key: string | null,
+  token: string | null
+): Promise<AuthContext | null> => {
+  if (key) {
+    const apiKey = await apiKeyService.verify(key);
+    return apiKey ? { apiKey, user: null, scopes: apiKey.scopes } : null;
+  }
+  const user = token ? await userService.verifySession(token) : null;
+  return user ? { apiKey: null, user, scopes: ROLE_SCOPES[user.role] } : null;
+};
+
+// Resolves the caller without rejecting anyone; requireScope decides per route. A presented
+// API key takes precedence over the session cookie.
+export function authenticate(apiKeyService: ApiKeyService, userService: UserService, options: AuthOptions): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!options.required) {
+      res.locals.auth = OPEN_ACCESS;
+      return next();
+    }
+
+    try {
+      res.locals.auth = await resolveCaller(apiKeyService, userService, presentedKey(req), sessionToken(req.get('cookie')));
+      next();
+    } catch (error) {
+      logger.error('Error checking credentials:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to check the credentials'
+      });
+    }
+  };
+}
+
+export function requireScope(scope: ApiKeyScope): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const auth = res.locals.auth as AuthContext | null | undefined;
+
+    if (!auth) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Sign in or send a valid API key'
+      });
+    }
+
+    if (!hasScope(auth.scopes, scope)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: auth.user
+          ? `The ${auth.user.role} role does not allow this`
+          : `This API key lacks the "${scope}" scope`
+      });
+    }
+
+    next();
+  };
+}
+
+// socket.io connections carry a key with the read scope as the handshake's auth.token, or the
+// dashboard's session cookie
+export function authenticateSocket(
+  apiKeyService: ApiKeyService,
+  userService: UserService,
+  options: AuthOptions
+): (socket: Socket, next: (error?: Error) => void) => Promise<void> {
+  return async (socket, next) => {
+    if (!options.required) {
+      return next();
+    }
+
+    try {
+      const key: unknown = socket.handshake.auth?.token;
+      const auth = await resolveCaller(
+        apiKeyService,
+        userService,
+        typeof key === 'string' ? key : null,
+        sessionToken(socket.handshake.headers.cookie)
+      );
+      next(auth && hasScope(auth.scopes, 'read') ? undefined : new Error('Unauthorized'));
+    } catch (error) {
+      logger.error('Error checking socket credentials:', error);
+      next(new Error('Unauthorized'));
+    }
+  };
+}
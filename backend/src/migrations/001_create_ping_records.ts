@@ -0,0 +1,23 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 1,
+  name: 'create_ping_records',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS ping_records (
+        id ${db.types.id},
+        timestamp ${db.types.timestamp} DEFAULT CURRENT_TIMESTAMP,
+        request_payload TEXT NOT NULL,
+        response_data TEXT NOT NULL,
+        status_code INTEGER NOT NULL,
+        response_time INTEGER NOT NULL,
+        content_type TEXT,
+        content_length INTEGER
+      )
+    `);
+    await db.run('CREATE INDEX IF NOT EXISTS idx_timestamp ON ping_records(timestamp)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_status_code ON ping_records(status_code)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_response_time ON ping_records(response_time)');
+  }
+};
@@ -0,0 +1,9 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'add_request_type',
+  async up(db): Promise<void> {
+    await db.addColumnIfMissing('ping_records', 'request_type', "TEXT DEFAULT 'auto'");
+  }
+};
@@ -0,0 +1,25 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 3,
+  name: 'create_monitors',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS monitors (
+        id ${db.types.id},
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        method TEXT NOT NULL DEFAULT 'GET',
+        headers TEXT NOT NULL DEFAULT '{}',
+        body_template TEXT,
+        interval_ms INTEGER NOT NULL,
+        timeout_ms INTEGER NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at ${db.types.timestamp} NOT NULL,
+        updated_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+    await db.addColumnIfMissing('ping_records', 'monitor_id', 'INTEGER REFERENCES monitors(id) ON DELETE SET NULL');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_monitor_timestamp ON ping_records(monitor_id, timestamp)');
+  }
+};
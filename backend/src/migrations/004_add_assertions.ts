@@ -0,0 +1,11 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 4,
+  name: 'add_assertions',
+  async up(db): Promise<void> {
+    await db.addColumnIfMissing('monitors', 'assertions', "TEXT NOT NULL DEFAULT '[]'");
+    await db.addColumnIfMissing('ping_records', 'assertion_status', 'TEXT');
+    await db.addColumnIfMissing('ping_records', 'assertion_results', 'TEXT');
+  }
+};
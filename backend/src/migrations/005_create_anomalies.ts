@@ -0,0 +1,23 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 5,
+  name: 'create_anomalies',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS anomalies (
+        id ${db.types.id},
+        type TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        value ${db.types.real} NOT NULL,
+        threshold ${db.types.real} NOT NULL,
+        message TEXT NOT NULL,
+        record_id INTEGER REFERENCES ping_records(id) ON DELETE SET NULL,
+        detected_at ${db.types.timestamp} NOT NULL,
+        acknowledged_at ${db.types.timestamp}
+      )
+    `);
+    await db.addColumnIfMissing('anomalies', 'monitor_id', 'INTEGER REFERENCES monitors(id) ON DELETE SET NULL');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_anomalies_detected_at ON anomalies(detected_at)');
+  }
+};
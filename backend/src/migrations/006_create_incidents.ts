@@ -0,0 +1,30 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 6,
+  name: 'create_incidents',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS incidents (
+        id ${db.types.id},
+        fingerprint TEXT NOT NULL,
+        type TEXT NOT NULL,
+        monitor_id INTEGER REFERENCES monitors(id) ON DELETE SET NULL,
+        severity TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        message TEXT NOT NULL,
+        last_value ${db.types.real} NOT NULL,
+        threshold ${db.types.real} NOT NULL,
+        anomaly_count INTEGER NOT NULL DEFAULT 0,
+        opened_at ${db.types.timestamp} NOT NULL,
+        last_seen_at ${db.types.timestamp} NOT NULL,
+        acknowledged_at ${db.types.timestamp},
+        resolved_at ${db.types.timestamp}
+      )
+    `);
+    await db.addColumnIfMissing('anomalies', 'incident_id', 'INTEGER REFERENCES incidents(id) ON DELETE SET NULL');
+    await db.addColumnIfMissing('anomalies', 'dedupe_key', 'TEXT');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_anomalies_dedupe_key ON anomalies(dedupe_key)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_incidents_fingerprint ON incidents(fingerprint, status)');
+  }
+};
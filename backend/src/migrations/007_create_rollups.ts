@@ -0,0 +1,38 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 7,
+  name: 'create_rollups',
+  async up(db): Promise<void> {
+    for (const table of ['ping_rollups_hourly', 'ping_rollups_daily']) {
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          id ${db.types.id},
+          bucket_start ${db.types.timestamp} NOT NULL,
+          scope TEXT NOT NULL,
+          count INTEGER NOT NULL,
+          error_count INTEGER NOT NULL,
+          min_response_time INTEGER NOT NULL,
+          max_response_time INTEGER NOT NULL,
+          sum_response_time INTEGER NOT NULL,
+          p50 INTEGER NOT NULL,
+          p95 INTEGER NOT NULL,
+          p99 INTEGER NOT NULL,
+          status_codes TEXT NOT NULL DEFAULT '{}'
+        )
+      `);
+      await db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_bucket ON ${table}(scope, bucket_start)`);
+    }
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS retention_settings (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        raw_retention_days INTEGER NOT NULL,
+        hourly_retention_days INTEGER NOT NULL,
+        raw_pruned_before ${db.types.timestamp},
+        last_run_at ${db.types.timestamp},
+        updated_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+  }
+};
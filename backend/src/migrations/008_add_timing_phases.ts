@@ -0,0 +1,12 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 8,
+  name: 'add_timing_phases',
+  async up(db): Promise<void> {
+    for (const column of ['dns_time', 'tcp_time', 'tls_time', 'ttfb_time', 'download_time']) {
+      await db.addColumnIfMissing('ping_records', column, db.types.real);
+    }
+    await db.addColumnIfMissing('anomalies', 'phase', 'TEXT');
+  }
+};
@@ -0,0 +1,34 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 9,
+  name: 'create_notifications',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS notification_channels (
+        id ${db.types.id},
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        config TEXT NOT NULL,
+        min_severity TEXT NOT NULL DEFAULT 'low',
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at ${db.types.timestamp} NOT NULL,
+        updated_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS notification_deliveries (
+        id ${db.types.id},
+        channel_id INTEGER REFERENCES notification_channels(id) ON DELETE CASCADE,
+        anomaly_id INTEGER REFERENCES anomalies(id) ON DELETE SET NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        response_status INTEGER,
+        error TEXT,
+        created_at ${db.types.timestamp} NOT NULL,
+        completed_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+    await db.run('CREATE INDEX IF NOT EXISTS idx_notification_deliveries_channel ON notification_deliveries(channel_id, created_at)');
+  }
+};
@@ -0,0 +1,92 @@
+import { Migration } from './types';
+import { readNumberEnv } from '../utils/env';
+
+// The checks that were hard-coded in AnomalyDetectionService, seeded as editable rules. The two thresholds
+// that used to be configurable keep the values from the environment at the time of the upgrade.
+const defaultRules = (): Array<Record<string, unknown>> => [
+  {
+    name: 'Response time outlier',
+    type: 'response_time',
+    conditions: [
+      { metric: 'zscore', operator: '>', threshold: readNumberEnv('Z_SCORE_THRESHOLD', 2.5) },
+      { metric: 'response_time', operator: '>', threshold: readNumberEnv('RESPONSE_TIME_THRESHOLD', 5000) }
+    ],
+    windowMinutes: 24 * 60,
+    windowPings: null,
+    minSamples: 10,
+    severity: 'low',
+    escalate: [
+      { metric: 'zscore', operator: '>', threshold: 3.0, severity: 'medium' },
+      { metric: 'zscore', operator: '>', threshold: 3.5, severity: 'high' }
+    ]
+  },
+  {
+    name: 'Failed requests',
+    type: 'status_code',
+    conditions: [{ metric: 'error_count', operator: '>=', threshold: 3 }],
+    windowMinutes: null,
+    windowPings: 20,
+    minSamples: 10,
+    severity: 'low',
+    escalate: [
+      { metric: 'error_rate', operator: '>=', threshold: 25, severity: 'medium' },
+      { metric: 'error_rate', operator: '>=', threshold: 50, severity: 'high' }
+    ]
+  },
+  {
+    name: 'Elevated error rate',
+    type: 'error_rate',
+    conditions: [{ metric: 'error_rate', operator: '>', threshold: 30 }],
+    windowMinutes: 60,
+    windowPings: null,
+    minSamples: 5,
+    severity: 'medium',
+    escalate: [{ metric: 'error_rate', operator: '>=', threshold: 50, severity: 'high' }]
+  }
+];
+
+export const migration: Migration = {
+  version: 10,
+  name: 'create_alert_rules',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id ${db.types.id},
+        name TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        monitor_id INTEGER REFERENCES monitors(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        conditions TEXT NOT NULL,
+        window_minutes INTEGER,
+        window_pings INTEGER,
+        consecutive INTEGER NOT NULL DEFAULT 1,
+        min_samples INTEGER NOT NULL DEFAULT 1,
+        severity TEXT NOT NULL,
+        escalate TEXT NOT NULL DEFAULT '[]',
+        created_at ${db.types.timestamp} NOT NULL,
+        updated_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+
+    const now = new Date().toISOString();
+    for (const rule of defaultRules()) {
+      await db.run(
+        `INSERT INTO alert_rules
+          (name, type, conditions, window_minutes, window_pings, min_samples, severity, escalate, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          rule.name,
+          rule.type,
+          JSON.stringify(rule.conditions),
+          rule.windowMinutes,
+          rule.windowPings,
+          rule.minSamples,
+          rule.severity,
+          JSON.stringify(rule.escalate),
+          now,
+          now
+        ]
+      );
+    }
+  }
+};
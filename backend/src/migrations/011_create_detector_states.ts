@@ -0,0 +1,20 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 11,
+  name: 'create_detector_states',
+  async up(db): Promise<void> {
+    // One row per alert rule and monitor ('default' for records without one)
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS detector_states (
+        rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+        scope TEXT NOT NULL,
+        rule_updated_at ${db.types.timestamp} NOT NULL,
+        last_record_id INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        updated_at ${db.types.timestamp} NOT NULL,
+        PRIMARY KEY (rule_id, scope)
+      )
+    `);
+  }
+};
@@ -0,0 +1,23 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 12,
+  name: 'create_slos',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS slos (
+        id ${db.types.id},
+        name TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        monitor_id INTEGER REFERENCES monitors(id) ON DELETE CASCADE,
+        objective TEXT NOT NULL,
+        target ${db.types.real} NOT NULL,
+        latency_threshold INTEGER,
+        window_days INTEGER NOT NULL,
+        burn_rate_alerts INTEGER NOT NULL DEFAULT 1,
+        created_at ${db.types.timestamp} NOT NULL,
+        updated_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+  }
+};
@@ -0,0 +1,19 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 13,
+  name: 'create_api_keys',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id ${db.types.id},
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        created_at ${db.types.timestamp} NOT NULL,
+        last_used_at ${db.types.timestamp}
+      )
+    `);
+  }
+};
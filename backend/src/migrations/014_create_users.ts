@@ -0,0 +1,30 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 14,
+  name: 'create_users',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS users (
+        id ${db.types.id},
+        username TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        created_at ${db.types.timestamp} NOT NULL,
+        updated_at ${db.types.timestamp} NOT NULL,
+        last_login_at ${db.types.timestamp}
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id ${db.types.id},
+        token_hash TEXT NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at ${db.types.timestamp} NOT NULL,
+        expires_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+    await db.run('CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)');
+  }
+};
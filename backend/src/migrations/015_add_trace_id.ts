@@ -0,0 +1,9 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 15,
+  name: 'add_trace_id',
+  async up(db): Promise<void> {
+    await db.addColumnIfMissing('ping_records', 'trace_id', 'TEXT');
+  }
+};
@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+// One row, written by the first PUT /api/settings; until then the environment applies
+export const migration: Migration = {
+  version: 16,
+  name: 'create_settings',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS settings (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        ping_interval INTEGER NOT NULL,
+        httpbin_url TEXT NOT NULL,
+        analysis_interval INTEGER NOT NULL,
+        updated_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+  }
+};
@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+// One row, written the first time the ping scheduler is paused
+export const migration: Migration = {
+  version: 17,
+  name: 'create_scheduler_state',
+  async up(db): Promise<void> {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS scheduler_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        paused INTEGER NOT NULL,
+        paused_at ${db.types.timestamp},
+        paused_by TEXT,
+        updated_at ${db.types.timestamp} NOT NULL
+      )
+    `);
+  }
+};
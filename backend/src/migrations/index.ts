@@ -0,0 +1,171 @@
+import { Migration, MigrationContext } from './types';
+import { SqlExecutor } from '../storage/types';
+import { migration as createPingRecords } from './001_create_ping_records';
+import { migration as addRequestType } from './002_add_request_type';
+import { migration as createMonitors } from './003_create_monitors';
+import { migration as addAssertions } from './004_add_assertions';
+import { migration as createAnomalies } from './005_create_anomalies';
+import { migration as createIncidents } from './006_create_incidents';
+import { migration as createRollups } from './007_create_rollups';
+import { migration as addTimingPhases } from './008_add_timing_phases';
+import { migration as createNotifications } from './009_create_notifications';
+import { migration as createAlertRules } from './010_create_alert_rules';
+import { migration as createDetectorStates } from './011_create_detector_states';
+import { migration as createSlos } from './012_create_slos';
+import { migration as createApiKeys } from './013_create_api_keys';
+import { migration as createUsers } from './014_create_users';
+import { migration as addTraceId } from './015_add_trace_id';
+import { migration as createSettings } from './016_create_settings';
+import { migration as createSchedulerState } from './017_create_scheduler_state';
+
+export { Migration, MigrationContext } from './types';
+
+// Append new migrations here with the next version number; never edit or reorder one that has shipped
+export const migrations: Migration[] = [
+  createPingRecords,
+  addRequestType,
+  createMonitors,
+  addAssertions,
+  createAnomalies,
+  createIncidents,
+  createRollups,
+  addTimingPhases,
+  createNotifications,
+  createAlertRules,
+  createDetectorStates,
+  createSlos,
+  createApiKeys,
+  createUsers,
+  addTraceId,
+  createSettings,
+  createSchedulerState
+];
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+export interface MigrationResult {
+  applied: MigrationStatus[];
+  // Statements executed per migration, including those of a dry run that was rolled back
+  statements: Record<number, string[]>;
+  dryRun: boolean;
+}
+
+export class MigrationRunner {
+  constructor(
+    private db: SqlExecutor,
+    private available: Migration[] = migrations
+  ) {
+    const versions = available.map(m => m.version);
+    versions.forEach((version, index) => {
+      if (index > 0 && version <= versions[index - 1]) {
+        throw new Error(`Migration versions must be unique and ascending, got ${version} after ${versions[index - 1]}`);
+      }
+    });
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    // Reading the status never creates anything, so listing or a dry run leaves a fresh database untouched
+    const applied = await this.db.tableExists('schema_migrations')
+      ? await this.db.all<{ version: number; appliedAt: string }>('SELECT version, applied_at as "appliedAt" FROM schema_migrations')
+      : [];
+    const appliedAt = new Map(applied.map(row => [row.version, row.appliedAt]));
+
+    return this.available.map(m => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: appliedAt.get(m.version) ?? null
+    }));
+  }
+
+  async pending(): Promise<Migration[]> {
+    const status = await this.status();
+    return this.available.filter((_, index) => status[index].appliedAt === null);
+  }
+
+  // Each migration and its schema_migrations row commit together. A dry run executes
+  // every pending migration inside one transaction and rolls it back.
+  async migrate(options: { dryRun?: boolean } = {}): Promise<MigrationResult> {
+    const dryRun = options.dryRun ?? false;
+    const pending = await this.pending();
+    const result: MigrationResult = { applied: [], statements: {}, dryRun };
+
+    if (pending.length === 0) {
+      return result;
+    }
+
+    if (dryRun) {
+      await this.db.run('BEGIN TRANSACTION');
+    }
+
+    try {
+      await this.ensureMigrationsTable();
+
+      for (const migration of pending) {
+        const appliedAt = new Date().toISOString();
+        if (!dryRun) {
+          await this.db.run('BEGIN TRANSACTION');
+        }
+
+        try {
+          result.statements[migration.version] = await this.execute(migration);
+          await this.db.run(
+            'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+            [migration.version, migration.name, appliedAt]
+          );
+          if (!dryRun) {
+            await this.db.run('COMMIT');
+          }
+        } catch (error) {
+          if (!dryRun) {
+            await this.db.run('ROLLBACK');
+          }
+          throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+        }
+
+        result.applied.push({ version: migration.version, name: migration.name, appliedAt });
+      }
+    } finally {
+      if (dryRun) {
+        await this.db.run('ROLLBACK');
+      }
+    }
+
+    return result;
+  }
+
+  // Runs one migration while recording the statements that change the schema or data
+  private async execute(migration: Migration): Promise<string[]> {
+    const statements: string[] = [];
+    const recording: MigrationContext = {
+      dialect: this.db.dialect,
+      types: this.db.types,
+      run: (sql, params) => {
+        statements.push(sql.replace(/\s+/g, ' ').trim());
+        return this.db.run(sql, params);
+      },
+      all: (sql, params) => this.db.all(sql, params),
+      addColumnIfMissing: async (table, column, definition) => {
+        if (!(await this.db.columnExists(table, column))) {
+          await recording.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+      }
+    };
+
+    await migration.up(recording);
+    return statements;
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at ${this.db.types.timestamp} NOT NULL
+      )
+    `);
+  }
+}
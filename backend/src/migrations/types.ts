@@ -0,0 +1,17 @@
+import { ColumnTypes, SqlDialect } from '../storage/types';
+
+// What a migration may use; every statement runs inside the migration's transaction.
+// DDL takes dialect-specific column types from `types` so one migration serves SQLite and PostgreSQL.
+export interface MigrationContext {
+  readonly dialect: SqlDialect;
+  readonly types: ColumnTypes;
+  run(sql: string, params?: unknown[]): Promise<unknown>;
+  all<T>(sql: string, params?: unknown[]): Promise<T[]>;
+  addColumnIfMissing(table: string, column: string, definition: string): Promise<void>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: MigrationContext): Promise<void>;
+}
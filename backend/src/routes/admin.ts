@@ -0,0 +1,89 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import { RetentionService } from '../services/retention';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const retentionSettingsSchema = Joi.object({
+  rawRetentionDays: Joi.number().integer().min(1).max(3650),
+  hourlyRetentionDays: Joi.number().integer().min(1).max(3650)
+}).min(1);
+
+export function adminRoutes(
+  databaseService: DatabaseService,
+  retentionService: RetentionService
+): Router {
+  const router = Router();
+
+  // Get retention settings and the state of the last run
+  router.get('/retention', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const settings = await databaseService.getRetentionSettings();
+      res.json({
+        success: true,
+        data: settings
+      });
+    } catch (error) {
+      logger.error('Error fetching retention settings:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch retention settings'
+      });
+    }
+  });
+
+  // Update retention settings; they apply from the next run
+  router.put('/retention', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = retentionSettingsSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid retention settings',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      // Hourly rollups answer the windows raw rows no longer cover, so they must outlive them
+      const current = await databaseService.getRetentionSettings();
+      const merged = { ...current, ...value };
+      if (merged.hourlyRetentionDays < merged.rawRetentionDays) {
+        return res.status(400).json({
+          error: 'Invalid retention settings',
+          details: ['"hourlyRetentionDays" must be greater than or equal to "rawRetentionDays"']
+        });
+      }
+
+      const settings = await databaseService.updateRetentionSettings(value);
+      res.json({
+        success: true,
+        data: settings
+      });
+    } catch (error) {
+      logger.error('Error updating retention settings:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update retention settings'
+      });
+    }
+  });
+
+  // Run rollups and retention now instead of waiting for the next interval
+  router.post('/retention/run', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = await retentionService.runOnce();
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Error running retention:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to run retention'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,330 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import {
+  AlertRule,
+  AlertRuleInput,
+  COMPARISON_OPERATORS,
+  PING_METRICS,
+  WINDOW_METRICS,
+  RuleCondition,
+  defaultRuleType,
+  describeRule,
+  isPingMetric
+} from '../services/alertRules';
+import { DETECTOR_RULES, backtest, draftRule } from '../services/backtest';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const conditionSchema = Joi.object({
+  metric: Joi.string().valid(...PING_METRICS, ...WINDOW_METRICS).required(),
+  operator: Joi.string().valid(...COMPARISON_OPERATORS).required(),
+  threshold: Joi.number().required()
+});
+
+const severitySchema = Joi.string().valid('low', 'medium', 'high');
+
+const ruleFields = {
+  name: Joi.string().trim().min(1).max(100),
+  enabled: Joi.boolean(),
+  monitorId: Joi.number().integer().min(1).allow(null),
+  type: Joi.string().valid('response_time', 'status_code', 'error_rate'),
+  when: Joi.array().items(conditionSchema).min(1).max(10),
+  window: Joi.object({
+    minutes: Joi.number().integer().min(1).max(7 * 24 * 60),
+    pings: Joi.number().integer().min(1).max(10000)
+  }).xor('minutes', 'pings'),
+  consecutive: Joi.number().integer().min(1).max(100),
+  minSamples: Joi.number().integer().min(0),
+  severity: severitySchema,
+  escalate: Joi.array().items(conditionSchema.keys({ severity: severitySchema.required() })).max(10)
+};
+
+// Ping metrics are judged per ping and window metrics per window, so a rule cannot mix them
+const consistentMetrics = (rule: AlertRuleInput, helpers: Joi.CustomHelpers): AlertRuleInput | Joi.ErrorReport => {
+  const conditions: RuleCondition[] = [...rule.when, ...rule.escalate];
+  const pingRule = isPingMetric(rule.when[0].metric);
+  if (conditions.some(condition => isPingMetric(condition.metric) !== pingRule)) {
+    return helpers.message({ custom: '"when" and "escalate" cannot mix per-ping metrics (response_time and the detector scores) with window metrics' });
+  }
+  if (pingRule && rule.consecutive > 1) {
+    return helpers.message({ custom: '"consecutive" must be 1 for rules on per-ping metrics' });
+  }
+  return rule;
+};
+
+export const ruleSchema = Joi.object({
+  name: ruleFields.name.required(),
+  enabled: ruleFields.enabled.default(true),
+  monitorId: ruleFields.monitorId.default(null),
+  // Defaults to the type that matches the first condition's metric
+  type: ruleFields.type,
+  when: ruleFields.when.required(),
+  window: ruleFields.window.required(),
+  consecutive: ruleFields.consecutive.default(1),
+  minSamples: ruleFields.minSamples.default(1),
+  severity: ruleFields.severity.default('medium'),
+  escalate: ruleFields.escalate.default([])
+}).custom(consistentMetrics, 'metric consistency');
+
+const updateRuleSchema = Joi.object(ruleFields).min(1);
+
+const idSchema = Joi.number().integer().min(1).required();
+
+// Replaying more records than this at once would hold the request too long
+const MAX_BACKTEST_RECORDS = 100000;
+
+const backtestSchema = Joi.object({
+  monitorId: Joi.number().integer().min(1).allow(null).default(null),
+  from: Joi.date().iso(),
+  to: Joi.date().iso(),
+  // Stored rules or inline drafts to replay; the built-in detectors when neither is given
+  ruleIds: Joi.array().items(Joi.number().integer().min(1)).min(1).max(20),
+  rules: Joi.array().items(ruleSchema).min(1).max(20),
+  // Findings listed per rule; the counts always cover all of them
+  limit: Joi.number().integer().min(0).max(1000).default(100)
+}).oxor('ruleIds', 'rules');
+
+const withDescription = <T extends Parameters<typeof describeRule>[0]>(rule: T): T & { description: string } =>
+  ({ ...rule, description: describeRule(rule) });
+
+export function alertRuleRoutes(databaseService: DatabaseService): Router {
+  const router = Router();
+
+  // Checks the full rule and that its monitor exists; returns the error details or the rule
+  const validateRule = async (
+    input: unknown,
+    options: Joi.ValidationOptions = {}
+  ): Promise<{ details: string[] } | { rule: AlertRuleInput }> => {
+    const { error, value } = ruleSchema.validate(input, options);
+    if (error) {
+      return { details: error.details.map(d => d.message) };
+    }
+    if (value.monitorId !== null && !(await databaseService.getMonitor(value.monitorId))) {
+      return { details: [`Monitor ${value.monitorId} does not exist`] };
+    }
+    return { rule: { ...value, type: value.type ?? defaultRuleType(value.when[0].metric) } };
+  };
+
+  // List alert rules
+  router.get('/', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const rules = await databaseService.getAlertRules();
+      res.json({
+        success: true,
+        data: rules.map(withDescription)
+      });
+    } catch (error) {
+      logger.error('Error fetching alert rules:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch alert rules'
+      });
+    }
+  });
+
+  // Replay stored ping records through rules and report what each would have flagged, without
+  // touching detector state or incidents
+  router.post('/backtest', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = backtestSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid backtest',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const to: Date = value.to ?? new Date();
+      const from: Date = value.from ?? new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+      if (from > to) {
+        return res.status(400).json({
+          error: 'Invalid backtest',
+          details: ['"from" must not be after "to"']
+        });
+      }
+
+      let rules: AlertRule[];
+      if (value.ruleIds) {
+        const stored = await Promise.all((value.ruleIds as number[]).map(id => databaseService.getAlertRule(id)));
+        const missing = (value.ruleIds as number[]).filter((_, index) => !stored[index]);
+        if (missing.length > 0) {
+          return res.status(404).json({
+            error: 'Not found',
+            message: `Alert rule ${missing.join(', ')} does not exist`
+          });
+        }
+        rules = stored as AlertRule[];
+      } else {
+        const drafts: AlertRuleInput[] = value.rules ?? DETECTOR_RULES;
+        rules = drafts.map(draftRule);
+      }
+
+      const records = await databaseService.getRecordsInOrder({
+        monitorId: value.monitorId,
+        since: from.toISOString(),
+        until: to.toISOString(),
+        limit: MAX_BACKTEST_RECORDS + 1
+      });
+      if (records.length > MAX_BACKTEST_RECORDS) {
+        return res.status(400).json({
+          error: 'Invalid backtest',
+          details: [`The range holds more than ${MAX_BACKTEST_RECORDS} records; narrow "from" and "to"`]
+        });
+      }
+
+      const results = backtest(rules, records, value.monitorId);
+      res.json({
+        success: true,
+        data: {
+          monitorId: value.monitorId,
+          from: from.toISOString(),
+          to: to.toISOString(),
+          records: records.length,
+          results: results.map(result => ({ ...result, findings: result.findings.slice(0, value.limit) }))
+        }
+      });
+    } catch (error) {
+      logger.error('Error running backtest:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to run backtest'
+      });
+    }
+  });
+
+  // Get a single alert rule
+  router.get('/:id', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid alert rule id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const rule = await databaseService.getAlertRule(id);
+      if (!rule) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Alert rule ${id} does not exist`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: withDescription(rule)
+      });
+    } catch (error) {
+      logger.error('Error fetching alert rule:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch alert rule'
+      });
+    }
+  });
+
+  // Create an alert rule
+  router.post('/', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = await validateRule(req.body);
+      if ('details' in result) {
+        return res.status(400).json({
+          error: 'Invalid alert rule',
+          details: result.details
+        });
+      }
+
+      const rule = await databaseService.createAlertRule(result.rule);
+      res.status(201).json({
+        success: true,
+        data: withDescription(rule)
+      });
+    } catch (error) {
+      logger.error('Error creating alert rule:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create alert rule'
+      });
+    }
+  });
+
+  // Update an alert rule; the merged rule is validated as a whole
+  router.put('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error: idError, value: id } = idSchema.validate(req.params.id);
+      const { error } = updateRuleSchema.validate(req.body);
+      const validationError = idError || error;
+      if (validationError) {
+        return res.status(400).json({
+          error: 'Invalid alert rule',
+          details: validationError.details.map(d => d.message)
+        });
+      }
+
+      const existing = await databaseService.getAlertRule(id);
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Alert rule ${id} does not exist`
+        });
+      }
+
+      // The body was checked above, so only the stored id and timestamps are stripped
+      const result = await validateRule({ ...existing, ...req.body }, { stripUnknown: true });
+      if ('details' in result) {
+        return res.status(400).json({
+          error: 'Invalid alert rule',
+          details: result.details
+        });
+      }
+
+      const rule = await databaseService.updateAlertRule(id, result.rule);
+      res.json({
+        success: true,
+        data: withDescription(rule!)
+      });
+    } catch (error) {
+      logger.error('Error updating alert rule:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update alert rule'
+      });
+    }
+  });
+
+  // Delete an alert rule; incidents it opened are kept
+  router.delete('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid alert rule id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const deleted = await databaseService.deleteAlertRule(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Alert rule ${id} does not exist`
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `Alert rule ${id} deleted`
+      });
+    } catch (error) {
+      logger.error('Error deleting alert rule:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to delete alert rule'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,131 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService, StoredAnomaly } from '../services/database';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { EXPORT_FORMATS, streamExport } from '../utils/export';
+
+const anomalyQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(500).default(50),
+  offset: Joi.number().integer().min(0).default(0),
+  type: Joi.string().valid('response_time', 'status_code', 'error_rate', 'slo_burn').optional(),
+  severity: Joi.string().valid('low', 'medium', 'high').optional(),
+  startTime: Joi.string().isoDate().optional(),
+  endTime: Joi.string().isoDate().optional(),
+  acknowledged: Joi.boolean().optional(),
+  monitorId: Joi.number().integer().min(1).optional(),
+  incidentId: Joi.number().integer().min(1).optional()
+});
+
+const exportQuerySchema = anomalyQuerySchema.keys({
+  format: Joi.string().valid(...EXPORT_FORMATS).default('csv'),
+  limit: Joi.number().integer().min(1).optional(),
+  offset: Joi.forbidden()
+});
+
+const ANOMALY_EXPORT_COLUMNS: Array<keyof StoredAnomaly> = [
+  'id', 'timestamp', 'type', 'severity', 'value', 'threshold', 'message', 'monitorId', 'recordId', 'incidentId',
+  'phase', 'acknowledgedAt'
+];
+
+const idSchema = Joi.number().integer().min(1).required();
+
+export function anomalyRoutes(databaseService: DatabaseService): Router {
+  const router = Router();
+
+  // Get stored anomalies with pagination and filtering
+  router.get('/', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = anomalyQuerySchema.validate(req.query);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const { limit, offset, ...filters } = value;
+      const result = await databaseService.getAnomalies(limit, offset, filters);
+
+      res.json({
+        success: true,
+        data: result.anomalies,
+        pagination: {
+          limit,
+          offset,
+          total: result.total,
+          hasMore: offset + limit < result.total
+        }
+      });
+    } catch (error) {
+      logger.error('Error fetching anomalies:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch anomalies'
+      });
+    }
+  });
+
+  // Stream every anomaly matching the listing filters as CSV or NDJSON, oldest first
+  router.get('/export', requireScope('read'), async (req: Request, res: Response) => {
+    const { error, value } = exportQuerySchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { format, limit, ...filters } = value;
+    try {
+      await streamExport(res, databaseService.iterateAnomalies(filters), {
+        format,
+        columns: ANOMALY_EXPORT_COLUMNS,
+        filename: `anomalies-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+        limit
+      });
+    } catch (error) {
+      logger.error('Error exporting anomalies:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to export anomalies'
+      });
+    }
+  });
+
+  // Acknowledge an anomaly
+  router.post('/:id/ack', requireScope('trigger'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid anomaly id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const acknowledged = await databaseService.acknowledgeAnomaly(id);
+      if (!acknowledged) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Anomaly ${id} does not exist or is already acknowledged`
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `Anomaly ${id} acknowledged`
+      });
+    } catch (error) {
+      logger.error('Error acknowledging anomaly:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to acknowledge anomaly'
+      });
+    }
+  });
+
+  return router;
+}
@@ -1,8 +1,28 @@
 import { Router, Request, Response } from 'express';
 import Joi from 'joi';
-import { DatabaseService } from '../services/database';
+import { DatabaseService, PingRecord, SERIES_BUCKET_MS, SeriesBucket } from '../services/database';
 import { PingService } from '../services/ping';
+import { AnomalyDetectionService } from '../services/anomalyDetection';
+import { RetentionService } from '../services/retention';
+import { NotificationService } from '../services/notifications';
+import { SettingsService } from '../services/settings';
+import { SchedulerService } from '../services/scheduler';
+import { monitorRoutes } from './monitors';
+import { anomalyRoutes } from './anomalies';
+import { incidentRoutes } from './incidents';
+import { adminRoutes } from './admin';
+import { notificationRoutes } from './notifications';
+import { alertRuleRoutes } from './alertRules';
+import { sloRoutes } from './slo';
+import { importRoutes } from './import';
+import { apiKeyRoutes } from './apiKeys';
+import { authRoutes } from './auth';
+import { userRoutes } from './users';
+import { settingsRoutes } from './settings';
+import { schedulerRoutes } from './scheduler';
+import { requireScope } from '../middleware/auth';
 import { logger } from '../utils/logger';
+import { EXPORT_FORMATS, streamExport } from '../utils/export';
 
 const pingQuerySchema = Joi.object({
   limit: Joi.number().integer().min(1).max(1000).default(100),
@@ -11,17 +31,67 @@ const pingQuerySchema = Joi.object({
   minResponseTime: Joi.number().integer().min(0).optional(),
   maxResponseTime: Joi.number().integer().min(0).optional(),
   startTime: Joi.string().isoDate().optional(),
-  endTime: Joi.string().isoDate().optional()
+  endTime: Joi.string().isoDate().optional(),
+  monitorId: Joi.number().integer().min(1).optional()
+});
+
+// The listing filters, over the whole result instead of one page; limit caps the row count
+const exportQuerySchema = pingQuerySchema.keys({
+  format: Joi.string().valid(...EXPORT_FORMATS).default('csv'),
+  limit: Joi.number().integer().min(1).optional(),
+  offset: Joi.forbidden()
+});
+
+const PING_EXPORT_COLUMNS: Array<keyof PingRecord> = [
+  'id', 'timestamp', 'monitorId', 'requestType', 'statusCode', 'responseTime', 'contentType', 'contentLength',
+  'assertionStatus', 'assertionResults', 'dnsTime', 'tcpTime', 'tlsTime', 'ttfbTime', 'downloadTime', 'traceId',
+  'requestPayload', 'responseData'
+];
+
+const monitorIdSchema = Joi.number().integer().min(1).optional();
+
+// Larger ranges need a coarser bucket
+const MAX_SERIES_BUCKETS = 2000;
+
+const seriesQuerySchema = Joi.object({
+  bucket: Joi.string().valid(...Object.keys(SERIES_BUCKET_MS)).default('5m'),
+  from: Joi.string().isoDate().optional(),
+  to: Joi.string().isoDate().optional(),
+  monitorId: monitorIdSchema
+}).rename('monitor', 'monitorId');
+
+const anomalyStatsQuerySchema = Joi.object({
+  minutes: Joi.number().integer().min(1).max(7 * 24 * 60).default(60),
+  monitorId: monitorIdSchema
 });
 
 export function apiRoutes(
   databaseService: DatabaseService,
-  pingService: PingService
+  pingService: PingService,
+  anomalyService: AnomalyDetectionService,
+  retentionService: RetentionService,
+  notificationService: NotificationService,
+  settingsService: SettingsService,
+  schedulerService: SchedulerService
 ): Router {
   const router = Router();
 
+  router.use('/monitors', monitorRoutes(databaseService, pingService));
+  router.use('/anomalies', anomalyRoutes(databaseService));
+  router.use('/incidents', incidentRoutes(databaseService));
+  router.use('/admin', adminRoutes(databaseService, retentionService));
+  router.use('/notifications', notificationRoutes(databaseService, notificationService));
+  router.use('/alert-rules', alertRuleRoutes(databaseService));
+  router.use('/slo', sloRoutes(databaseService));
+  router.use('/import', importRoutes(databaseService, retentionService));
+  router.use('/keys', apiKeyRoutes(databaseService));
+  router.use('/auth', authRoutes(databaseService));
+  router.use('/users', userRoutes(databaseService));
+  router.use('/settings', settingsRoutes(settingsService));
+  router.use('/scheduler', schedulerRoutes(schedulerService));
+
   // Get ping records with pagination and filtering
-  router.get('/pings', async (req: Request, res: Response) => {
+  router.get('/pings', requireScope('read'), async (req: Request, res: Response) => {
     try {
       const { error, value } = pingQuerySchema.validate(req.query);
       
@@ -40,7 +110,8 @@ export function apiRoutes(
           minResponseTime: value.minResponseTime,
           maxResponseTime: value.maxResponseTime,
           startTime: value.startTime,
-          endTime: value.endTime
+          endTime: value.endTime,
+          monitorId: value.monitorId
         }
       );
 
@@ -63,11 +134,47 @@ export function apiRoutes(
     }
   });
 
+  // Stream every record matching the listing filters as CSV or NDJSON, oldest first
+  router.get('/export', requireScope('read'), async (req: Request, res: Response) => {
+    const { error, value } = exportQuerySchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { format, limit, ...filters } = value;
+    try {
+      await streamExport(res, databaseService.iteratePingRecords(filters), {
+        format,
+        columns: PING_EXPORT_COLUMNS,
+        filename: `pings-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+        limit
+      });
+    } catch (error) {
+      logger.error('Error exporting ping records:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to export ping records'
+      });
+    }
+  });
+
   // Get statistics
-  router.get('/stats', async (req: Request, res: Response) => {
+  router.get('/stats', requireScope('read'), async (req: Request, res: Response) => {
     try {
       const hours = parseInt(req.query.hours as string) || 24;
-      const stats = await databaseService.getStatistics(hours);
+      const { error, value: monitorId } = monitorIdSchema.validate(req.query.monitorId);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const stats = await databaseService.getStatistics(hours, monitorId);
       
       res.json({
         success: true,
@@ -83,11 +190,61 @@ export function apiRoutes(
     }
   });
 
+  // Get time-bucketed response time series (defaults to the last 24 hours)
+  router.get('/series', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = seriesQuerySchema.validate(req.query);
+      
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const bucket = value.bucket as SeriesBucket;
+      const to = value.to ? new Date(value.to) : new Date();
+      const from = value.from ? new Date(value.from) : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+      const bucketCount = (to.getTime() - from.getTime()) / SERIES_BUCKET_MS[bucket];
+
+      if (bucketCount <= 0 || bucketCount > MAX_SERIES_BUCKETS) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: [`"from" must be before "to" and the range may span at most ${MAX_SERIES_BUCKETS} buckets of ${bucket}`]
+        });
+      }
+
+      const points = await databaseService.getSeries(bucket, from.toISOString(), to.toISOString(), value.monitorId);
+      
+      res.json({
+        success: true,
+        data: points,
+        bucket,
+        from: from.toISOString(),
+        to: to.toISOString()
+      });
+    } catch (error) {
+      logger.error('Error fetching series:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch series'
+      });
+    }
+  });
+
   // Get recent records for real-time dashboard
-  router.get('/recent', async (req: Request, res: Response) => {
+  router.get('/recent', requireScope('read'), async (req: Request, res: Response) => {
     try {
       const minutes = parseInt(req.query.minutes as string) || 60;
-      const records = await databaseService.getRecentRecords(minutes);
+      const { error, value: monitorId } = monitorIdSchema.validate(req.query.monitorId);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const records = await databaseService.getRecentRecords(minutes, monitorId);
       
       res.json({
         success: true,
@@ -104,7 +261,7 @@ export function apiRoutes(
   });
 
   // Manual ping trigger (for testing)
-  router.post('/ping', async (req: Request, res: Response) => {
+  router.post('/ping', requireScope('trigger'), async (req: Request, res: Response) => {
     try {
       await pingService.pingOnce();
       res.json({
@@ -122,23 +279,22 @@ export function apiRoutes(
   });
 
   // Get anomaly detection statistics
-  router.get('/anomaly-stats', async (req: Request, res: Response) => {
+  router.get('/anomaly-stats', requireScope('read'), async (req: Request, res: Response) => {
     try {
-      // This would require access to the anomaly detection service
-      // For now, return placeholder data
+      const { error, value } = anomalyStatsQuerySchema.validate(req.query);
+      
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const stats = await anomalyService.getCurrentStats(value.minutes, value.monitorId);
+      
       res.json({
         success: true,
-        data: {
-          responseTimeStats: {
-            mean: 0,
-            stdDev: 0,
-            min: 0,
-            max: 0,
-            count: 0
-          },
-          errorRate: 0,
-          totalRequests: 0
-        }
+        data: stats
       });
     } catch (error) {
       logger.error('Error fetching anomaly stats:', error);
@@ -0,0 +1,96 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import { API_KEY_SCOPES, ApiKeyService } from '../services/apiKeys';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const apiKeySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique().required()
+});
+
+const idSchema = Joi.number().integer().min(1).required();
+
+export function apiKeyRoutes(databaseService: DatabaseService): Router {
+  const router = Router();
+  const apiKeyService = new ApiKeyService(databaseService);
+
+  // List API keys; only their prefixes are stored in the clear
+  router.get('/', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const apiKeys = await databaseService.getApiKeys();
+      res.json({
+        success: true,
+        data: apiKeys
+      });
+    } catch (error) {
+      logger.error('Error fetching API keys:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch API keys'
+      });
+    }
+  });
+
+  // Create an API key; the response is the only time the key is shown
+  router.post('/', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = apiKeySchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid API key',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const { apiKey, key } = await apiKeyService.create(value);
+      logger.info(`API key ${apiKey.id} (${apiKey.name}) created with scopes ${apiKey.scopes.join(', ')}`);
+      res.status(201).json({
+        success: true,
+        data: { ...apiKey, key }
+      });
+    } catch (error) {
+      logger.error('Error creating API key:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create API key'
+      });
+    }
+  });
+
+  // Revoke an API key
+  router.delete('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid API key id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const deleted = await databaseService.deleteApiKey(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `API key ${id} does not exist`
+        });
+      }
+
+      logger.info(`API key ${id} revoked`);
+      res.json({
+        success: true,
+        message: `API key ${id} revoked`
+      });
+    } catch (error) {
+      logger.error('Error revoking API key:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to revoke API key'
+      });
+    }
+  });
+
+  return router;
+}
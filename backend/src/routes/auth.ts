@@ -0,0 +1,99 @@
+import { Router, Request, Response, CookieOptions } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import { UserService } from '../services/users';
+import { AuthContext, SESSION_COOKIE, sessionToken } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const loginSchema = Joi.object({
+  username: Joi.string().trim().min(1).max(100).required(),
+  password: Joi.string().min(1).max(200).required()
+});
+
+// SameSite=Lax keeps other sites from making requests with the cookie, so the dashboard and
+// the API must share a site (localhost, or subdomains of one domain)
+const cookieOptions = (req: Request): CookieOptions => ({
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: req.secure || process.env.SESSION_COOKIE_SECURE === 'true',
+  path: '/'
+});
+
+export function authRoutes(databaseService: DatabaseService): Router {
+  const router = Router();
+  const userService = new UserService(databaseService);
+
+  // Sign in with a username and password; the session is kept in an HTTP-only cookie
+  router.post('/login', async (req: Request, res: Response) => {
+    try {
+      const { error, value } = loginSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid login',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const session = await userService.login(value.username, value.password);
+      if (!session) {
+        logger.warn(`Failed login for ${value.username}`);
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Invalid username or password'
+        });
+      }
+
+      res.cookie(SESSION_COOKIE, session.token, { ...cookieOptions(req), maxAge: Date.parse(session.expiresAt) - Date.now() });
+      res.json({
+        success: true,
+        data: { user: session.user, expiresAt: session.expiresAt }
+      });
+    } catch (error) {
+      logger.error('Error signing in:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to sign in'
+      });
+    }
+  });
+
+  // End the current session
+  router.post('/logout', async (req: Request, res: Response) => {
+    try {
+      const token = sessionToken(req.get('cookie'));
+      if (token) {
+        await userService.logout(token);
+      }
+
+      res.clearCookie(SESSION_COOKIE, cookieOptions(req));
+      res.json({
+        success: true,
+        message: 'Signed out'
+      });
+    } catch (error) {
+      logger.error('Error signing out:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to sign out'
+      });
+    }
+  });
+
+  // The signed-in user and what they may do; user is null for API keys and with API_AUTH=off
+  router.get('/me', (req: Request, res: Response) => {
+    const auth = res.locals.auth as AuthContext | null | undefined;
+    if (!auth) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Sign in or send a valid API key'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { user: auth.user, scopes: auth.scopes }
+    });
+  });
+
+  return router;
+}
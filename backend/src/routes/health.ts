@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import { HealthService } from '../services/health';
+import { logger } from '../utils/logger';
+
+// Unauthenticated, for container healthchecks and load balancers
+export function healthRoutes(healthService: HealthService): Router {
+  const router = Router();
+
+  // Liveness: the process is up and serving requests; /health is kept for existing healthchecks
+  router.get(['/', '/live'], (req: Request, res: Response) => {
+    res.json({ status: 'healthy', timestamp: new Date().toISOString(), uptime: process.uptime() });
+  });
+
+  // Readiness: the database answers and the ping, anomaly detection and socket.io loops are working
+  router.get('/ready', async (req: Request, res: Response) => {
+    try {
+      const report = await healthService.readiness();
+      if (report.status === 'degraded') {
+        const failed = Object.entries(report.checks).filter(([, check]) => check.status === 'failed');
+        logger.warn(`Readiness check degraded: ${failed.map(([name, check]) => `${name} (${check.error})`).join(', ')}`);
+      }
+      res.status(report.status === 'ready' ? 200 : 503).json(report);
+    } catch (error) {
+      logger.error('Error checking readiness:', error);
+      res.status(503).json({
+        error: 'Internal server error',
+        message: 'Failed to check readiness'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,72 @@
+import express, { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import { RetentionService } from '../services/retention';
+import { ImportError, ImportService } from '../services/import';
+import { EXPORT_FORMATS } from '../utils/export';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const DEFAULT_IMPORT_BODY_LIMIT = '50mb';
+
+// Without a format, a text/csv body is read as CSV and anything else as NDJSON
+const importQuerySchema = Joi.object({
+  format: Joi.string().valid(...EXPORT_FORMATS).optional(),
+  monitorId: Joi.number().integer().min(1).optional()
+});
+
+export function importRoutes(databaseService: DatabaseService, retentionService: RetentionService): Router {
+  const router = Router();
+  const importService = new ImportService(databaseService, retentionService);
+  const bodyLimit = process.env.IMPORT_BODY_LIMIT || DEFAULT_IMPORT_BODY_LIMIT;
+
+  // Import ping records in the GET /api/export format
+  router.post(
+    '/',
+    requireScope('admin'),
+    express.text({ type: ['text/csv', 'application/x-ndjson', 'text/plain'], limit: bodyLimit }),
+    async (req: Request, res: Response) => {
+      try {
+        const { error, value } = importQuerySchema.validate(req.query);
+
+        if (error) {
+          return res.status(400).json({
+            error: 'Invalid query parameters',
+            details: error.details.map(d => d.message)
+          });
+        }
+
+        if (typeof req.body !== 'string' || req.body.trim() === '') {
+          return res.status(400).json({
+            error: 'Invalid import',
+            message: 'Send the records as a text/csv or application/x-ndjson body'
+          });
+        }
+
+        const result = await importService.importRecords(req.body, {
+          format: value.format ?? (req.is('text/csv') ? 'csv' : 'ndjson'),
+          monitorId: value.monitorId
+        });
+
+        res.json({
+          success: true,
+          data: result
+        });
+      } catch (error) {
+        if (error instanceof ImportError) {
+          return res.status(400).json({
+            error: 'Invalid import',
+            message: error.message
+          });
+        }
+        logger.error('Error importing ping records:', error);
+        res.status(500).json({
+          error: 'Internal server error',
+          message: 'Failed to import ping records'
+        });
+      }
+    }
+  );
+
+  return router;
+}
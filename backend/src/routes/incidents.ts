@@ -0,0 +1,120 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const incidentQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(500).default(50),
+  offset: Joi.number().integer().min(0).default(0),
+  status: Joi.string().valid('open', 'acknowledged', 'resolved', 'active').optional(),
+  monitorId: Joi.number().integer().min(1).optional()
+});
+
+const idSchema = Joi.number().integer().min(1).required();
+
+export function incidentRoutes(databaseService: DatabaseService): Router {
+  const router = Router();
+
+  // Get incidents with pagination and filtering
+  router.get('/', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = incidentQuerySchema.validate(req.query);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const { limit, offset, ...filters } = value;
+      const result = await databaseService.getIncidents(limit, offset, filters);
+
+      res.json({
+        success: true,
+        data: result.incidents,
+        pagination: {
+          limit,
+          offset,
+          total: result.total,
+          hasMore: offset + limit < result.total
+        }
+      });
+    } catch (error) {
+      logger.error('Error fetching incidents:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch incidents'
+      });
+    }
+  });
+
+  // Get a single incident with its anomalies
+  router.get('/:id', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid incident id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const incident = await databaseService.getIncident(id);
+      if (!incident) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Incident ${id} does not exist`
+        });
+      }
+
+      const { anomalies } = await databaseService.getAnomalies(100, 0, { incidentId: id });
+
+      res.json({
+        success: true,
+        data: { ...incident, anomalies }
+      });
+    } catch (error) {
+      logger.error('Error fetching incident:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch incident'
+      });
+    }
+  });
+
+  // Acknowledge an open incident; it still resolves on its own once the condition clears
+  router.post('/:id/ack', requireScope('trigger'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid incident id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const incident = await databaseService.acknowledgeIncident(id);
+      if (!incident) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Incident ${id} does not exist or is not open`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: incident
+      });
+    } catch (error) {
+      logger.error('Error acknowledging incident:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to acknowledge incident'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,261 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import { PingService, DEFAULT_PING_INTERVAL, DEFAULT_PING_TIMEOUT } from '../services/ping';
+import { parseJsonPath } from '../services/assertions';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'];
+
+const regexString = Joi.string().custom((value: string) => {
+  new RegExp(value);
+  return value;
+}, 'regular expression');
+
+const jsonPathString = Joi.string().custom((value: string) => {
+  parseJsonPath(value);
+  return value;
+}, 'JSONPath');
+
+const assertionSchema = Joi.object({
+  type: Joi.string().valid('status', 'json_path', 'body_regex', 'header', 'response_time').required(),
+  expected: Joi.when('type', {
+    is: 'status',
+    then: Joi.array().items(Joi.number().integer().min(100).max(599)).min(1).required(),
+    otherwise: Joi.forbidden()
+  }),
+  path: Joi.when('type', { is: 'json_path', then: jsonPathString.required(), otherwise: Joi.forbidden() }),
+  equals: Joi.when('type', {
+    switch: [
+      { is: 'json_path', then: Joi.any().required() },
+      { is: 'header', then: Joi.string() }
+    ],
+    otherwise: Joi.forbidden()
+  }),
+  pattern: Joi.when('type', {
+    switch: [
+      { is: 'body_regex', then: regexString.required() },
+      { is: 'header', then: regexString }
+    ],
+    otherwise: Joi.forbidden()
+  }),
+  name: Joi.when('type', { is: 'header', then: Joi.string().required(), otherwise: Joi.forbidden() }),
+  max: Joi.when('type', { is: 'response_time', then: Joi.number().integer().min(1).required(), otherwise: Joi.forbidden() })
+});
+
+const monitorFields = {
+  name: Joi.string().trim().min(1).max(100),
+  url: Joi.string().uri({ scheme: ['http', 'https'] }),
+  method: Joi.string().uppercase().valid(...HTTP_METHODS),
+  headers: Joi.object().pattern(Joi.string(), Joi.string()),
+  bodyTemplate: Joi.string().allow('', null),
+  interval: Joi.number().integer().min(10000),
+  timeout: Joi.number().integer().min(100).max(120000),
+  enabled: Joi.boolean(),
+  assertions: Joi.array().items(assertionSchema).max(20)
+};
+
+const createMonitorSchema = Joi.object({
+  name: monitorFields.name.required(),
+  url: monitorFields.url.required(),
+  method: monitorFields.method.default('GET'),
+  headers: monitorFields.headers.default({}),
+  bodyTemplate: monitorFields.bodyTemplate.default(null),
+  interval: monitorFields.interval.default(DEFAULT_PING_INTERVAL),
+  timeout: monitorFields.timeout.default(DEFAULT_PING_TIMEOUT),
+  enabled: monitorFields.enabled.default(true),
+  assertions: monitorFields.assertions.default([])
+});
+
+const updateMonitorSchema = Joi.object(monitorFields).min(1);
+
+const idSchema = Joi.number().integer().min(1).required();
+
+export function monitorRoutes(
+  databaseService: DatabaseService,
+  pingService: PingService
+): Router {
+  const router = Router();
+
+  // List monitors
+  router.get('/', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const monitors = await databaseService.getMonitors();
+      res.json({
+        success: true,
+        data: monitors
+      });
+    } catch (error) {
+      logger.error('Error fetching monitors:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch monitors'
+      });
+    }
+  });
+
+  // Get a single monitor
+  router.get('/:id', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid monitor id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const monitor = await databaseService.getMonitor(id);
+      if (!monitor) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Monitor ${id} does not exist`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: monitor
+      });
+    } catch (error) {
+      logger.error('Error fetching monitor:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch monitor'
+      });
+    }
+  });
+
+  // Create a monitor and start its scheduler
+  router.post('/', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = createMonitorSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid monitor',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const monitor = await databaseService.createMonitor(value);
+      pingService.scheduleMonitor(monitor);
+
+      res.status(201).json({
+        success: true,
+        data: monitor
+      });
+    } catch (error) {
+      logger.error('Error creating monitor:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create monitor'
+      });
+    }
+  });
+
+  // Update a monitor and reschedule it
+  router.put('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error: idError, value: id } = idSchema.validate(req.params.id);
+      const { error, value } = updateMonitorSchema.validate(req.body);
+      const validationError = idError || error;
+      if (validationError) {
+        return res.status(400).json({
+          error: 'Invalid monitor',
+          details: validationError.details.map(d => d.message)
+        });
+      }
+
+      const monitor = await databaseService.updateMonitor(id, value);
+      if (!monitor) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Monitor ${id} does not exist`
+        });
+      }
+
+      pingService.scheduleMonitor(monitor);
+
+      res.json({
+        success: true,
+        data: monitor
+      });
+    } catch (error) {
+      logger.error('Error updating monitor:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update monitor'
+      });
+    }
+  });
+
+  // Delete a monitor and stop its scheduler
+  router.delete('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid monitor id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      pingService.unscheduleMonitor(id);
+      const deleted = await databaseService.deleteMonitor(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Monitor ${id} does not exist`
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `Monitor ${id} deleted`
+      });
+    } catch (error) {
+      logger.error('Error deleting monitor:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to delete monitor'
+      });
+    }
+  });
+
+  // Manual ping of a single monitor
+  router.post('/:id/ping', requireScope('trigger'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid monitor id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const monitor = await databaseService.getMonitor(id);
+      if (!monitor) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Monitor ${id} does not exist`
+        });
+      }
+
+      await pingService.pingOnce(monitor);
+      res.json({
+        success: true,
+        message: 'Manual ping triggered',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Error triggering monitor ping:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to trigger manual ping'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,287 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService, NotificationChannel, NotificationChannelType } from '../services/database';
+import { NotificationService } from '../services/notifications';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const CHANNEL_TYPES: NotificationChannelType[] = ['webhook', 'slack', 'teams', 'email'];
+
+// Secrets are never returned; sending the placeholder back keeps the stored value
+const REDACTED = '********';
+const SECRET_FIELDS = ['secret', 'password'];
+
+const urlSchema = Joi.string().uri({ scheme: ['http', 'https'] }).required();
+
+const CONFIG_SCHEMAS: Record<NotificationChannelType, Joi.ObjectSchema> = {
+  webhook: Joi.object({
+    url: urlSchema,
+    secret: Joi.string().min(16)
+  }),
+  slack: Joi.object({ url: urlSchema }),
+  teams: Joi.object({ url: urlSchema }),
+  email: Joi.object({
+    host: Joi.string().hostname().required(),
+    port: Joi.number().integer().min(1).max(65535).default(587),
+    secure: Joi.boolean().default(false),
+    username: Joi.string(),
+    password: Joi.string(),
+    from: Joi.string().email().required(),
+    to: Joi.array().items(Joi.string().email()).min(1).required()
+  }).and('username', 'password')
+};
+
+const channelFields = {
+  name: Joi.string().trim().min(1).max(100),
+  type: Joi.string().valid(...CHANNEL_TYPES),
+  // Checked against the schema for the channel type once the type is known
+  config: Joi.object().unknown(true),
+  minSeverity: Joi.string().valid('low', 'medium', 'high'),
+  enabled: Joi.boolean()
+};
+
+const createChannelSchema = Joi.object({
+  name: channelFields.name.required(),
+  type: channelFields.type.required(),
+  config: channelFields.config.required(),
+  minSeverity: channelFields.minSeverity.default('low'),
+  enabled: channelFields.enabled.default(true)
+});
+
+const updateChannelSchema = Joi.object(channelFields).min(1);
+
+const deliveryQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(500).default(50),
+  offset: Joi.number().integer().min(0).default(0),
+  channelId: Joi.number().integer().min(1).optional(),
+  status: Joi.string().valid('delivered', 'failed').optional()
+});
+
+const idSchema = Joi.number().integer().min(1).required();
+
+const redact = (channel: NotificationChannel): NotificationChannel => {
+  const config: Record<string, unknown> = { ...channel.config };
+  for (const field of SECRET_FIELDS) {
+    if (config[field]) {
+      config[field] = REDACTED;
+    }
+  }
+  return { ...channel, config: config as unknown as NotificationChannel['config'] };
+};
+
+const restoreSecrets = (config: Record<string, unknown>, existing: Record<string, unknown>): Record<string, unknown> => {
+  const restored = { ...config };
+  for (const field of SECRET_FIELDS) {
+    if (restored[field] === REDACTED) {
+      restored[field] = existing[field];
+    }
+  }
+  return restored;
+};
+
+export function notificationRoutes(
+  databaseService: DatabaseService,
+  notificationService: NotificationService
+): Router {
+  const router = Router();
+
+  // List notification channels
+  router.get('/channels', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const channels = await databaseService.getNotificationChannels();
+      res.json({
+        success: true,
+        data: channels.map(redact)
+      });
+    } catch (error) {
+      logger.error('Error fetching notification channels:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch notification channels'
+      });
+    }
+  });
+
+  // Create a notification channel
+  router.post('/channels', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = createChannelSchema.validate(req.body);
+      const config = error ? null : CONFIG_SCHEMAS[value.type as NotificationChannelType].validate(value.config);
+      const validationError = error || config?.error;
+      if (validationError) {
+        return res.status(400).json({
+          error: 'Invalid notification channel',
+          details: validationError.details.map(d => d.message)
+        });
+      }
+
+      const channel = await databaseService.createNotificationChannel({ ...value, config: config!.value });
+      res.status(201).json({
+        success: true,
+        data: redact(channel)
+      });
+    } catch (error) {
+      logger.error('Error creating notification channel:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create notification channel'
+      });
+    }
+  });
+
+  // Update a notification channel; a new type needs a config to go with it
+  router.put('/channels/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error: idError, value: id } = idSchema.validate(req.params.id);
+      const { error, value } = updateChannelSchema.validate(req.body);
+      const validationError = idError || error;
+      if (validationError) {
+        return res.status(400).json({
+          error: 'Invalid notification channel',
+          details: validationError.details.map(d => d.message)
+        });
+      }
+
+      const existing = await databaseService.getNotificationChannel(id);
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Notification channel ${id} does not exist`
+        });
+      }
+
+      const type: NotificationChannelType = value.type ?? existing.type;
+      if (type !== existing.type && !value.config) {
+        return res.status(400).json({
+          error: 'Invalid notification channel',
+          details: ['"config" is required when changing "type"']
+        });
+      }
+
+      if (value.config) {
+        const config = CONFIG_SCHEMAS[type].validate(
+          restoreSecrets(value.config, existing.config as unknown as Record<string, unknown>)
+        );
+        if (config.error) {
+          return res.status(400).json({
+            error: 'Invalid notification channel',
+            details: config.error.details.map(d => d.message)
+          });
+        }
+        value.config = config.value;
+      }
+
+      const channel = await databaseService.updateNotificationChannel(id, value);
+      res.json({
+        success: true,
+        data: redact(channel!)
+      });
+    } catch (error) {
+      logger.error('Error updating notification channel:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update notification channel'
+      });
+    }
+  });
+
+  // Delete a notification channel and its delivery log
+  router.delete('/channels/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid notification channel id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const deleted = await databaseService.deleteNotificationChannel(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Notification channel ${id} does not exist`
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `Notification channel ${id} deleted`
+      });
+    } catch (error) {
+      logger.error('Error deleting notification channel:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to delete notification channel'
+      });
+    }
+  });
+
+  // Send a test notification and return its delivery log entry
+  router.post('/channels/:id/test', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid notification channel id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const channel = await databaseService.getNotificationChannel(id);
+      if (!channel) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Notification channel ${id} does not exist`
+        });
+      }
+
+      const delivery = await notificationService.sendTest(channel);
+      res.json({
+        success: delivery.status === 'delivered',
+        data: delivery
+      });
+    } catch (error) {
+      logger.error('Error sending test notification:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to send test notification'
+      });
+    }
+  });
+
+  // Delivery log with pagination and filtering
+  router.get('/deliveries', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = deliveryQuerySchema.validate(req.query);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const { limit, offset, ...filters } = value;
+      const result = await databaseService.getNotificationDeliveries(limit, offset, filters);
+
+      res.json({
+        success: true,
+        data: result.deliveries,
+        pagination: {
+          limit,
+          offset,
+          total: result.total,
+          hasMore: offset + limit < result.total
+        }
+      });
+    } catch (error) {
+      logger.error('Error fetching notification deliveries:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch notification deliveries'
+      });
+    }
+  });
+
+  return router;
+}
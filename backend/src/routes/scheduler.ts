@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { SchedulerService } from '../services/scheduler';
+import { AuthContext, requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+// Who is calling, as shown in the scheduler status: the user, or the API key's name
+const callerName = (res: Response): string | null => {
+  const auth = res.locals.auth as AuthContext | null | undefined;
+  return auth?.user?.username ?? (auth?.apiKey ? `API key ${auth.apiKey.name}` : null);
+};
+
+export function schedulerRoutes(schedulerService: SchedulerService): Router {
+  const router = Router();
+
+  // Whether scheduled pings run, when each target is pinged next and which pings are in flight
+  router.get('/status', requireScope('read'), (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: schedulerService.status()
+    });
+  });
+
+  // Stop scheduled pings until resumed, also across restarts; manual pings still work
+  router.post('/pause', requireScope('trigger'), async (req: Request, res: Response) => {
+    try {
+      const status = await schedulerService.pause(callerName(res));
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      logger.error('Error pausing the ping scheduler:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to pause the ping scheduler'
+      });
+    }
+  });
+
+  // Ping every target now and restart the schedules
+  router.post('/resume', requireScope('trigger'), async (req: Request, res: Response) => {
+    try {
+      const status = await schedulerService.resume();
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      logger.error('Error resuming the ping scheduler:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to resume the ping scheduler'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,62 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { SettingsService } from '../services/settings';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The same bounds as a monitor's interval, up to once a day
+const settingsSchema = Joi.object({
+  pingInterval: Joi.number().integer().min(10000).max(DAY_MS),
+  httpbinUrl: Joi.string().uri({ scheme: ['http', 'https'] }),
+  analysisInterval: Joi.number().integer().min(10000).max(DAY_MS)
+}).min(1);
+
+export function settingsRoutes(settingsService: SettingsService): Router {
+  const router = Router();
+
+  // Get the settings in effect; updatedAt is null while the environment still applies
+  router.get('/', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const settings = await settingsService.get();
+      res.json({
+        success: true,
+        data: settings
+      });
+    } catch (error) {
+      logger.error('Error fetching settings:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch settings'
+      });
+    }
+  });
+
+  // Update settings; the ping and anomaly detection schedules pick them up immediately
+  router.put('/', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = settingsSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid settings',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const settings = await settingsService.update(value);
+      res.json({
+        success: true,
+        data: settings
+      });
+    } catch (error) {
+      logger.error('Error updating settings:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update settings'
+      });
+    }
+  });
+
+  return router;
+}
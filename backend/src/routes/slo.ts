@@ -0,0 +1,220 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import { SLO_OBJECTIVES, SloInput, SloService } from '../services/slo';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const sloFields = {
+  name: Joi.string().trim().min(1).max(100),
+  enabled: Joi.boolean(),
+  monitorId: Joi.number().integer().min(1).allow(null),
+  objective: Joi.string().valid(...SLO_OBJECTIVES),
+  // 100% leaves no error budget to burn
+  target: Joi.number().greater(0).less(100),
+  latencyThreshold: Joi.number().integer().min(1).allow(null),
+  windowDays: Joi.number().integer().min(1).max(90),
+  burnRateAlerts: Joi.boolean()
+};
+
+const sloSchema = Joi.object({
+  name: sloFields.name.required(),
+  enabled: sloFields.enabled.default(true),
+  monitorId: sloFields.monitorId.default(null),
+  objective: sloFields.objective.required(),
+  target: sloFields.target.required(),
+  // Only latency objectives have one; it is dropped otherwise
+  latencyThreshold: sloFields.latencyThreshold.when('objective', {
+    is: 'latency',
+    then: Joi.number().required(),
+    otherwise: Joi.any().strip()
+  }),
+  windowDays: sloFields.windowDays.default(30),
+  burnRateAlerts: sloFields.burnRateAlerts.default(true)
+});
+
+const updateSloSchema = Joi.object(sloFields).min(1);
+
+const idSchema = Joi.number().integer().min(1).required();
+
+const monitorIdSchema = Joi.number().integer().min(1).optional();
+
+export function sloRoutes(databaseService: DatabaseService): Router {
+  const router = Router();
+  const sloService = new SloService(databaseService);
+
+  // Checks the full SLO and that its monitor exists; returns the error details or the SLO
+  const validateSlo = async (
+    input: unknown,
+    options: Joi.ValidationOptions = {}
+  ): Promise<{ details: string[] } | { slo: SloInput }> => {
+    const { error, value } = sloSchema.validate(input, options);
+    if (error) {
+      return { details: error.details.map(d => d.message) };
+    }
+    if (value.monitorId !== null && !(await databaseService.getMonitor(value.monitorId))) {
+      return { details: [`Monitor ${value.monitorId} does not exist`] };
+    }
+    return { slo: { ...value, latencyThreshold: value.latencyThreshold ?? null } };
+  };
+
+  // List SLOs with their attainment, error budget and burn rates (optional monitorId)
+  router.get('/', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: monitorId } = monitorIdSchema.validate(req.query.monitorId);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const statuses = await sloService.getStatuses();
+      res.json({
+        success: true,
+        data: monitorId === undefined ? statuses : statuses.filter(status => status.monitorId === monitorId)
+      });
+    } catch (error) {
+      logger.error('Error fetching SLOs:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch SLOs'
+      });
+    }
+  });
+
+  // Get a single SLO with its status
+  router.get('/:id', requireScope('read'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid SLO id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const slo = await databaseService.getSlo(id);
+      if (!slo) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `SLO ${id} does not exist`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: await sloService.getStatus(slo)
+      });
+    } catch (error) {
+      logger.error('Error fetching SLO:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch SLO'
+      });
+    }
+  });
+
+  // Create an SLO
+  router.post('/', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = await validateSlo(req.body);
+      if ('details' in result) {
+        return res.status(400).json({
+          error: 'Invalid SLO',
+          details: result.details
+        });
+      }
+
+      const slo = await databaseService.createSlo(result.slo);
+      res.status(201).json({
+        success: true,
+        data: await sloService.getStatus(slo)
+      });
+    } catch (error) {
+      logger.error('Error creating SLO:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create SLO'
+      });
+    }
+  });
+
+  // Update an SLO; the merged SLO is validated as a whole
+  router.put('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error: idError, value: id } = idSchema.validate(req.params.id);
+      const { error } = updateSloSchema.validate(req.body);
+      const validationError = idError || error;
+      if (validationError) {
+        return res.status(400).json({
+          error: 'Invalid SLO',
+          details: validationError.details.map(d => d.message)
+        });
+      }
+
+      const existing = await databaseService.getSlo(id);
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `SLO ${id} does not exist`
+        });
+      }
+
+      // The body was checked above, so only the stored id and timestamps are stripped
+      const result = await validateSlo({ ...existing, ...req.body }, { stripUnknown: true });
+      if ('details' in result) {
+        return res.status(400).json({
+          error: 'Invalid SLO',
+          details: result.details
+        });
+      }
+
+      const slo = await databaseService.updateSlo(id, result.slo);
+      res.json({
+        success: true,
+        data: await sloService.getStatus(slo!)
+      });
+    } catch (error) {
+      logger.error('Error updating SLO:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update SLO'
+      });
+    }
+  });
+
+  // Delete an SLO; incidents its burn rate alerts opened are kept
+  router.delete('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid SLO id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const deleted = await databaseService.deleteSlo(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `SLO ${id} does not exist`
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `SLO ${id} deleted`
+      });
+    } catch (error) {
+      logger.error('Error deleting SLO:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to delete SLO'
+      });
+    }
+  });
+
+  return router;
+}
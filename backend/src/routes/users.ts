@@ -0,0 +1,171 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../services/database';
+import { USER_ROLES, UserService } from '../services/users';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const userFields = {
+  username: Joi.string().trim().min(1).max(100),
+  password: Joi.string().min(8).max(200),
+  role: Joi.string().valid(...USER_ROLES)
+};
+
+const userSchema = Joi.object({
+  username: userFields.username.required(),
+  password: userFields.password.required(),
+  role: userFields.role.required()
+});
+
+// Usernames are fixed once created
+const updateUserSchema = Joi.object({
+  password: userFields.password,
+  role: userFields.role
+}).min(1);
+
+const idSchema = Joi.number().integer().min(1).required();
+
+export function userRoutes(databaseService: DatabaseService): Router {
+  const router = Router();
+  const userService = new UserService(databaseService);
+
+  // Removing or demoting the last admin would leave nobody able to manage users from the dashboard
+  const isLastAdmin = async (id: number): Promise<boolean> => {
+    const user = await databaseService.getUser(id);
+    return user?.role === 'admin' && (await databaseService.countUsers('admin')) === 1;
+  };
+
+  // List dashboard users
+  router.get('/', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const users = await databaseService.getUsers();
+      res.json({
+        success: true,
+        data: users
+      });
+    } catch (error) {
+      logger.error('Error fetching users:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch users'
+      });
+    }
+  });
+
+  // Create a user
+  router.post('/', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value } = userSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid user',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      if (await databaseService.getUserCredentials(value.username)) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: `User ${value.username} already exists`
+        });
+      }
+
+      const user = await userService.create(value);
+      logger.info(`User ${user.id} (${user.username}) created with role ${user.role}`);
+      res.status(201).json({
+        success: true,
+        data: user
+      });
+    } catch (error) {
+      logger.error('Error creating user:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create user'
+      });
+    }
+  });
+
+  // Change a user's role or reset their password; a new password ends their sessions
+  router.put('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error: idError, value: id } = idSchema.validate(req.params.id);
+      const { error, value } = updateUserSchema.validate(req.body);
+      const validationError = idError || error;
+      if (validationError) {
+        return res.status(400).json({
+          error: 'Invalid user',
+          details: validationError.details.map(d => d.message)
+        });
+      }
+
+      if (value.role && value.role !== 'admin' && (await isLastAdmin(id))) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'The last admin cannot be demoted'
+        });
+      }
+
+      const user = await userService.update(id, value);
+      if (!user) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `User ${id} does not exist`
+        });
+      }
+
+      logger.info(`User ${id} (${user.username}) updated`);
+      res.json({
+        success: true,
+        data: user
+      });
+    } catch (error) {
+      logger.error('Error updating user:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update user'
+      });
+    }
+  });
+
+  // Delete a user and end their sessions
+  router.delete('/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const { error, value: id } = idSchema.validate(req.params.id);
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid user id',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      if (await isLastAdmin(id)) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'The last admin cannot be deleted'
+        });
+      }
+
+      const deleted = await databaseService.deleteUser(id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `User ${id} does not exist`
+        });
+      }
+
+      logger.info(`User ${id} deleted`);
+      res.json({
+        success: true,
+        message: `User ${id} deleted`
+      });
+    } catch (error) {
+      logger.error('Error deleting user:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to delete user'
+      });
+    }
+  });
+
+  return router;
+}
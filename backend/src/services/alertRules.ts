@@ -0,0 +1,551 @@
+import { AnomalySeverity, AnomalyType, PingRecord, SEVERITY_RANK, TIMING_PHASE_FIELDS, TimingPhase } from './database';
+import { isFailedRecord } from './assertions';
+import { AnomalyFinding, incidentFingerprint } from './incidents';
+import { percentile } from '../utils/statistics';
+
+// Ping metrics are checked against every ping in the window, window metrics against the window as a whole.
+// Apart from response_time, each ping metric is the score of one detector:
+// - zscore: distance from the running mean in standard deviations
+// - mad_score: distance from the window's median in scaled median absolute deviations, robust to outliers
+// - ewma_score: the exponentially smoothed response time against its control band, for small sustained shifts
+// - cusum: upper cumulative sum of standardized excess latency, for gradual drift
+// - seasonal_score: distance from the running mean of the same hour of the week (UTC), for daily and weekly patterns
+export type PingMetric = 'response_time' | 'zscore' | 'mad_score' | 'ewma_score' | 'cusum' | 'seasonal_score';
+export type WindowMetric = 'count' | 'error_count' | 'error_rate' | 'avg' | 'p50' | 'p90' | 'p95' | 'p99' | 'max';
+export type RuleMetric = PingMetric | WindowMetric;
+
+export const PING_METRICS: PingMetric[] = ['response_time', 'zscore', 'mad_score', 'ewma_score', 'cusum', 'seasonal_score'];
+export const WINDOW_METRICS: WindowMetric[] = ['count', 'error_count', 'error_rate', 'avg', 'p50', 'p90', 'p95', 'p99', 'max'];
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=';
+
+export const COMPARISON_OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<='];
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  operator: ComparisonOperator;
+  threshold: number;
+}
+
+export interface SeverityStep extends RuleCondition {
+  severity: AnomalySeverity;
+}
+
+// A time window reaches back `minutes` from the newest ping, a ping window holds the latest `pings` records
+export type RuleWindow = { minutes: number } | { pings: number };
+
+// Fires when every `when` condition holds in each of the last `consecutive` windows. The first condition
+// is the one reported; `escalate` steps raise the severity when their condition holds too.
+export interface AlertRule {
+  id: number;
+  name: string;
+  enabled: boolean;
+  // null applies the rule to every monitor, each evaluated on its own records
+  monitorId: number | null;
+  type: AnomalyType;
+  when: RuleCondition[];
+  window: RuleWindow;
+  consecutive: number;
+  // Windows with fewer pings never fire
+  minSamples: number;
+  severity: AnomalySeverity;
+  escalate: SeverityStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface RuleEvaluationOptions {
+  now: number;
+  // Findings for older records, e.g. replayed after a restart, describe the past and do not open an incident
+  activeWithinMs: number;
+}
+
+const METRIC_UNITS: Record<RuleMetric, string> = {
+  response_time: 'ms',
+  zscore: 'σ',
+  mad_score: ' MAD',
+  ewma_score: 'σ',
+  cusum: '',
+  seasonal_score: 'σ',
+  count: ' pings',
+  error_count: ' failures',
+  error_rate: '%',
+  avg: 'ms',
+  p50: 'ms',
+  p90: 'ms',
+  p95: 'ms',
+  p99: 'ms',
+  max: 'ms'
+};
+
+const PHASE_LABELS: Record<TimingPhase, string> = {
+  dns: 'DNS lookup',
+  tcp: 'TCP connect',
+  tls: 'TLS handshake',
+  ttfb: 'time to first byte',
+  download: 'download'
+};
+
+export const isPingMetric = (metric: RuleMetric): metric is PingMetric =>
+  (PING_METRICS as RuleMetric[]).includes(metric);
+
+export const isPingRule = (rule: Pick<AlertRule, 'when'>): boolean =>
+  rule.when.some(condition => isPingMetric(condition.metric));
+
+// The anomaly type a rule reports when none is given
+export const defaultRuleType = (metric: RuleMetric): AnomalyType =>
+  metric === 'error_rate' ? 'error_rate' : metric === 'error_count' ? 'status_code' : 'response_time';
+
+// How far back the records must reach to evaluate the rule; ping windows are limited by the default lookback
+export const ruleLookbackMinutes = (rule: Pick<AlertRule, 'window' | 'consecutive'>): number =>
+  'minutes' in rule.window ? rule.window.minutes * rule.consecutive : 0;
+
+const compare = (value: number, operator: ComparisonOperator, threshold: number): boolean => {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+};
+
+const formatNumber = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/\.?0+$/, '');
+
+const formatWindow = (window: RuleWindow): string => {
+  if ('pings' in window) {
+    return `the last ${window.pings} pings`;
+  }
+  if (window.minutes % 60 === 0) {
+    return `${window.minutes / 60}h`;
+  }
+  return `${window.minutes}m`;
+};
+
+const describeCondition = (condition: RuleCondition): string =>
+  `${condition.metric} ${condition.operator} ${formatNumber(condition.threshold)}${METRIC_UNITS[condition.metric]}`;
+
+// e.g. "p95 > 800ms over 15m for 2 consecutive windows → high"
+export function describeRule(rule: Pick<AlertRule, 'when' | 'window' | 'consecutive' | 'severity' | 'escalate'>): string {
+  const scope = isPingRule(rule) ? `for any ping in ${formatWindow(rule.window)}` : `over ${formatWindow(rule.window)}`;
+  const repeat = rule.consecutive > 1 ? ` for ${rule.consecutive} consecutive windows` : '';
+  const escalation = rule.escalate.length > 0
+    ? ` (${rule.escalate.map(step => `${step.severity} if ${describeCondition(step)}`).join(', ')})`
+    : '';
+
+  return `${rule.when.map(describeCondition).join(' and ')} ${scope}${repeat} → ${rule.severity}${escalation}`;
+}
+
+const severityFor = (rule: AlertRule, metrics: Partial<Record<RuleMetric, number>>): AnomalySeverity =>
+  rule.escalate.reduce<AnomalySeverity>((severity, step) => {
+    const value = metrics[step.metric];
+    return value !== undefined && compare(value, step.operator, step.threshold) && SEVERITY_RANK[step.severity] > SEVERITY_RANK[severity]
+      ? step.severity
+      : severity;
+  }, rule.severity);
+
+const holds = (conditions: RuleCondition[], metrics: Partial<Record<RuleMetric, number>>): boolean =>
+  conditions.every(condition => {
+    const value = metrics[condition.metric];
+    return value !== undefined && compare(value, condition.operator, condition.threshold);
+  });
+
+// Exponentially weighted mean and variance. The weight never drops below 1/count, so until the
+// window's own weight takes over these are Welford's exact running mean and variance.
+export interface RunningStats {
+  count: number;
+  mean: number;
+  variance: number;
+}
+
+interface Sample {
+  time: number;
+  responseTime: number;
+  failed: boolean;
+}
+
+// Samples oldest first, with running totals so counts and the average need no rescan
+interface WindowCounter {
+  samples: Sample[];
+  errors: number;
+  sum: number;
+}
+
+interface PingRuleState {
+  kind: 'ping';
+  lastTime: number | null;
+  stats: RunningStats;
+  phases: Partial<Record<TimingPhase, RunningStats>>;
+  // Only kept when the rule uses the detector that needs them
+  recent?: Array<{ time: number; responseTime: number }>;
+  ewma?: number;
+  cusum?: number;
+  seasonal?: Record<number, RunningStats>;
+}
+
+// Per rule and monitor; plain JSON so it can be stored between restarts
+export type RuleState = PingRuleState | { kind: 'window'; windows: WindowCounter[] };
+
+export const createRuleState = (rule: Pick<AlertRule, 'when' | 'consecutive'>): RuleState => isPingRule(rule)
+  ? { kind: 'ping', lastTime: null, stats: { count: 0, mean: 0, variance: 0 }, phases: {} }
+  : { kind: 'window', windows: Array.from({ length: rule.consecutive }, () => ({ samples: [], errors: 0, sum: 0 })) };
+
+export const ruleFingerprint = (rule: Pick<AlertRule, 'id' | 'type'>, monitorId: number | null): string =>
+  incidentFingerprint(rule.type, monitorId, `rule-${rule.id}`);
+
+// A ping window weighs like an EWMA spanning that many pings; a time window decays with the time between pings
+const smoothing = (window: RuleWindow, elapsedMs: number): number =>
+  'pings' in window ? 2 / (window.pings + 1) : 1 - Math.exp(-Math.max(elapsedMs, 0) / (window.minutes * 60 * 1000));
+
+const updateStats = (stats: RunningStats, value: number, alpha: number): void => {
+  stats.count++;
+  const weight = Math.max(alpha, 1 / stats.count);
+  const diff = value - stats.mean;
+  const increment = weight * diff;
+  stats.mean += increment;
+  stats.variance = (1 - weight) * (stats.variance + diff * increment);
+};
+
+// The phase that grew the most over its running average, or null without timings or growth
+const regressedPhase = (
+  record: PingRecord,
+  phases: Partial<Record<TimingPhase, RunningStats>>
+): { phase: TimingPhase; value: number; baseline: number } | null => {
+  let regressed: { phase: TimingPhase; value: number; baseline: number } | null = null;
+
+  for (const [phase, field] of Object.entries(TIMING_PHASE_FIELDS) as Array<[TimingPhase, keyof PingRecord]>) {
+    const value = record[field];
+    const baseline = phases[phase]?.mean;
+    if (typeof value !== 'number' || baseline === undefined || value <= baseline) {
+      continue;
+    }
+    if (!regressed || value - baseline > regressed.value - regressed.baseline) {
+      regressed = { phase, value, baseline };
+    }
+  }
+
+  return regressed;
+};
+
+// Scales the MAD to a standard deviation for normally distributed response times
+const MAD_SCALE = 1.4826;
+const MAX_RECENT_SAMPLES = 2000;
+const EWMA_LAMBDA = 0.2;
+// Drift in standard deviations per ping that CUSUM tolerates before it accumulates
+const CUSUM_ALLOWANCE = 0.5;
+// Each hour of the week weighs like an EWMA over this many of its own pings
+const SEASONAL_SPAN = 50;
+const SEASONAL_MIN_SAMPLES = 3;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const hourOfWeek = (time: number): number => {
+  const date = new Date(time);
+  return date.getUTCDay() * 24 + date.getUTCHours();
+};
+
+// Response times are whole milliseconds, so a perfectly steady baseline still has a 1ms spread
+const spread = (stats: RunningStats): number => Math.max(Math.sqrt(stats.variance), 1);
+
+// What a detector compared the ping against; the rule threshold maps to center + threshold * scale
+interface Baseline {
+  value: number;
+  center: number;
+  scale: number;
+  describe: () => string;
+}
+
+// Scores the ping with every detector the rule uses, against the state before this ping
+const pingBaselines = (
+  state: PingRuleState,
+  record: PingRecord,
+  time: number,
+  used: Set<RuleMetric>
+): Partial<Record<PingMetric, Baseline>> => {
+  const { stats } = state;
+  const x = record.responseTime;
+  const stdDev = spread(stats);
+  const mean = stats.mean.toFixed(0);
+  const baselines: Partial<Record<PingMetric, Baseline>> = {
+    response_time: { value: x, center: 0, scale: 1, describe: () => `Response time ${x}ms` },
+    zscore: {
+      value: x,
+      center: stats.mean,
+      scale: stdDev,
+      describe: () => `Response time ${x}ms is ${((x - stats.mean) / stdDev).toFixed(2)} standard deviations above mean (${mean}ms)`
+    }
+  };
+
+  if (used.has('mad_score') && state.recent && state.recent.length > 0) {
+    const values = state.recent.map(sample => sample.responseTime);
+    const median = percentile(values, 50);
+    const mad = Math.max(percentile(values.map(value => Math.abs(value - median)), 50) * MAD_SCALE, 1);
+    baselines.mad_score = {
+      value: x,
+      center: median,
+      scale: mad,
+      describe: () => `Response time ${x}ms is ${((x - median) / mad).toFixed(2)} scaled MADs above the median (${median.toFixed(0)}ms)`
+    };
+  }
+
+  if (used.has('ewma_score') && state.ewma !== undefined) {
+    const ewma = EWMA_LAMBDA * x + (1 - EWMA_LAMBDA) * state.ewma;
+    const band = stdDev * Math.sqrt(EWMA_LAMBDA / (2 - EWMA_LAMBDA));
+    baselines.ewma_score = {
+      value: ewma,
+      center: stats.mean,
+      scale: band,
+      describe: () => `Smoothed response time ${ewma.toFixed(0)}ms is ${((ewma - stats.mean) / band).toFixed(2)} control band widths above mean (${mean}ms)`
+    };
+  }
+
+  if (used.has('cusum') && state.cusum !== undefined) {
+    const cusum = Math.max(0, state.cusum + (x - stats.mean) / stdDev - CUSUM_ALLOWANCE);
+    baselines.cusum = {
+      value: cusum,
+      center: 0,
+      scale: 1,
+      describe: () => `Response times are drifting above mean (${mean}ms), CUSUM ${cusum.toFixed(2)}`
+    };
+  }
+
+  const hour = hourOfWeek(time);
+  const seasonal = state.seasonal?.[hour];
+  if (used.has('seasonal_score') && seasonal && seasonal.count >= SEASONAL_MIN_SAMPLES) {
+    const seasonalSpread = spread(seasonal);
+    const slot = `${WEEKDAYS[Math.floor(hour / 24)]} ${String(hour % 24).padStart(2, '0')}:00 UTC`;
+    baselines.seasonal_score = {
+      value: x,
+      center: seasonal.mean,
+      scale: seasonalSpread,
+      describe: () => `Response time ${x}ms is ${((x - seasonal.mean) / seasonalSpread).toFixed(2)} standard deviations ` +
+        `above the usual level for ${slot} (${seasonal.mean.toFixed(0)}ms)`
+    };
+  }
+
+  return baselines;
+};
+
+// Folds the ping into the baselines once it has been scored
+const updatePingState = (
+  rule: AlertRule,
+  state: PingRuleState,
+  record: PingRecord,
+  time: number,
+  used: Set<RuleMetric>,
+  baselines: Partial<Record<PingMetric, Baseline>>
+): void => {
+  const x = record.responseTime;
+
+  if (used.has('mad_score')) {
+    const recent = state.recent ??= [];
+    recent.push({ time, responseTime: x });
+    const window = rule.window;
+    const kept = 'pings' in window
+      ? recent.slice(-window.pings)
+      : recent.filter(sample => sample.time > time - window.minutes * 60 * 1000);
+    state.recent = kept.slice(-MAX_RECENT_SAMPLES);
+  }
+  if (used.has('ewma_score')) {
+    state.ewma = baselines.ewma_score?.value ?? x;
+  }
+  if (used.has('cusum')) {
+    state.cusum = state.stats.count > 0 ? baselines.cusum?.value ?? 0 : 0;
+  }
+  if (used.has('seasonal_score')) {
+    const seasonal = state.seasonal ??= {};
+    updateStats(seasonal[hourOfWeek(time)] ??= { count: 0, mean: 0, variance: 0 }, x, 2 / (SEASONAL_SPAN + 1));
+  }
+
+  const alpha = smoothing(rule.window, state.lastTime === null ? 0 : time - state.lastTime);
+  updateStats(state.stats, x, alpha);
+  for (const [phase, field] of Object.entries(TIMING_PHASE_FIELDS) as Array<[TimingPhase, keyof PingRecord]>) {
+    const value = record[field];
+    if (typeof value === 'number') {
+      updateStats(state.phases[phase] ??= { count: 0, mean: 0, variance: 0 }, value, alpha);
+    }
+  }
+  state.lastTime = Math.max(state.lastTime ?? time, time);
+};
+
+// Each ping is checked against the baselines of the pings before it, then folded into them
+const observePing = (
+  rule: AlertRule,
+  state: PingRuleState,
+  record: PingRecord,
+  monitorId: number | null,
+  options: RuleEvaluationOptions
+): AnomalyFinding[] => {
+  const time = Date.parse(record.timestamp);
+  const used = new Set<RuleMetric>([...rule.when, ...rule.escalate].map(condition => condition.metric));
+  const baselines = pingBaselines(state, record, time, used);
+  const metrics: Partial<Record<PingMetric, number>> = {};
+  for (const [metric, baseline] of Object.entries(baselines) as Array<[PingMetric, Baseline]>) {
+    metrics[metric] = metric === 'response_time' || metric === 'cusum'
+      ? baseline.value
+      : (baseline.value - baseline.center) / baseline.scale;
+  }
+  const findings: AnomalyFinding[] = [];
+
+  if (state.stats.count > 0 && state.stats.count >= rule.minSamples && holds(rule.when, metrics)) {
+    const primary = rule.when[0] as RuleCondition & { metric: PingMetric };
+    const baseline = baselines[primary.metric]!;
+    const regression = regressedPhase(record, state.phases);
+    const fingerprint = ruleFingerprint(rule, monitorId);
+    const description = primary.metric === 'response_time'
+      ? `${baseline.describe()} ${primary.operator} ${formatNumber(primary.threshold)}ms`
+      : baseline.describe();
+
+    findings.push({
+      timestamp: record.timestamp,
+      type: rule.type,
+      severity: severityFor(rule, metrics),
+      value: baseline.value,
+      threshold: baseline.center + primary.threshold * baseline.scale,
+      message: description + (regression
+        ? `; ${PHASE_LABELS[regression.phase]} took ${regression.value.toFixed(0)}ms against an average of ${regression.baseline.toFixed(0)}ms`
+        : ''),
+      recordId: record.id,
+      monitorId,
+      phase: regression?.phase ?? null,
+      fingerprint,
+      dedupeKey: `${fingerprint}:record:${record.id}`,
+      active: options.now - time <= options.activeWithinMs
+    });
+  }
+
+  updatePingState(rule, state, record, time, used, baselines);
+  return findings;
+};
+
+const addSample = (counter: WindowCounter, sample: Sample): void => {
+  let index = counter.samples.length;
+  while (index > 0 && counter.samples[index - 1].time > sample.time) {
+    index--;
+  }
+  counter.samples.splice(index, 0, sample);
+  counter.errors += sample.failed ? 1 : 0;
+  counter.sum += sample.responseTime;
+};
+
+const removeOldest = (counter: WindowCounter): Sample => {
+  const sample = counter.samples.shift()!;
+  counter.errors -= sample.failed ? 1 : 0;
+  counter.sum -= sample.responseTime;
+  return sample;
+};
+
+const PERCENTILE_METRICS: Array<[WindowMetric, number]> = [['p50', 50], ['p90', 90], ['p95', 95], ['p99', 99]];
+
+// Percentiles and the maximum need the samples, so they are only computed when the rule uses them
+const windowMetrics = (counter: WindowCounter, used: Set<RuleMetric>): Partial<Record<WindowMetric, number>> => {
+  const count = counter.samples.length;
+  const metrics: Partial<Record<WindowMetric, number>> = {
+    count,
+    error_count: counter.errors,
+    error_rate: count > 0 ? (counter.errors / count) * 100 : 0,
+    avg: count > 0 ? counter.sum / count : 0
+  };
+
+  const responseTimes = counter.samples.map(sample => sample.responseTime);
+  for (const [metric, p] of PERCENTILE_METRICS) {
+    if (used.has(metric)) {
+      metrics[metric] = percentile(responseTimes, p);
+    }
+  }
+  if (used.has('max')) {
+    metrics.max = responseTimes.reduce((max, value) => Math.max(max, value), 0);
+  }
+
+  return metrics;
+};
+
+// Window 0 ends at the newest ping. Samples leaving a window move on to the one before it,
+// and leave the state once they fall out of the last one.
+const observeWindow = (
+  rule: AlertRule,
+  state: Extract<RuleState, { kind: 'window' }>,
+  record: PingRecord,
+  monitorId: number | null,
+  options: RuleEvaluationOptions
+): AnomalyFinding[] => {
+  const time = Date.parse(record.timestamp);
+  const { windows } = state;
+  const newest = windows[0].samples[windows[0].samples.length - 1];
+  const end = Math.max(time, newest?.time ?? time);
+  addSample(windows[0], { time, responseTime: record.responseTime, failed: isFailedRecord(record) });
+
+  windows.forEach((counter, index) => {
+    const expired = (): boolean => 'pings' in rule.window
+      ? counter.samples.length > rule.window.pings
+      : counter.samples[0].time <= end - (index + 1) * rule.window.minutes * 60 * 1000;
+    while (counter.samples.length > 0 && expired()) {
+      const sample = removeOldest(counter);
+      if (index + 1 < windows.length) {
+        addSample(windows[index + 1], sample);
+      }
+    }
+  });
+
+  const used = new Set<RuleMetric>([...rule.when, ...rule.escalate].map(condition => condition.metric));
+  const metrics = windows.map(counter => windowMetrics(counter, used));
+  const breached = windows.every((counter, index) =>
+    counter.samples.length > 0 && counter.samples.length >= rule.minSamples && holds(rule.when, metrics[index]));
+  if (!breached) {
+    return [];
+  }
+
+  const current = metrics[0];
+  const primary = rule.when[0] as RuleCondition & { metric: WindowMetric };
+  const value = current[primary.metric]!;
+  const fingerprint = ruleFingerprint(rule, monitorId);
+  const failures = ['error_count', 'error_rate'].includes(primary.metric)
+    ? ` (${current.error_count}/${current.count} requests failed)`
+    : '';
+
+  return [{
+    timestamp: record.timestamp,
+    type: rule.type,
+    severity: severityFor(rule, current),
+    value,
+    threshold: primary.threshold,
+    message: `${rule.name}: ${primary.metric} ${formatNumber(value)}${METRIC_UNITS[primary.metric]}` +
+      ` over ${formatWindow(rule.window)}${failures}`,
+    monitorId,
+    fingerprint,
+    dedupeKey: `${fingerprint}:through:${record.id}`,
+    active: options.now - time <= options.activeWithinMs
+  }];
+};
+
+// Feeds one new record of the monitor into the rule's state and returns what it found
+export function observeRule(
+  rule: AlertRule,
+  state: RuleState,
+  record: PingRecord,
+  monitorId: number | null,
+  options: RuleEvaluationOptions
+): AnomalyFinding[] {
+  if (!rule.enabled || (rule.monitorId !== null && rule.monitorId !== monitorId)) {
+    return [];
+  }
+
+  return state.kind === 'ping'
+    ? observePing(rule, state, record, monitorId, options)
+    : observeWindow(rule, state, record, monitorId, options);
+}
+
+// Replays records through a fresh state in the order they were taken
+export function evaluateRule(
+  rule: AlertRule,
+  records: PingRecord[],
+  monitorId: number | null,
+  options: RuleEvaluationOptions
+): AnomalyFinding[] {
+  const state = createRuleState(rule);
+  return [...records]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || (a.id ?? 0) - (b.id ?? 0))
+    .flatMap(record => observeRule(rule, state, record, monitorId, options));
+}
@@ -1,18 +1,16 @@
 import { Server } from 'socket.io';
-import { DatabaseService, PingRecord } from './database';
+import { DatabaseService, DetectorState, PingRecord, Settings } from './database';
+import { isFailedRecord } from './assertions';
+import { AnomalyFinding, IncidentService } from './incidents';
+import { AlertRule, createRuleState, describeRule, observeRule, ruleFingerprint, ruleLookbackMinutes } from './alertRules';
+import { NotificationService } from './notifications';
+import { SloService } from './slo';
 import { logger } from '../utils/logger';
+import { percentile } from '../utils/statistics';
+import { readNumberEnv } from '../utils/env';
+import { failSpan, withSpan } from '../utils/tracing';
 
-interface AnomalyData {
-  timestamp: string;
-  type: 'response_time' | 'status_code' | 'error_rate';
-  severity: 'low' | 'medium' | 'high';
-  value: number;
-  threshold: number;
-  message: string;
-  recordId?: number;
-}
-
-interface RollingStats {
+export interface RollingStats {
   mean: number;
   stdDev: number;
   min: number;
@@ -20,45 +18,66 @@ interface RollingStats {
   count: number;
 }
 
-const DEFAULT_ANALYSIS_INTERVAL = 10 * 60 * 1000; // 10 minutes
-const DEFAULT_Z_SCORE_THRESHOLD = 2.5; // Standard deviations from mean
-const DEFAULT_RESPONSE_TIME_THRESHOLD = 5000; // 5 seconds
+export interface AnomalyStats {
+  windowMinutes: number;
+  monitorId: number | null;
+  responseTimeStats: RollingStats & { p50: number; p90: number; p99: number };
+  errorRate: number;
+  totalRequests: number;
+  // Enabled alert rules that apply to the monitor
+  rules: Array<{ id: number; name: string; description: string }>;
+  analysisInterval: number;
+  lastAnalysisAt: string | null;
+}
+
+export const DEFAULT_ANALYSIS_INTERVAL = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_LOOKBACK_MINUTES = 24 * 60; // History a new detector learns from; longer time windows extend it
+const CATCH_UP_BATCH = 500;
 
-const readNumberEnv = (key: string, fallback: number): number => {
-  const raw = process.env[key];
-  if (!raw) return fallback;
-  const parsed = Number(raw);
-  return Number.isFinite(parsed) ? parsed : fallback;
-};
+const detectorKey = (ruleId: number, monitorId: number | null): string => `${ruleId}:${monitorId ?? 'default'}`;
 
+// Every alert rule keeps an incremental detector per monitor. PingService feeds each new record
+// through observe(), so anomalies go out as the ping is stored; the periodic catch-up only picks up
+// records that arrived some other way, e.g. while the service was down, and checks SLO burn rates.
 export class AnomalyDetectionService {
   private interval: NodeJS.Timeout | null = null;
-  private readonly ANALYSIS_INTERVAL: number;
-  private readonly Z_SCORE_THRESHOLD: number;
-  private readonly RESPONSE_TIME_THRESHOLD: number;
+  // From the environment until applySettings() hands over the stored settings
+  private analysisInterval: number;
+  private readonly incidentService: IncidentService;
+  private readonly sloService: SloService;
+  private lastAnalysisAt: string | null = null;
+  private startedAt: string | null = null;
+  private detectors: Map<string, DetectorState> | null = null;
+  // Newest record the catch-up has read; records are only ever fed to a detector once
+  private checkpoint: number | null = null;
+  // Records are observed one at a time so detector state is never updated concurrently
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(
     private databaseService: DatabaseService,
-    private io: Server
+    private io: Server,
+    notificationService?: NotificationService
   ) {
-    this.ANALYSIS_INTERVAL = readNumberEnv('ANALYSIS_INTERVAL', DEFAULT_ANALYSIS_INTERVAL);
-    this.Z_SCORE_THRESHOLD = readNumberEnv('Z_SCORE_THRESHOLD', DEFAULT_Z_SCORE_THRESHOLD);
-    this.RESPONSE_TIME_THRESHOLD = readNumberEnv('RESPONSE_TIME_THRESHOLD', DEFAULT_RESPONSE_TIME_THRESHOLD);
+    this.incidentService = new IncidentService(databaseService, io, notificationService);
+    this.sloService = new SloService(databaseService);
+    this.analysisInterval = readNumberEnv('ANALYSIS_INTERVAL', DEFAULT_ANALYSIS_INTERVAL);
   }
 
   start(): void {
     logger.info('Starting anomaly detection service');
+    this.startedAt = new Date().toISOString();
     
-    // Run analysis immediately on start
-    this.performAnalysis();
+    // Catch up on records stored while the service was down
+    this.catchUp();
     
-    // Set up periodic analysis
+    // Set up periodic catch-up
     this.interval = setInterval(() => {
-      this.performAnalysis();
-    }, this.ANALYSIS_INTERVAL);
+      this.catchUp();
+    }, this.analysisInterval);
   }
 
   stop(): void {
+    this.startedAt = null;
     if (this.interval) {
       clearInterval(this.interval);
       this.interval = null;
@@ -66,101 +85,170 @@ export class AnomalyDetectionService {
     }
   }
 
-  private async performAnalysis(): Promise<void> {
-    try {
-      logger.info('Performing anomaly analysis');
-      
-      // Get recent records for analysis (last 24 hours)
-      const recentRecords = await this.databaseService.getRecentRecords(24 * 60);
-      
-      if (recentRecords.length < 10) {
-        logger.info('Insufficient data for anomaly analysis');
-        return;
-      }
+  // Takes effect without a restart by restarting the catch-up schedule
+  applySettings(settings: Pick<Settings, 'analysisInterval'>): void {
+    if (settings.analysisInterval === this.analysisInterval) {
+      return;
+    }
+    this.analysisInterval = settings.analysisInterval;
 
-      // Analyze response times
-      await this.analyzeResponseTimes(recentRecords);
-      
-      // Analyze status codes
-      await this.analyzeStatusCodes(recentRecords);
-      
-      // Analyze error rates
-      await this.analyzeErrorRates(recentRecords);
-      
-      logger.info('Anomaly analysis completed');
-      
-    } catch (error) {
-      logger.error('Error during anomaly analysis:', error);
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = setInterval(() => {
+        this.catchUp();
+      }, this.analysisInterval);
+      logger.info(`Anomaly detection catches up every ${this.analysisInterval}ms`);
     }
   }
 
-  private async analyzeResponseTimes(records: PingRecord[]): Promise<void> {
-    const responseTimes = records.map(r => r.responseTime);
-    const stats = this.calculateRollingStats(responseTimes);
-    
-    // Check for outliers using z-score
+  // The periodic catch-up, for readiness checks; lastAnalysisAt moves with every successful catch-up
+  status(): { running: boolean; interval: number; startedAt: string | null; lastAnalysisAt: string | null } {
+    return {
+      running: this.interval !== null,
+      interval: this.analysisInterval,
+      startedAt: this.startedAt,
+      lastAnalysisAt: this.lastAnalysisAt
+    };
+  }
+
+  // Runs a newly stored record through the detectors of its monitor; never throws
+  async observe(record: PingRecord): Promise<void> {
+    await this.enqueue(async () => {
+      try {
+        await withSpan('anomaly.observe', { 'ping.record_id': record.id }, () => this.observeRecords([record]));
+      } catch (error) {
+        logger.error(`Error detecting anomalies for record ${record.id}:`, error);
+      }
+    });
+  }
+
+  // Manual catch-up trigger for testing
+  async analyzeOnce(): Promise<void> {
+    await this.catchUp();
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async catchUp(): Promise<void> {
+    await this.enqueue(() => withSpan('anomaly.catch_up', {}, async span => {
+      try {
+        const detectors = await this.loadDetectors();
+        const since = new Date(Date.now() - DEFAULT_LOOKBACK_MINUTES * 60 * 1000).toISOString();
+        let afterId = this.checkpoint ?? Math.max(0, ...Array.from(detectors.values(), detector => detector.lastRecordId));
+        let caughtUp = 0;
+
+        for (;;) {
+          const records = await this.databaseService.getRecordsInOrder({ afterId, since, limit: CATCH_UP_BATCH });
+          caughtUp += await this.observeRecords(records);
+          afterId = records.length > 0 ? records[records.length - 1].id! : afterId;
+          if (records.length < CATCH_UP_BATCH) {
+            break;
+          }
+        }
+
+        this.checkpoint = afterId;
+        span.setAttribute('anomaly.records', caughtUp);
+        if (caughtUp > 0) {
+          logger.info(`Anomaly detection caught up on ${caughtUp} records`);
+        }
+
+        // SLO burn rates span many records, so they are checked here rather than per ping
+        const now = Date.now();
+        await withSpan('anomaly.slo_burn_rates', {}, async () => {
+          const { findings, scope } = await this.sloService.evaluateBurnRates(now);
+          if (scope.size > 0) {
+            await this.incidentService.process(findings, new Date(now).toISOString(), scope);
+          }
+        });
+        this.lastAnalysisAt = new Date(now).toISOString();
+      } catch (error) {
+        failSpan(span, error);
+        logger.error('Error during anomaly detection catch-up:', error);
+      }
+    }));
+  }
+
+  // Feeds records, oldest first, to every detector that has not seen them; returns how many were new to one
+  private async observeRecords(records: PingRecord[]): Promise<number> {
+    if (records.length === 0) {
+      return 0;
+    }
+
+    const rules = (await this.databaseService.getAlertRules()).filter(rule => rule.enabled);
+    let observed = 0;
+
     for (const record of records) {
-      const zScore = Math.abs((record.responseTime - stats.mean) / stats.stdDev);
-      
-      if (zScore > this.Z_SCORE_THRESHOLD && record.responseTime > this.RESPONSE_TIME_THRESHOLD) {
-        const anomaly: AnomalyData = {
-          timestamp: record.timestamp,
-          type: 'response_time',
-          severity: zScore > 3.5 ? 'high' : zScore > 3.0 ? 'medium' : 'low',
-          value: record.responseTime,
-          threshold: stats.mean + (this.Z_SCORE_THRESHOLD * stats.stdDev),
-          message: `Response time ${record.responseTime}ms is ${zScore.toFixed(2)} standard deviations above mean (${stats.mean.toFixed(0)}ms)`,
-          recordId: record.id
-        };
-        
-        await this.broadcastAnomaly(anomaly);
+      const monitorId = record.monitorId ?? null;
+      const now = Date.now();
+      const options = { now, activeWithinMs: this.analysisInterval };
+      const findings: AnomalyFinding[] = [];
+      const scope = new Set<string>();
+
+      await withSpan('anomaly.detect', { 'ping.record_id': record.id }, async span => {
+        for (const rule of rules.filter(rule => rule.monitorId === null || rule.monitorId === monitorId)) {
+          const detector = await this.detectorFor(rule, monitorId, record);
+          if (record.id! <= detector.lastRecordId) {
+            continue;
+          }
+
+          findings.push(...observeRule(rule, detector.state, record, monitorId, options));
+          scope.add(ruleFingerprint(rule, monitorId));
+          detector.lastRecordId = record.id!;
+          await this.databaseService.saveDetectorState(detector);
+        }
+        span.setAttributes({ 'anomaly.rules': scope.size, 'anomaly.findings': findings.length });
+      });
+
+      if (scope.size > 0) {
+        // Incidents of this monitor's rules open, update or resolve with each record
+        await withSpan('anomaly.incidents', {}, () => this.incidentService.process(findings, new Date(now).toISOString(), scope));
+        this.lastAnalysisAt = new Date(now).toISOString();
+        observed++;
       }
     }
+
+    return observed;
   }
 
-  private async analyzeStatusCodes(records: PingRecord[]): Promise<void> {
-    const recentRecords = records.slice(-20); // Last 20 records
-    const errorCodes = recentRecords.filter(r => r.statusCode >= 400);
-    
-    // If we have multiple error codes in recent requests
-    if (errorCodes.length >= 3) {
-      const errorRate = (errorCodes.length / recentRecords.length) * 100;
-      
-      const anomaly: AnomalyData = {
-        timestamp: new Date().toISOString(),
-        type: 'status_code',
-        severity: errorRate >= 50 ? 'high' : errorRate >= 25 ? 'medium' : 'low',
-        value: errorRate,
-        threshold: 20, // 20% error rate threshold
-        message: `High error rate detected: ${errorCodes.length}/${recentRecords.length} requests failed (${errorRate.toFixed(1)}%)`
-      };
-      
-      await this.broadcastAnomaly(anomaly);
+  private async loadDetectors(): Promise<Map<string, DetectorState>> {
+    if (!this.detectors) {
+      const states = await this.databaseService.getDetectorStates();
+      this.detectors = new Map(states.map(state => [detectorKey(state.ruleId, state.monitorId), state]));
     }
+    return this.detectors;
   }
 
-  private async analyzeErrorRates(records: PingRecord[]): Promise<void> {
-    // Group records by hour to analyze error rate trends
-    const hourlyData = this.groupByHour(records);
-    
-    for (const [hour, hourRecords] of Object.entries(hourlyData)) {
-      const errorCount = hourRecords.filter(r => r.statusCode >= 400).length;
-      const errorRate = (errorCount / hourRecords.length) * 100;
-      
-      // If error rate for any hour is unusually high
-      if (errorRate > 30 && hourRecords.length >= 5) {
-        const anomaly: AnomalyData = {
-          timestamp: hour,
-          type: 'error_rate',
-          severity: errorRate >= 50 ? 'high' : 'medium',
-          value: errorRate,
-          threshold: 30,
-          message: `Elevated error rate in ${hour}: ${errorCount}/${hourRecords.length} requests failed (${errorRate.toFixed(1)}%)`
-        };
-        
-        await this.broadcastAnomaly(anomaly);
-      }
+  // A rule new to the monitor, or changed since its state was saved, first learns from the records before this one
+  private async detectorFor(rule: AlertRule, monitorId: number | null, record: PingRecord): Promise<DetectorState> {
+    const detectors = await this.loadDetectors();
+    const key = detectorKey(rule.id, monitorId);
+    const existing = detectors.get(key);
+    if (existing && existing.ruleUpdatedAt === rule.updatedAt) {
+      return existing;
     }
+
+    const lookbackMinutes = Math.max(DEFAULT_LOOKBACK_MINUTES, ruleLookbackMinutes(rule));
+    const history = await this.databaseService.getRecordsInOrder({
+      monitorId,
+      beforeId: record.id,
+      since: new Date(Date.parse(record.timestamp) - lookbackMinutes * 60 * 1000).toISOString()
+    });
+    const state = createRuleState(rule);
+    history.forEach(past => observeRule(rule, state, past, monitorId, { now: Date.now(), activeWithinMs: 0 }));
+
+    const detector: DetectorState = {
+      ruleId: rule.id,
+      monitorId,
+      ruleUpdatedAt: rule.updatedAt,
+      lastRecordId: history.length > 0 ? history[history.length - 1].id! : 0,
+      state
+    };
+    detectors.set(key, detector);
+    return detector;
   }
 
   private calculateRollingStats(values: number[]): RollingStats {
@@ -177,49 +265,31 @@ export class AnomalyDetectionService {
     };
   }
 
-  private groupByHour(records: PingRecord[]): Record<string, PingRecord[]> {
-    const grouped: Record<string, PingRecord[]> = {};
-    
-    for (const record of records) {
-      const hour = record.timestamp.substring(0, 13); // YYYY-MM-DDTHH
-      if (!grouped[hour]) {
-        grouped[hour] = [];
-      }
-      grouped[hour].push(record);
-    }
-    
-    return grouped;
-  }
-
-  private async broadcastAnomaly(anomaly: AnomalyData): Promise<void> {
-    logger.warn(`Anomaly detected: ${anomaly.message}`);
-    
-    // Broadcast to all connected clients
-    this.io.emit('anomaly', anomaly);
-    
-    // Store anomaly in database (optional - could add a separate anomalies table)
-    // For now, we'll just broadcast and log
-  }
-
-  // Manual analysis trigger for testing
-  async analyzeOnce(): Promise<void> {
-    await this.performAnalysis();
-  }
-
   // Get current statistics for API endpoint
-  async getCurrentStats(): Promise<{
-    responseTimeStats: RollingStats;
-    errorRate: number;
-    totalRequests: number;
-  }> {
-    const recentRecords = await this.databaseService.getRecentRecords(60); // Last hour
+  async getCurrentStats(windowMinutes: number = 60, monitorId?: number): Promise<AnomalyStats> {
+    const recentRecords = await this.databaseService.getRecentRecords(windowMinutes, monitorId);
+    const rules = (await this.databaseService.getAlertRules())
+      .filter(rule => rule.enabled && (rule.monitorId === null || rule.monitorId === (monitorId ?? null)));
     const responseTimes = recentRecords.map(r => r.responseTime);
-    const errorCount = recentRecords.filter(r => r.statusCode >= 400).length;
+    const errorCount = recentRecords.filter(isFailedRecord).length;
+    const rollingStats = responseTimes.length > 0
+      ? this.calculateRollingStats(responseTimes)
+      : { mean: 0, stdDev: 0, min: 0, max: 0, count: 0 };
     
     return {
-      responseTimeStats: this.calculateRollingStats(responseTimes),
+      windowMinutes,
+      monitorId: monitorId ?? null,
+      responseTimeStats: {
+        ...rollingStats,
+        p50: percentile(responseTimes, 50),
+        p90: percentile(responseTimes, 90),
+        p99: percentile(responseTimes, 99)
+      },
       errorRate: recentRecords.length > 0 ? (errorCount / recentRecords.length) * 100 : 0,
-      totalRequests: recentRecords.length
+      totalRequests: recentRecords.length,
+      rules: rules.map(rule => ({ id: rule.id, name: rule.name, description: describeRule(rule) })),
+      analysisInterval: this.analysisInterval,
+      lastAnalysisAt: this.lastAnalysisAt
     };
   }
 }
@@ -0,0 +1,66 @@
+import { createHash, randomBytes } from 'crypto';
+import { DatabaseService } from './database';
+
+// read: every GET and the backtest; trigger: manual pings and acknowledgements; admin: everything
+export type ApiKeyScope = 'read' | 'trigger' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'trigger', 'admin'];
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  // The first characters of the key, enough to tell keys apart in a list
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+const KEY_PREFIX = 'hbm_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+// last_used_at is written at most this often per key, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Keys are 192 random bits, so a fast unsalted hash is enough to keep them unusable if the table leaks
+export const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+export const hasScope = (scopes: ApiKeyScope[], required: ApiKeyScope): boolean =>
+  scopes.includes(required) || scopes.includes('admin');
+
+export class ApiKeyService {
+  constructor(private databaseService: DatabaseService) {}
+
+  // The plain key is only ever returned here; the database keeps its hash
+  async create(input: ApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+    const apiKey = await this.databaseService.createApiKey({
+      ...input,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key)
+    });
+    return { apiKey, key };
+  }
+
+  // The stored key a presented one belongs to, or null
+  async verify(key: string): Promise<ApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+    const apiKey = await this.databaseService.getApiKeyByHash(hashApiKey(key));
+    if (!apiKey) {
+      return null;
+    }
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - Date.parse(apiKey.lastUsedAt) >= LAST_USED_RESOLUTION_MS) {
+      apiKey.lastUsedAt = now.toISOString();
+      await this.databaseService.touchApiKey(apiKey.id, apiKey.lastUsedAt);
+    }
+    return apiKey;
+  }
+}
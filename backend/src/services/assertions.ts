@@ -0,0 +1,157 @@
+import { isDeepStrictEqual } from 'util';
+import { PingRecord } from './database';
+
+export type Assertion =
+  | { type: 'status'; expected: number[] }
+  | { type: 'json_path'; path: string; equals: unknown }
+  | { type: 'body_regex'; pattern: string }
+  | { type: 'header'; name: string; equals?: string; pattern?: string }
+  | { type: 'response_time'; max: number };
+
+export interface AssertionResult {
+  type: Assertion['type'];
+  passed: boolean;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+// The parts of a response that assertions can look at; null when the request got no response at all
+export interface AssertableResponse {
+  status: number;
+  data: unknown;
+  headers: Record<string, unknown>;
+  responseTime: number;
+}
+
+const JSON_PATH_TOKEN = /\.([^.[\]]+)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/g;
+
+// Parses the JSONPath subset we support: $, .key, ['key'] and [index]
+export function parseJsonPath(path: string): Array<string | number> {
+  if (!path.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+
+  const segments: Array<string | number> = [];
+  let consumed = 1;
+
+  for (const match of Array.from(path.slice(1).matchAll(JSON_PATH_TOKEN))) {
+    if (match.index !== consumed - 1) {
+      break;
+    }
+    const [token, dotKey, index, singleQuoted, doubleQuoted] = match;
+    segments.push(index !== undefined ? Number(index) : (dotKey ?? singleQuoted ?? doubleQuoted));
+    consumed += token.length;
+  }
+
+  if (consumed !== path.length) {
+    throw new Error(`Unsupported JSONPath syntax: ${path}`);
+  }
+
+  return segments;
+}
+
+const readJsonPath = (data: unknown, path: string): { found: boolean; value?: unknown } => {
+  let current: unknown = data;
+
+  for (const segment of parseJsonPath(path)) {
+    if (current === null || typeof current !== 'object' || !(segment in (current as object))) {
+      return { found: false };
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+
+  return { found: true, value: current };
+};
+
+const bodyText = (data: unknown): string => typeof data === 'string' ? data : JSON.stringify(data ?? '');
+
+function evaluateAssertion(assertion: Assertion, response: AssertableResponse | null): AssertionResult {
+  if (!response) {
+    return { type: assertion.type, passed: false, message: 'No response received' };
+  }
+
+  switch (assertion.type) {
+    case 'status': {
+      const passed = assertion.expected.includes(response.status);
+      return {
+        type: 'status',
+        passed,
+        message: passed
+          ? `Status ${response.status} is expected`
+          : `Status ${response.status} is not one of ${assertion.expected.join(', ')}`,
+        expected: assertion.expected,
+        actual: response.status
+      };
+    }
+
+    case 'json_path': {
+      const { found, value } = readJsonPath(response.data, assertion.path);
+      const passed = found && isDeepStrictEqual(value, assertion.equals);
+      return {
+        type: 'json_path',
+        passed,
+        message: !found
+          ? `${assertion.path} not found in response body`
+          : passed
+            ? `${assertion.path} equals expected value`
+            : `${assertion.path} is ${JSON.stringify(value)}, expected ${JSON.stringify(assertion.equals)}`,
+        expected: assertion.equals,
+        actual: value
+      };
+    }
+
+    case 'body_regex': {
+      const passed = new RegExp(assertion.pattern).test(bodyText(response.data));
+      return {
+        type: 'body_regex',
+        passed,
+        message: passed
+          ? `Body matches /${assertion.pattern}/`
+          : `Body does not match /${assertion.pattern}/`,
+        expected: assertion.pattern
+      };
+    }
+
+    case 'header': {
+      const raw = response.headers[assertion.name.toLowerCase()];
+      const actual = raw === undefined || raw === null ? undefined : String(raw);
+      const passed = actual !== undefined &&
+        (assertion.equals === undefined || actual === assertion.equals) &&
+        (assertion.pattern === undefined || new RegExp(assertion.pattern).test(actual));
+      return {
+        type: 'header',
+        passed,
+        message: actual === undefined
+          ? `Header ${assertion.name} is missing`
+          : passed
+            ? `Header ${assertion.name} matches`
+            : `Header ${assertion.name} is "${actual}"`,
+        expected: assertion.equals ?? assertion.pattern,
+        actual
+      };
+    }
+
+    case 'response_time': {
+      const passed = response.responseTime <= assertion.max;
+      return {
+        type: 'response_time',
+        passed,
+        message: passed
+          ? `Response time ${response.responseTime}ms is within ${assertion.max}ms`
+          : `Response time ${response.responseTime}ms exceeds ${assertion.max}ms`,
+        expected: assertion.max,
+        actual: response.responseTime
+      };
+    }
+  }
+}
+
+export function evaluateAssertions(assertions: Assertion[], response: AssertableResponse | null): AssertionResult[] {
+  return assertions.map(assertion => evaluateAssertion(assertion, response));
+}
+
+// A record is a failure when the HTTP status is an error or one of its assertions failed
+export function isFailedRecord(record: Pick<PingRecord, 'statusCode' | 'assertionStatus'>): boolean {
+  return record.statusCode >= 400 || record.assertionStatus === 'failed';
+}
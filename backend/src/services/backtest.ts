@@ -0,0 +1,218 @@
+import { AlertRule, AlertRuleInput, defaultRuleType, describeRule, evaluateRule } from './alertRules';
+import { AnomalySeverity, PingRecord } from './database';
+
+export interface BacktestFinding {
+  timestamp: string;
+  recordId?: number;
+  severity: AnomalySeverity;
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+export interface BacktestResult {
+  rule: { id: number | null; name: string; description: string };
+  flagged: number;
+  bySeverity: Record<AnomalySeverity, number>;
+  // Oldest first
+  findings: BacktestFinding[];
+}
+
+const detectorRule = (name: string, metric: AlertRuleInput['when'][number]['metric'], threshold: number): AlertRuleInput => ({
+  name,
+  enabled: true,
+  monitorId: null,
+  type: 'response_time',
+  when: [{ metric, operator: '>', threshold }],
+  window: { minutes: 24 * 60 },
+  consecutive: 1,
+  minSamples: 10,
+  severity: 'medium',
+  escalate: []
+});
+
+// One rule per response time detector at its customary threshold, to compare them on the same records
+export const DETECTOR_RULES: AlertRuleInput[] = [
+  detectorRule('Z-score', 'zscore', 3),
+  detectorRule('Median/MAD', 'mad_score', 3.5),
+  detectorRule('EWMA control band', 'ewma_score', 3),
+  detectorRule('CUSUM drift', 'cusum', 5),
+  detectorRule('Hour-of-week seasonal', 'seasonal_score', 3)
+];
+
+// The seeded "Response time outlier" rule with candidate thresholds, for tuning Z_SCORE_THRESHOLD and
+// RESPONSE_TIME_THRESHOLD
+export const outlierRule = (zScore: number, responseTime: number): AlertRuleInput => ({
+  name: `Response time outlier (z > ${zScore}, > ${responseTime}ms)`,
+  enabled: true,
+  monitorId: null,
+  type: 'response_time',
+  when: [
+    { metric: 'zscore', operator: '>', threshold: zScore },
+    { metric: 'response_time', operator: '>', threshold: responseTime }
+  ],
+  window: { minutes: 24 * 60 },
+  consecutive: 1,
+  minSamples: 10,
+  severity: 'low',
+  escalate: [
+    { metric: 'zscore', operator: '>', threshold: 3.0, severity: 'medium' },
+    { metric: 'zscore', operator: '>', threshold: 3.5, severity: 'high' }
+  ]
+});
+
+// A rule that was never stored has no id; its type defaults from the first metric like a stored rule's
+export const draftRule = (input: Omit<AlertRuleInput, 'type'> & { type?: AlertRuleInput['type'] }): AlertRule => ({
+  ...input,
+  type: input.type ?? defaultRuleType(input.when[0].metric),
+  id: 0,
+  createdAt: '',
+  updatedAt: ''
+});
+
+// Replays the records of one monitor through fresh detectors. Rules are run whether or not they are
+// enabled, and on these records regardless of the monitor they are scoped to.
+export function backtest(rules: AlertRule[], records: PingRecord[], monitorId: number | null): BacktestResult[] {
+  return rules.map(rule => {
+    const findings = evaluateRule({ ...rule, enabled: true, monitorId: null }, records, monitorId, {
+      now: Date.now(),
+      activeWithinMs: Infinity
+    });
+    const bySeverity: Record<AnomalySeverity, number> = { low: 0, medium: 0, high: 0 };
+    findings.forEach(finding => bySeverity[finding.severity]++);
+
+    return {
+      rule: { id: rule.id || null, name: rule.name, description: describeRule(rule) },
+      flagged: findings.length,
+      bySeverity,
+      findings: findings.map(finding => ({
+        timestamp: finding.timestamp,
+        recordId: finding.recordId,
+        severity: finding.severity,
+        value: finding.value,
+        threshold: finding.threshold,
+        message: finding.message
+      }))
+    };
+  });
+}
+
+// A known incident, for scoring how well rules find it
+export interface LabeledIncident {
+  start: string;
+  end: string;
+  name?: string;
+}
+
+export interface BacktestEvaluation {
+  // Findings inside a labeled incident, and outside every one
+  truePositives: number;
+  falsePositives: number;
+  // Labeled incidents with at least one finding, and without
+  detected: number;
+  missed: number;
+  // null when there is nothing to divide by
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface TimelineBucket {
+  start: string;
+  total: number;
+  low: number;
+  medium: number;
+  high: number;
+}
+
+const ratio = (part: number, whole: number): number | null => (whole === 0 ? null : part / whole);
+
+const within = (finding: BacktestFinding, label: LabeledIncident): boolean =>
+  finding.timestamp >= new Date(label.start).toISOString() && finding.timestamp <= new Date(label.end).toISOString();
+
+export function evaluateFindings(findings: BacktestFinding[], labels: LabeledIncident[]): BacktestEvaluation {
+  const truePositives = findings.filter(finding => labels.some(label => within(finding, label))).length;
+  const detected = labels.filter(label => findings.some(finding => within(finding, label))).length;
+
+  return {
+    truePositives,
+    falsePositives: findings.length - truePositives,
+    detected,
+    missed: labels.length - detected,
+    precision: ratio(truePositives, findings.length),
+    recall: ratio(detected, labels.length)
+  };
+}
+
+// Findings per bucket from `from` to `to`, including the empty buckets
+export function findingTimeline(findings: BacktestFinding[], from: Date, to: Date, bucketMinutes: number): TimelineBucket[] {
+  const bucketMs = bucketMinutes * 60 * 1000;
+  const first = Math.floor(from.getTime() / bucketMs);
+  const last = Math.floor(to.getTime() / bucketMs);
+  const buckets: TimelineBucket[] = [];
+  for (let bucket = first; bucket <= last; bucket++) {
+    buckets.push({ start: new Date(bucket * bucketMs).toISOString(), total: 0, low: 0, medium: 0, high: 0 });
+  }
+
+  for (const finding of findings) {
+    const entry = buckets[Math.floor(Date.parse(finding.timestamp) / bucketMs) - first];
+    if (entry) {
+      entry.total++;
+      entry[finding.severity]++;
+    }
+  }
+  return buckets;
+}
+
+const isRecord = (row: unknown): row is Record<string, unknown> => typeof row === 'object' && row !== null && !Array.isArray(row);
+
+// Reads ping records exported as a JSON array, a saved `{ "data": [...] }` API response or NDJSON.
+// Records without an id are numbered in file order.
+export function parseRecords(text: string): PingRecord[] {
+  let rows: unknown[];
+  let lineOf = (index: number): string => `Record ${index + 1}`;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    rows = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.data) ? parsed.data : [parsed];
+  } catch {
+    const lines = text.split(/\r?\n/).map((line, index) => ({ line, index })).filter(({ line }) => line.trim() !== '');
+    rows = lines.map(({ line, index }) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1}: not valid JSON`);
+      }
+    });
+    lineOf = (index: number): string => `Line ${lines[index].index + 1}`;
+  }
+
+  return rows.map((row, index) => {
+    if (!isRecord(row) || typeof row.timestamp !== 'string' || Number.isNaN(Date.parse(row.timestamp))) {
+      throw new Error(`${lineOf(index)}: expected a ping record with an ISO "timestamp"`);
+    }
+    if (typeof row.statusCode !== 'number' || typeof row.responseTime !== 'number') {
+      throw new Error(`${lineOf(index)}: "statusCode" and "responseTime" must be numbers`);
+    }
+    return {
+      requestPayload: '{}',
+      responseData: '{}',
+      ...row,
+      id: typeof row.id === 'number' ? row.id : index + 1,
+      timestamp: new Date(row.timestamp).toISOString()
+    } as PingRecord;
+  });
+}
+
+// Labels are a JSON array of `{ "start", "end", "name"? }`
+export function parseLabels(text: string): LabeledIncident[] {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Labels must be a JSON array of { "start", "end", "name" }');
+  }
+  return parsed.map((label, index) => {
+    if (!isRecord(label) || typeof label.start !== 'string' || typeof label.end !== 'string' ||
+      Number.isNaN(Date.parse(label.start)) || Number.isNaN(Date.parse(label.end))) {
+      throw new Error(`Label ${index + 1}: "start" and "end" must be ISO timestamps`);
+    }
+    return { start: label.start, end: label.end, name: typeof label.name === 'string' ? label.name : undefined };
+  });
+}
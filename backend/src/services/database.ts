@@ -1,5 +1,14 @@
-import sqlite3 from 'sqlite3';
 import { logger } from '../utils/logger';
+import { withSpan } from '../utils/tracing';
+import { Assertion } from './assertions';
+import { AlertRule, AlertRuleInput, RuleState } from './alertRules';
+import { Slo, SloInput } from './slo';
+import { ApiKey, ApiKeyInput } from './apiKeys';
+import { User, UserRole } from './users';
+import { percentile } from '../utils/statistics';
+import { readNumberEnv } from '../utils/env';
+import { MigrationRunner } from '../migrations';
+import { PingRecordFilters, PingRecordRange, StorageAdapter, createStorageAdapter } from '../storage';
 
 export interface PingRecord {
   id: number;
@@ -11,340 +20,1627 @@ export interface PingRecord {
   contentType?: string;
   contentLength?: number;
   requestType?: 'manual' | 'auto';
+  monitorId?: number | null;
+  // 'passed'/'failed' when the monitor has assertions; results are a JSON-encoded AssertionResult[]
+  assertionStatus?: 'passed' | 'failed' | null;
+  assertionResults?: string | null;
+  // Request phases in ms, see TIMING_PHASE_FIELDS; null when a phase did not happen or was never reached
+  dnsTime?: number | null;
+  tcpTime?: number | null;
+  tlsTime?: number | null;
+  ttfbTime?: number | null;
+  downloadTime?: number | null;
+  // The OpenTelemetry trace of the ping, also sent to the target as traceparent
+  traceId?: string | null;
 }
 
-export class DatabaseService {
-  private db: sqlite3.Database | null = null;
-
-  async initialize(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db = new sqlite3.Database(process.env.DB_PATH || './data/monitoring.db', (err) => {
-        if (err) {
-          logger.error('Error opening database:', err);
-          reject(err);
-        } else {
-          logger.info('Connected to SQLite database');
-          this.createTables().then(resolve).catch(reject);
-        }
-      });
-    });
+export type TimingPhase = 'dns' | 'tcp' | 'tls' | 'ttfb' | 'download';
+
+export type PingTimings = Required<Pick<PingRecord, 'dnsTime' | 'tcpTime' | 'tlsTime' | 'ttfbTime' | 'downloadTime'>>;
+
+// In request order, which is also the order of the waterfall
+export const TIMING_PHASE_FIELDS: Record<TimingPhase, keyof PingTimings> = {
+  dns: 'dnsTime',
+  tcp: 'tcpTime',
+  tls: 'tlsTime',
+  ttfb: 'ttfbTime',
+  download: 'downloadTime'
+};
+
+export type SeriesBucket = '1m' | '5m' | '1h' | '1d';
+
+export const SERIES_BUCKET_MS: Record<SeriesBucket, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+// Aggregated response times for one time bucket; empty buckets are omitted
+export interface SeriesPoint {
+  bucketStart: string;
+  count: number;
+  errorCount: number;
+  min: number;
+  max: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export type RollupResolution = 'hourly' | 'daily';
+
+export const ROLLUP_BUCKET_MS: Record<RollupResolution, number> = {
+  hourly: SERIES_BUCKET_MS['1h'],
+  daily: SERIES_BUCKET_MS['1d']
+};
+
+const ROLLUP_TABLES: Record<RollupResolution, string> = {
+  hourly: 'ping_rollups_hourly',
+  daily: 'ping_rollups_daily'
+};
+
+// Series buckets that can be answered from a rollup table once raw rows are gone
+const SERIES_ROLLUPS: Partial<Record<SeriesBucket, RollupResolution>> = {
+  '1h': 'hourly',
+  '1d': 'daily'
+};
+
+// Aggregates for one bucket, stored per monitor and once across all records (monitorId undefined)
+export interface PingRollup {
+  bucketStart: string;
+  count: number;
+  errorCount: number;
+  min: number;
+  max: number;
+  sum: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  statusCodes: Record<number, number>;
+}
+
+interface RollupRow extends Omit<PingRollup, 'statusCodes'> {
+  statusCodes: string;
+}
+
+export interface RetentionSettings {
+  rawRetentionDays: number;
+  hourlyRetentionDays: number;
+  // Raw rows before this instant have been deleted; older windows are answered from rollups
+  rawPrunedBefore: string | null;
+  lastRunAt: string | null;
+}
+
+// Runtime settings of the HTTPBIN_URL check and anomaly detection; updatedAt is null until they are first saved
+export interface Settings {
+  pingInterval: number;
+  httpbinUrl: string;
+  analysisInterval: number;
+  updatedAt: string | null;
+}
+
+// Whether the ping scheduler is paused, kept so a restart honours it
+export interface SchedulerState {
+  paused: boolean;
+  pausedAt: string | null;
+  pausedBy: string | null;
+}
+
+const DEFAULT_RAW_RETENTION_DAYS = 30;
+const DEFAULT_HOURLY_RETENTION_DAYS = 365;
+
+const floorTo = (timestamp: string, size: number): string =>
+  new Date(Math.floor(Date.parse(timestamp) / size) * size).toISOString();
+
+const rollupScope = (monitorId?: number | null): string =>
+  monitorId === undefined ? 'all' : monitorId === null ? 'default' : `monitor:${monitorId}`;
+
+// Exact aggregates for a set of raw rows; the shared basis of series points and rollups
+const aggregateRows = (rows: Array<{ responseTime: number; statusCode: number; failed: number }>): Omit<PingRollup, 'bucketStart'> => {
+  const responseTimes = rows.map(row => row.responseTime);
+  const statusCodes: Record<number, number> = {};
+  rows.forEach(row => {
+    statusCodes[row.statusCode] = (statusCodes[row.statusCode] ?? 0) + 1;
+  });
+
+  return {
+    count: rows.length,
+    errorCount: rows.filter(row => row.failed).length,
+    min: Math.min(...responseTimes),
+    max: Math.max(...responseTimes),
+    sum: responseTimes.reduce((sum, value) => sum + value, 0),
+    p50: Math.round(percentile(responseTimes, 50)),
+    p95: Math.round(percentile(responseTimes, 95)),
+    p99: Math.round(percentile(responseTimes, 99)),
+    statusCodes
+  };
+};
+
+const toSeriesPoint = ({ bucketStart, count, errorCount, min, max, sum, p50, p95, p99 }: PingRollup): SeriesPoint => ({
+  bucketStart,
+  count,
+  errorCount,
+  min,
+  max,
+  avg: Math.round(sum / count),
+  p50,
+  p95,
+  p99
+});
+
+const RAW_AGGREGATE_COLUMNS = `
+  timestamp,
+  monitor_id as "monitorId",
+  response_time as "responseTime",
+  status_code as "statusCode",
+  CASE WHEN status_code >= 400 OR assertion_status = 'failed' THEN 1 ELSE 0 END as failed
+`;
+
+export type AnomalyType = 'response_time' | 'status_code' | 'error_rate' | 'slo_burn';
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export const SEVERITY_RANK: Record<AnomalySeverity, number> = { low: 1, medium: 2, high: 3 };
+
+export interface AnomalyData {
+  timestamp: string;
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  value: number;
+  threshold: number;
+  message: string;
+  recordId?: number;
+  monitorId?: number | null;
+  // The request phase that regressed the most, for response time anomalies with timings
+  phase?: TimingPhase | null;
+}
+
+// An anomaly as stored in the anomalies table; timestamp is the detected_at column
+export interface StoredAnomaly extends AnomalyData {
+  id: number;
+  incidentId: number | null;
+  acknowledgedAt: string | null;
+}
+
+export interface AnomalyFilters {
+  type?: AnomalyType;
+  severity?: AnomalySeverity;
+  startTime?: string;
+  endTime?: string;
+  acknowledged?: boolean;
+  monitorId?: number;
+  incidentId?: number;
+}
+
+const ANOMALY_COLUMNS = `
+  id,
+  type,
+  severity,
+  value,
+  threshold,
+  message,
+  record_id as "recordId",
+  monitor_id as "monitorId",
+  incident_id as "incidentId",
+  phase,
+  detected_at as timestamp,
+  acknowledged_at as "acknowledgedAt"
+`;
+
+const anomalyWhere = (filters: AnomalyFilters): { whereClause: string; params: (string | number)[] } => {
+  let whereClause = 'WHERE 1=1';
+  const params: (string | number)[] = [];
+
+  if (filters.type) {
+    whereClause += ' AND type = ?';
+    params.push(filters.type);
   }
 
-  private async createTables(): Promise<void> {
-    const createPingRecordsTable = `
-      CREATE TABLE IF NOT EXISTS ping_records (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-        request_payload TEXT NOT NULL,
-        response_data TEXT NOT NULL,
-        status_code INTEGER NOT NULL,
-        response_time INTEGER NOT NULL,
-        content_type TEXT,
-        content_length INTEGER,
-        request_type TEXT DEFAULT 'auto'
-      )
-    `;
-
-    const createIndexes = [
-      'CREATE INDEX IF NOT EXISTS idx_timestamp ON ping_records(timestamp)',
-      'CREATE INDEX IF NOT EXISTS idx_status_code ON ping_records(status_code)',
-      'CREATE INDEX IF NOT EXISTS idx_response_time ON ping_records(response_time)'
-    ];
+  if (filters.severity) {
+    whereClause += ' AND severity = ?';
+    params.push(filters.severity);
+  }
 
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+  if (filters.startTime) {
+    whereClause += ' AND detected_at >= ?';
+    params.push(filters.startTime);
+  }
 
-      this.db.run(createPingRecordsTable, (err) => {
-        if (err) {
-          reject(err);
-          return;
-        }
+  if (filters.endTime) {
+    whereClause += ' AND detected_at <= ?';
+    params.push(filters.endTime);
+  }
 
-        // Add request_type column if it doesn't exist (migration for existing databases)
-        // First check if column exists by querying table info
-        this.db!.all(
-          `PRAGMA table_info(ping_records)`,
-          [],
-          (pragmaErr, columns: Array<{ name: string; type: string; notnull: number; dflt_value: unknown; pk: number }>) => {
-            if (pragmaErr) {
-              logger.warn('Could not check table info for migration:', pragmaErr.message);
-              // Continue with index creation even if migration check fails
-              this.createIndexes(createIndexes).then(() => resolve()).catch(reject);
-              return;
-            }
-
-            // Check if request_type column exists
-            const hasRequestType = columns.some(col => col.name === 'request_type');
-            
-            if (!hasRequestType) {
-              // Column doesn't exist, add it
-              this.db!.run(
-                `ALTER TABLE ping_records ADD COLUMN request_type TEXT DEFAULT 'auto'`,
-                (alterErr) => {
-                  if (alterErr) {
-                    logger.error('Failed to add request_type column:', alterErr.message);
-                    // Continue anyway - the app should still work
-                  } else {
-                    logger.info('Successfully added request_type column to existing database');
-                  }
-                  // Continue with index creation
-                  this.createIndexes(createIndexes).then(() => resolve()).catch(reject);
-                }
-              );
-            } else {
-              // Column already exists, just create indexes
-              logger.info('request_type column already exists, skipping migration');
-              this.createIndexes(createIndexes).then(() => resolve()).catch(reject);
-            }
-          }
-        );
+  if (filters.acknowledged !== undefined) {
+    whereClause += filters.acknowledged ? ' AND acknowledged_at IS NOT NULL' : ' AND acknowledged_at IS NULL';
+  }
 
-      });
-    });
+  if (filters.monitorId) {
+    whereClause += ' AND monitor_id = ?';
+    params.push(filters.monitorId);
   }
 
-  private async createIndexes(indexSqls: string[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+  if (filters.incidentId) {
+    whereClause += ' AND incident_id = ?';
+    params.push(filters.incidentId);
+  }
 
-      Promise.all(indexSqls.map(indexSql => 
-        new Promise<void>((indexResolve, indexReject) => {
-          this.db!.run(indexSql, (indexErr) => {
-            if (indexErr) indexReject(indexErr);
-            else indexResolve();
-          });
-        })
-      )).then(() => resolve()).catch(reject);
-    });
+  return { whereClause, params };
+};
+
+// Rows per query when a whole table is walked for an export
+const EXPORT_BATCH_SIZE = 1000;
+
+export type IncidentStatus = 'open' | 'acknowledged' | 'resolved';
+
+// Anomalies sharing a fingerprint (type + monitor + window) are grouped into one incident
+export interface Incident {
+  id: number;
+  fingerprint: string;
+  type: AnomalyType;
+  monitorId: number | null;
+  severity: AnomalySeverity;
+  status: IncidentStatus;
+  message: string;
+  lastValue: number;
+  threshold: number;
+  anomalyCount: number;
+  openedAt: string;
+  lastSeenAt: string;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+}
+
+export interface IncidentFilters {
+  // 'active' covers both open and acknowledged incidents
+  status?: IncidentStatus | 'active';
+  monitorId?: number;
+}
+
+const INCIDENT_COLUMNS = `
+  id,
+  fingerprint,
+  type,
+  monitor_id as "monitorId",
+  severity,
+  status,
+  message,
+  last_value as "lastValue",
+  threshold,
+  anomaly_count as "anomalyCount",
+  opened_at as "openedAt",
+  last_seen_at as "lastSeenAt",
+  acknowledged_at as "acknowledgedAt",
+  resolved_at as "resolvedAt"
+`;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
+export interface Monitor {
+  id: number;
+  name: string;
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  bodyTemplate: string | null;
+  interval: number;
+  timeout: number;
+  enabled: boolean;
+  assertions: Assertion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MonitorInput = Omit<Monitor, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface MonitorRow {
+  id: number;
+  name: string;
+  url: string;
+  method: HttpMethod;
+  headers: string;
+  bodyTemplate: string | null;
+  interval: number;
+  timeout: number;
+  enabled: number;
+  assertions: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const MONITOR_COLUMNS = `
+  id,
+  name,
+  url,
+  method,
+  headers,
+  body_template as "bodyTemplate",
+  interval_ms as interval,
+  timeout_ms as timeout,
+  enabled,
+  assertions,
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+const toMonitor = (row: MonitorRow): Monitor => ({
+  ...row,
+  headers: row.headers ? JSON.parse(row.headers) : {},
+  enabled: row.enabled === 1,
+  assertions: row.assertions ? JSON.parse(row.assertions) : []
+});
+
+export type NotificationChannelType = 'webhook' | 'slack' | 'teams' | 'email';
+
+// Generic webhooks are signed with the secret; slack and teams post to an incoming-webhook url
+export interface WebhookChannelConfig {
+  url: string;
+  secret?: string;
+}
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface NotificationChannel {
+  id: number;
+  name: string;
+  type: NotificationChannelType;
+  config: WebhookChannelConfig | EmailChannelConfig;
+  // Anomalies below this severity are not sent
+  minSeverity: AnomalySeverity;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NotificationChannelInput = Omit<NotificationChannel, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface NotificationChannelRow extends Omit<NotificationChannel, 'config' | 'enabled'> {
+  config: string;
+  enabled: number;
+}
+
+const NOTIFICATION_CHANNEL_COLUMNS = `
+  id,
+  name,
+  type,
+  config,
+  min_severity as "minSeverity",
+  enabled,
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+const toNotificationChannel = (row: NotificationChannelRow): NotificationChannel => ({
+  ...row,
+  config: JSON.parse(row.config),
+  enabled: row.enabled === 1
+});
+
+export type DeliveryStatus = 'delivered' | 'failed';
+
+// One row per notification sent to a channel, after its last attempt
+export interface NotificationDelivery {
+  id: number;
+  channelId: number;
+  anomalyId: number | null;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string;
+}
+
+export interface NotificationDeliveryFilters {
+  channelId?: number;
+  status?: DeliveryStatus;
+}
+
+// What the streaming detector of one alert rule has learned about one monitor's records
+export interface DetectorState {
+  ruleId: number;
+  monitorId: number | null;
+  // The rule version the state was built for; a changed rule starts over
+  ruleUpdatedAt: string;
+  lastRecordId: number;
+  state: RuleState;
+}
+
+interface DetectorStateRow extends Omit<DetectorState, 'monitorId' | 'state'> {
+  scope: string;
+  state: string;
+}
+
+// Records without a monitor share the 'default' scope, as in incident fingerprints
+const detectorScope = (monitorId: number | null): string => monitorId === null ? 'default' : String(monitorId);
+
+interface AlertRuleRow extends Omit<AlertRule, 'enabled' | 'when' | 'window' | 'escalate'> {
+  enabled: number;
+  conditions: string;
+  windowMinutes: number | null;
+  windowPings: number | null;
+  escalate: string;
+}
+
+const ALERT_RULE_COLUMNS = `
+  id,
+  name,
+  enabled,
+  monitor_id as "monitorId",
+  type,
+  conditions,
+  window_minutes as "windowMinutes",
+  window_pings as "windowPings",
+  consecutive,
+  min_samples as "minSamples",
+  severity,
+  escalate,
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+const toAlertRule = ({ conditions, windowMinutes, windowPings, ...row }: AlertRuleRow): AlertRule => ({
+  ...row,
+  enabled: row.enabled === 1,
+  when: JSON.parse(conditions),
+  window: windowPings !== null ? { pings: windowPings } : { minutes: windowMinutes! },
+  escalate: JSON.parse(row.escalate)
+});
+
+interface SloRow extends Omit<Slo, 'enabled' | 'burnRateAlerts'> {
+  enabled: number;
+  burnRateAlerts: number;
+}
+
+const SLO_COLUMNS = `
+  id,
+  name,
+  enabled,
+  monitor_id as "monitorId",
+  objective,
+  target,
+  latency_threshold as "latencyThreshold",
+  window_days as "windowDays",
+  burn_rate_alerts as "burnRateAlerts",
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+const toSlo = (row: SloRow): Slo => ({ ...row, enabled: row.enabled === 1, burnRateAlerts: row.burnRateAlerts === 1 });
+
+interface ApiKeyRow extends Omit<ApiKey, 'scopes'> {
+  scopes: string;
+}
+
+const API_KEY_COLUMNS = `
+  id,
+  name,
+  key_prefix as prefix,
+  scopes,
+  created_at as "createdAt",
+  last_used_at as "lastUsedAt"
+`;
+
+const toApiKey = (row: ApiKeyRow): ApiKey => ({ ...row, scopes: JSON.parse(row.scopes) });
+
+const USER_COLUMNS = `
+  users.id,
+  users.username,
+  users.role,
+  users.created_at as "createdAt",
+  users.updated_at as "updatedAt",
+  users.last_login_at as "lastLoginAt"
+`;
+
+export class DatabaseService {
+  private storage: StorageAdapter | null = null;
+
+  // Opens the database chosen by DB_URL (see createStorageAdapter) and, unless told otherwise,
+  // applies pending schema migrations
+  async initialize(options: { migrate?: boolean } = {}): Promise<void> {
+    await this.storage?.close();
+    this.storage = createStorageAdapter();
+    await this.storage.connect();
+
+    if (options.migrate ?? true) {
+      const { applied } = await this.migrations().migrate();
+      applied.forEach(m => logger.info(`Applied migration ${m.version} (${m.name})`));
+    }
+  }
+
+  migrations(): MigrationRunner {
+    return new MigrationRunner(this.adapter);
+  }
+
+  private get adapter(): StorageAdapter {
+    if (!this.storage) {
+      throw new Error('Database not initialized');
+    }
+    return this.storage;
+  }
+
+  // Resolves to the number of affected rows
+  private async run(sql: string, params: unknown[] = []): Promise<number> {
+    return this.adapter.run(sql, params);
+  }
+
+  private async get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return this.adapter.get<T>(sql, params);
+  }
+
+  private async all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.adapter.all<T>(sql, params);
   }
 
   async insertPingRecord(record: Omit<PingRecord, 'id'>): Promise<number> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+    try {
+      return await withSpan('db.insertPingRecord', {}, () => this.adapter.insertPingRecord(record));
+    } catch (error) {
+      logger.error('Error inserting ping record:', error);
+      throw error;
+    }
+  }
 
-      const sql = `
-        INSERT INTO ping_records 
-        (timestamp, request_payload, response_data, status_code, response_time, content_type, content_length, request_type)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `;
-
-      this.db.run(
-        sql,
-        [
-          record.timestamp,
-          record.requestPayload,
-          record.responseData,
-          record.statusCode,
-          record.responseTime,
-          record.contentType,
-          record.contentLength,
-          record.requestType || 'auto'
-        ],
-        function(err) {
-          if (err) {
-            logger.error('Error inserting ping record:', err);
-            reject(err);
-          } else {
-            resolve(this.lastID);
-          }
-        }
+  // Inserts imported records in one transaction, skipping any whose timestamp and monitor are already
+  // stored or repeated earlier in the batch. Resolves to whether each record was inserted.
+  async insertPingRecordsIfAbsent(records: Array<Omit<PingRecord, 'id'>>): Promise<boolean[]> {
+    const key = (timestamp: string, monitorId?: number | null): string => `${monitorId ?? ''}|${timestamp}`;
+    const timestamps = Array.from(new Set(records.map(record => record.timestamp)));
+    if (timestamps.length === 0) {
+      return [];
+    }
+
+    return this.adapter.transaction(async tx => {
+      const stored = await tx.all<{ timestamp: string; monitorId: number | null }>(
+        `SELECT timestamp, monitor_id as "monitorId" FROM ping_records WHERE timestamp IN (${timestamps.map(() => '?').join(', ')})`,
+        timestamps
       );
+      const seen = new Set(stored.map(row => key(row.timestamp, row.monitorId)));
+
+      const inserted: boolean[] = [];
+      for (const record of records) {
+        const recordKey = key(record.timestamp, record.monitorId);
+        if (seen.has(recordKey)) {
+          inserted.push(false);
+          continue;
+        }
+        seen.add(recordKey);
+        await tx.insertPingRecord(record);
+        inserted.push(true);
+      }
+      return inserted;
     });
   }
 
   async getPingRecords(
     limit: number = 100,
     offset: number = 0,
-    filters: {
-      statusCode?: number;
-      minResponseTime?: number;
-      maxResponseTime?: number;
-      startTime?: string;
-      endTime?: string;
-    } = {}
+    filters: PingRecordFilters = {}
   ): Promise<{ records: PingRecord[], total: number }> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
+    return this.adapter.getPingRecords(limit, offset, filters);
+  }
+
+  // Every matching record, oldest first. Pages are read by id on demand, so an export never holds the
+  // table in memory or keeps a query open while a slow client reads.
+  async *iteratePingRecords(filters: PingRecordFilters = {}, batchSize: number = EXPORT_BATCH_SIZE): AsyncGenerator<PingRecord> {
+    let afterId = 0;
+    for (;;) {
+      const records = await this.adapter.getPingRecordsAfter(afterId, batchSize, filters);
+      yield* records;
+      if (records.length < batchSize) {
         return;
       }
+      afterId = records[records.length - 1].id;
+    }
+  }
 
-      let whereClause = 'WHERE 1=1';
-      const params: (string | number)[] = [];
+  async getRecentRecords(minutes: number = 60, monitorId?: number): Promise<PingRecord[]> {
+    const since = new Date(Date.now() - minutes * 60 * 1000).toISOString();
+    return this.adapter.getRecentRecords(since, monitorId);
+  }
 
-      if (filters.statusCode) {
-        whereClause += ' AND status_code = ?';
-        params.push(filters.statusCode);
-      }
+  // Raw rows answer the part of the window after rawPrunedBefore, hourly rollups the part before it
+  async getStatistics(hours: number = 24, monitorId?: number): Promise<{
+    totalRequests: number;
+    averageResponseTime: number;
+    successRate: number;
+    statusCodeDistribution: Record<number, number>;
+  }> {
+    const windowStart = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    const { rawPrunedBefore } = await this.getRetentionSettings();
+    const rawFrom = rawPrunedBefore && rawPrunedBefore > windowStart ? rawPrunedBefore : windowStart;
 
-      if (filters.minResponseTime) {
-        whereClause += ' AND response_time >= ?';
-        params.push(filters.minResponseTime);
-      }
+    const raw = await this.adapter.getStatistics(rawFrom, monitorId);
+    let { totalRequests, successCount, sumResponseTime } = raw;
+    const statusCodeDistribution = { ...raw.statusCodeDistribution };
 
-      if (filters.maxResponseTime) {
-        whereClause += ' AND response_time <= ?';
-        params.push(filters.maxResponseTime);
+    if (rawFrom > windowStart) {
+      const rollups = await this.getRollups('hourly', floorTo(windowStart, ROLLUP_BUCKET_MS.hourly), rawFrom, monitorId);
+      for (const rollup of rollups) {
+        totalRequests += rollup.count;
+        successCount += rollup.count - rollup.errorCount;
+        sumResponseTime += rollup.sum;
+        for (const [code, count] of Object.entries(rollup.statusCodes)) {
+          statusCodeDistribution[Number(code)] = (statusCodeDistribution[Number(code)] ?? 0) + count;
+        }
       }
+    }
 
-      if (filters.startTime) {
-        whereClause += ' AND timestamp >= ?';
-        params.push(filters.startTime);
-      }
+    return {
+      totalRequests,
+      averageResponseTime: Math.round(sumResponseTime / totalRequests),
+      successRate: totalRequests > 0 ? Math.round((successCount / totalRequests) * 100) : 0,
+      statusCodeDistribution
+    };
+  }
+
+  // Buckets records in [from, to) by their timestamp; SQLite has no percentile aggregate, so that happens here.
+  // Hourly and daily buckets from before rawPrunedBefore come from the rollup tables.
+  async getSeries(bucket: SeriesBucket, from: string, to: string, monitorId?: number): Promise<SeriesPoint[]> {
+    const size = SERIES_BUCKET_MS[bucket];
+    const resolution = SERIES_ROLLUPS[bucket];
+    const { rawPrunedBefore } = await this.getRetentionSettings();
+    const points: SeriesPoint[] = [];
+    let rawFrom = from;
+
+    if (resolution && rawPrunedBefore && rawPrunedBefore > from) {
+      const rollupTo = rawPrunedBefore < to ? rawPrunedBefore : to;
+      const rollups = await this.getRollups(resolution, floorTo(from, size), rollupTo, monitorId);
+      points.push(...rollups.map(toSeriesPoint));
+      rawFrom = rollupTo;
+    }
 
-      if (filters.endTime) {
-        whereClause += ' AND timestamp <= ?';
-        params.push(filters.endTime);
+    if (rawFrom >= to) {
+      return points;
+    }
+
+    const rows = await this.all<{ timestamp: string; responseTime: number; statusCode: number; failed: number }>(`
+      SELECT ${RAW_AGGREGATE_COLUMNS}
+      FROM ping_records
+      WHERE timestamp >= ? AND timestamp < ?
+      ${monitorId ? 'AND monitor_id = ?' : ''}
+      ORDER BY timestamp
+    `, monitorId ? [rawFrom, to, monitorId] : [rawFrom, to]);
+
+    const buckets = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const start = floorTo(row.timestamp, size);
+      if (!buckets.has(start)) {
+        buckets.set(start, []);
       }
+      buckets.get(start)!.push(row);
+    }
 
-      // Get total count
-      const countSql = `SELECT COUNT(*) as total FROM ping_records ${whereClause}`;
-      this.db.get(countSql, params, (err, countRow: { total: number }) => {
-        if (err) {
-          reject(err);
-          return;
-        }
+    for (const [bucketStart, bucketRows] of buckets.entries()) {
+      points.push(toSeriesPoint({ bucketStart, ...aggregateRows(bucketRows) }));
+    }
 
-        // Get records
-        const dataSql = `
-          SELECT 
-            id,
-            timestamp,
-            request_payload as requestPayload,
-            response_data as responseData,
-            status_code as statusCode,
-            response_time as responseTime,
-            content_type as contentType,
-            content_length as contentLength,
-            request_type as requestType
-          FROM ping_records 
-          ${whereClause}
-          ORDER BY timestamp DESC
-          LIMIT ? OFFSET ?
-        `;
-
-        if (!this.db) {
-  reject(new Error('Database not initialized'));
-  return;
-}
-       this.db.all(dataSql, [...params, limit, offset], (err, rows) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve({
-              records: rows as PingRecord[],
-              total: countRow.total
-            });
-          }
-        });
-      });
-    });
+    return points;
   }
 
-  async getRecentRecords(minutes: number = 60): Promise<PingRecord[]> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+  // Requests and good requests in [from, to): those that did not fail, or with a latency threshold those
+  // answered within it. Hourly rollups stand in for pruned raw rows, but they only count failures, so
+  // latency counts start at the oldest raw row kept (coveredFrom).
+  async getSliCounts(
+    from: string,
+    to: string,
+    options: { monitorId?: number; latencyThreshold?: number } = {}
+  ): Promise<{ total: number; good: number; coveredFrom: string }> {
+    const { monitorId, latencyThreshold } = options;
+    const { rawPrunedBefore } = await this.getRetentionSettings();
+    const rawFrom = rawPrunedBefore && rawPrunedBefore > from ? rawPrunedBefore : from;
+    const goodCondition = latencyThreshold !== undefined
+      ? 'response_time <= ?'
+      : "status_code < 400 AND COALESCE(assertion_status, '') != 'failed'";
+
+    const row = await this.get<{ total: number; good: number | null }>(`
+      SELECT
+        COUNT(*) as "total",
+        SUM(CASE WHEN ${goodCondition} THEN 1 ELSE 0 END) as "good"
+      FROM ping_records
+      WHERE timestamp >= ? AND timestamp < ?
+      ${monitorId ? 'AND monitor_id = ?' : ''}
+    `, [
+      ...(latencyThreshold !== undefined ? [latencyThreshold] : []),
+      rawFrom,
+      to,
+      ...(monitorId ? [monitorId] : [])
+    ]);
+    let total = row?.total ?? 0;
+    let good = row?.good ?? 0;
+
+    if (rawFrom === from || latencyThreshold !== undefined) {
+      return { total, good, coveredFrom: rawFrom };
+    }
+
+    const rollups = await this.getRollups('hourly', floorTo(from, ROLLUP_BUCKET_MS.hourly), rawFrom, monitorId);
+    for (const rollup of rollups) {
+      total += rollup.count;
+      good += rollup.count - rollup.errorCount;
+    }
+    return { total, good, coveredFrom: from };
+  }
+
+  async getRollups(resolution: RollupResolution, from: string, to: string, monitorId?: number): Promise<PingRollup[]> {
+    const rows = await this.all<RollupRow>(`
+      SELECT
+        bucket_start as "bucketStart",
+        count,
+        error_count as "errorCount",
+        min_response_time as min,
+        max_response_time as max,
+        sum_response_time as sum,
+        p50,
+        p95,
+        p99,
+        status_codes as "statusCodes"
+      FROM ${ROLLUP_TABLES[resolution]}
+      WHERE scope = ? AND bucket_start >= ? AND bucket_start < ?
+      ORDER BY bucket_start
+    `, [rollupScope(monitorId), from, to]);
+
+    return rows.map(row => ({ ...row, statusCodes: JSON.parse(row.statusCodes) }));
+  }
+
+  // End of the newest rolled-up bucket, i.e. where the next rollup run continues
+  async getRollupWatermark(resolution: RollupResolution): Promise<string | null> {
+    const row = await this.get<{ bucketStart: string | null }>(
+      `SELECT MAX(bucket_start) as "bucketStart" FROM ${ROLLUP_TABLES[resolution]}`
+    );
+    return row?.bucketStart
+      ? new Date(Date.parse(row.bucketStart) + ROLLUP_BUCKET_MS[resolution]).toISOString()
+      : null;
+  }
+
+  async getEarliestPingTimestamp(): Promise<string | null> {
+    const row = await this.get<{ timestamp: string | null }>('SELECT MIN(timestamp) as timestamp FROM ping_records');
+    return row?.timestamp ?? null;
+  }
+
+  // Recomputes the rollup rows for every bucket in [from, to), per monitor and across all records.
+  // Pings stored meanwhile wait for the transaction, so none are missed or rolled back with it.
+  async rollupPingRecords(resolution: RollupResolution, from: string, to: string): Promise<number> {
+    const size = ROLLUP_BUCKET_MS[resolution];
+    const table = ROLLUP_TABLES[resolution];
+
+    return this.adapter.transaction(async tx => {
+      const rows = await tx.all<{ timestamp: string; monitorId: number | null; responseTime: number; statusCode: number; failed: number }>(
+        `SELECT ${RAW_AGGREGATE_COLUMNS} FROM ping_records WHERE timestamp >= ? AND timestamp < ?`,
+        [from, to]
+      );
 
-      const sql = `
-        SELECT 
-          id,
-          timestamp,
-          request_payload as requestPayload,
-          response_data as responseData,
-          status_code as statusCode,
-          response_time as responseTime,
-          content_type as contentType,
-          content_length as contentLength,
-          request_type as requestType
-        FROM ping_records 
-        WHERE timestamp >= datetime('now', '-${minutes} minutes')
-        ORDER BY timestamp DESC
-      `;
-
-      this.db.all(sql, [], (err, rows) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows as PingRecord[]);
+      const groups = new Map<string, { bucketStart: string; scope: string; rows: typeof rows }>();
+      for (const row of rows) {
+        const bucketStart = floorTo(row.timestamp, size);
+        for (const scope of [rollupScope(), rollupScope(row.monitorId ?? null)]) {
+          const key = `${scope}|${bucketStart}`;
+          if (!groups.has(key)) {
+            groups.set(key, { bucketStart, scope, rows: [] });
+          }
+          groups.get(key)!.rows.push(row);
         }
-      });
+      }
+
+      await tx.run(`DELETE FROM ${table} WHERE bucket_start >= ? AND bucket_start < ?`, [from, to]);
+      for (const { bucketStart, scope, rows: groupRows } of groups.values()) {
+        const rollup = aggregateRows(groupRows);
+        await tx.run(
+          `INSERT INTO ${table}
+            (bucket_start, scope, count, error_count, min_response_time, max_response_time, sum_response_time, p50, p95, p99, status_codes)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            bucketStart,
+            scope,
+            rollup.count,
+            rollup.errorCount,
+            rollup.min,
+            rollup.max,
+            rollup.sum,
+            rollup.p50,
+            rollup.p95,
+            rollup.p99,
+            JSON.stringify(rollup.statusCodes)
+          ]
+        );
+      }
+
+      return groups.size;
     });
   }
 
-  async getStatistics(hours: number = 24): Promise<{
-    totalRequests: number;
-    averageResponseTime: number;
-    successRate: number;
-    statusCodeDistribution: Record<number, number>;
-  }> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+  async deletePingRecordsBefore(timestamp: string): Promise<number> {
+    const changes = await this.run('DELETE FROM ping_records WHERE timestamp < ?', [timestamp]);
+    return changes;
+  }
 
-      const sql = `
-        SELECT 
-          COUNT(*) as totalRequests,
-          AVG(response_time) as averageResponseTime,
-          SUM(CASE WHEN status_code < 400 THEN 1 ELSE 0 END) as successCount,
-          status_code
-        FROM ping_records 
-        WHERE timestamp >= datetime('now', '-${hours} hours')
-        GROUP BY status_code
-      `;
-
-      this.db.all(sql, [], (err, rows: Array<{ totalRequests: number; averageResponseTime: number; successCount: number; status_code: number }>) => {
-        if (err) {
-          reject(err);
-        } else {
-          const totalRequests = rows.reduce((sum, row) => sum + row.totalRequests, 0);
-          const successCount = rows.reduce((sum, row) => sum + row.successCount, 0);
-          const averageResponseTime = rows.reduce((sum, row) => sum + (row.averageResponseTime * row.totalRequests), 0) / totalRequests;
-          
-          const statusCodeDistribution: Record<number, number> = {};
-          rows.forEach(row => {
-            statusCodeDistribution[row.status_code] = row.totalRequests;
-          });
-
-          resolve({
-            totalRequests,
-            averageResponseTime: Math.round(averageResponseTime),
-            successRate: totalRequests > 0 ? Math.round((successCount / totalRequests) * 100) : 0,
-            statusCodeDistribution
-          });
-        }
-      });
+  async deleteRollupsBefore(resolution: RollupResolution, timestamp: string): Promise<number> {
+    const changes = await this.run(`DELETE FROM ${ROLLUP_TABLES[resolution]} WHERE bucket_start < ?`, [timestamp]);
+    return changes;
+  }
+
+  async getRecordsInOrder(range: PingRecordRange): Promise<PingRecord[]> {
+    return this.adapter.getRecordsInOrder(range);
+  }
+
+  async getRetentionSettings(): Promise<RetentionSettings> {
+    const row = await this.get<RetentionSettings>(`
+      SELECT
+        raw_retention_days as "rawRetentionDays",
+        hourly_retention_days as "hourlyRetentionDays",
+        raw_pruned_before as "rawPrunedBefore",
+        last_run_at as "lastRunAt"
+      FROM retention_settings WHERE id = 1
+    `);
+
+    // The environment applies until retention settings are saved
+    return row ?? {
+      rawRetentionDays: readNumberEnv('RAW_RETENTION_DAYS', DEFAULT_RAW_RETENTION_DAYS),
+      hourlyRetentionDays: readNumberEnv('HOURLY_RETENTION_DAYS', DEFAULT_HOURLY_RETENTION_DAYS),
+      rawPrunedBefore: null,
+      lastRunAt: null
+    };
+  }
+
+  async updateRetentionSettings(changes: Partial<RetentionSettings>): Promise<RetentionSettings> {
+    const settings = { ...(await this.getRetentionSettings()), ...changes };
+    await this.run(
+      `INSERT INTO retention_settings (id, raw_retention_days, hourly_retention_days, raw_pruned_before, last_run_at, updated_at)
+        VALUES (1, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          raw_retention_days = excluded.raw_retention_days,
+          hourly_retention_days = excluded.hourly_retention_days,
+          raw_pruned_before = excluded.raw_pruned_before,
+          last_run_at = excluded.last_run_at,
+          updated_at = excluded.updated_at`,
+      [settings.rawRetentionDays, settings.hourlyRetentionDays, settings.rawPrunedBefore, settings.lastRunAt, new Date().toISOString()]
+    );
+    return settings;
+  }
+
+  // null until settings are first saved
+  async getSettings(): Promise<Settings | null> {
+    const row = await this.get<Settings>(`
+      SELECT
+        ping_interval as "pingInterval",
+        httpbin_url as "httpbinUrl",
+        analysis_interval as "analysisInterval",
+        updated_at as "updatedAt"
+      FROM settings WHERE id = 1
+    `);
+    return row ?? null;
+  }
+
+  async saveSettings(settings: Omit<Settings, 'updatedAt'>): Promise<Settings> {
+    const updatedAt = new Date().toISOString();
+    await this.run(
+      `INSERT INTO settings (id, ping_interval, httpbin_url, analysis_interval, updated_at)
+        VALUES (1, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          ping_interval = excluded.ping_interval,
+          httpbin_url = excluded.httpbin_url,
+          analysis_interval = excluded.analysis_interval,
+          updated_at = excluded.updated_at`,
+      [settings.pingInterval, settings.httpbinUrl, settings.analysisInterval, updatedAt]
+    );
+    return { ...settings, updatedAt };
+  }
+
+  async getSchedulerState(): Promise<SchedulerState> {
+    const row = await this.get<Omit<SchedulerState, 'paused'> & { paused: number }>(`
+      SELECT paused, paused_at as "pausedAt", paused_by as "pausedBy"
+      FROM scheduler_state WHERE id = 1
+    `);
+    return row ? { ...row, paused: row.paused === 1 } : { paused: false, pausedAt: null, pausedBy: null };
+  }
+
+  async saveSchedulerState(state: SchedulerState): Promise<void> {
+    await this.run(
+      `INSERT INTO scheduler_state (id, paused, paused_at, paused_by, updated_at)
+        VALUES (1, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          paused = excluded.paused,
+          paused_at = excluded.paused_at,
+          paused_by = excluded.paused_by,
+          updated_at = excluded.updated_at`,
+      [state.paused ? 1 : 0, state.pausedAt, state.pausedBy, new Date().toISOString()]
+    );
+  }
+
+  async getMonitors(): Promise<Monitor[]> {
+    const rows = await this.all<MonitorRow>(`SELECT ${MONITOR_COLUMNS} FROM monitors ORDER BY id`);
+    return rows.map(toMonitor);
+  }
+
+  async getMonitor(id: number): Promise<Monitor | null> {
+    const row = await this.get<MonitorRow>(`SELECT ${MONITOR_COLUMNS} FROM monitors WHERE id = ?`, [id]);
+    return row ? toMonitor(row) : null;
+  }
+
+  async createMonitor(input: MonitorInput): Promise<Monitor> {
+    const now = new Date().toISOString();
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO monitors
+        (name, url, method, headers, body_template, interval_ms, timeout_ms, enabled, assertions, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id`,
+      [
+        input.name,
+        input.url,
+        input.method,
+        JSON.stringify(input.headers),
+        input.bodyTemplate,
+        input.interval,
+        input.timeout,
+        input.enabled ? 1 : 0,
+        JSON.stringify(input.assertions ?? []),
+        now,
+        now
+      ]
+    );
+
+    return (await this.getMonitor(row!.id))!;
+  }
+
+  async updateMonitor(id: number, changes: Partial<MonitorInput>): Promise<Monitor | null> {
+    const existing = await this.getMonitor(id);
+    if (!existing) {
+      return null;
+    }
+
+    const merged = { ...existing, ...changes };
+    await this.run(
+      `UPDATE monitors SET
+        name = ?, url = ?, method = ?, headers = ?, body_template = ?,
+        interval_ms = ?, timeout_ms = ?, enabled = ?, assertions = ?, updated_at = ?
+        WHERE id = ?`,
+      [
+        merged.name,
+        merged.url,
+        merged.method,
+        JSON.stringify(merged.headers),
+        merged.bodyTemplate,
+        merged.interval,
+        merged.timeout,
+        merged.enabled ? 1 : 0,
+        JSON.stringify(merged.assertions),
+        new Date().toISOString(),
+        id
+      ]
+    );
+
+    return this.getMonitor(id);
+  }
+
+  async deleteMonitor(id: number): Promise<boolean> {
+    // Its history goes with it: detached rows would count towards the default target's stats,
+    // rollups, SLOs and detectors. Totals across all targets already rolled up keep its share.
+    // All or nothing, so a failure leaves the monitor with its history intact to delete again.
+    return this.adapter.transaction(async tx => {
+      await tx.run('DELETE FROM anomalies WHERE monitor_id = ?', [id]);
+      await tx.run('DELETE FROM incidents WHERE monitor_id = ?', [id]);
+      await tx.run('DELETE FROM ping_records WHERE monitor_id = ?', [id]);
+      for (const table of ['ping_rollups_hourly', 'ping_rollups_daily']) {
+        await tx.run(`DELETE FROM ${table} WHERE scope = ?`, [rollupScope(id)]);
+      }
+      await tx.run('DELETE FROM alert_rules WHERE monitor_id = ?', [id]);
+      await tx.run('DELETE FROM slos WHERE monitor_id = ?', [id]);
+      await tx.run('DELETE FROM detector_states WHERE scope = ?', [detectorScope(id)]);
+      const changes = await tx.run('DELETE FROM monitors WHERE id = ?', [id]);
+      return changes > 0;
     });
   }
 
-  async close(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        resolve();
+  async insertAnomaly(
+    anomaly: AnomalyData,
+    options: { incidentId?: number; dedupeKey?: string } = {}
+  ): Promise<number> {
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO anomalies
+        (type, severity, value, threshold, message, record_id, detected_at, monitor_id, incident_id, dedupe_key, phase)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id`,
+      [
+        anomaly.type,
+        anomaly.severity,
+        anomaly.value,
+        anomaly.threshold,
+        anomaly.message,
+        anomaly.recordId ?? null,
+        anomaly.timestamp,
+        anomaly.monitorId ?? null,
+        options.incidentId ?? null,
+        options.dedupeKey ?? null,
+        anomaly.phase ?? null
+      ]
+    );
+    return row!.id;
+  }
+
+  async anomalyExists(dedupeKey: string): Promise<boolean> {
+    const row = await this.get<{ id: number }>('SELECT id FROM anomalies WHERE dedupe_key = ? LIMIT 1', [dedupeKey]);
+    return row !== undefined;
+  }
+
+  async getAnomalies(
+    limit: number = 50,
+    offset: number = 0,
+    filters: AnomalyFilters = {}
+  ): Promise<{ anomalies: StoredAnomaly[], total: number }> {
+    const { whereClause, params } = anomalyWhere(filters);
+
+    const countRow = await this.get<{ total: number }>(`SELECT COUNT(*) as total FROM anomalies ${whereClause}`, params);
+    const anomalies = await this.all<StoredAnomaly>(
+      `SELECT ${ANOMALY_COLUMNS}
+      FROM anomalies
+      ${whereClause}
+      ORDER BY detected_at DESC, id DESC
+      LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return {
+      anomalies,
+      total: countRow?.total ?? 0
+    };
+  }
+
+  // Every matching anomaly, oldest first, a page at a time like iteratePingRecords
+  async *iterateAnomalies(filters: AnomalyFilters = {}, batchSize: number = EXPORT_BATCH_SIZE): AsyncGenerator<StoredAnomaly> {
+    const { whereClause, params } = anomalyWhere(filters);
+    let afterId = 0;
+    for (;;) {
+      const anomalies = await this.all<StoredAnomaly>(
+        `SELECT ${ANOMALY_COLUMNS}
+        FROM anomalies
+        ${whereClause} AND id > ?
+        ORDER BY id
+        LIMIT ?`,
+        [...params, afterId, batchSize]
+      );
+      yield* anomalies;
+      if (anomalies.length < batchSize) {
         return;
       }
+      afterId = anomalies[anomalies.length - 1].id;
+    }
+  }
 
-      this.db.close((err) => {
-        if (err) {
-          reject(err);
-        } else {
-          logger.info('Database connection closed');
-          resolve();
-        }
-      });
-    });
+  async acknowledgeAnomaly(id: number): Promise<boolean> {
+    const changes = await this.run(
+      'UPDATE anomalies SET acknowledged_at = ? WHERE id = ? AND acknowledged_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return changes > 0;
+  }
+
+  async getIncident(id: number): Promise<Incident | null> {
+    const row = await this.get<Incident>(`SELECT ${INCIDENT_COLUMNS} FROM incidents WHERE id = ?`, [id]);
+    return row ?? null;
+  }
+
+  async getActiveIncidents(): Promise<Incident[]> {
+    return this.all<Incident>(
+      `SELECT ${INCIDENT_COLUMNS} FROM incidents WHERE status != 'resolved' ORDER BY opened_at`
+    );
+  }
+
+  async getIncidents(
+    limit: number = 50,
+    offset: number = 0,
+    filters: IncidentFilters = {}
+  ): Promise<{ incidents: Incident[], total: number }> {
+    let whereClause = 'WHERE 1=1';
+    const params: (string | number)[] = [];
+
+    if (filters.status === 'active') {
+      whereClause += " AND status != 'resolved'";
+    } else if (filters.status) {
+      whereClause += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    if (filters.monitorId) {
+      whereClause += ' AND monitor_id = ?';
+      params.push(filters.monitorId);
+    }
+
+    const countRow = await this.get<{ total: number }>(`SELECT COUNT(*) as total FROM incidents ${whereClause}`, params);
+    const incidents = await this.all<Incident>(
+      `SELECT ${INCIDENT_COLUMNS} FROM incidents ${whereClause} ORDER BY last_seen_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return {
+      incidents,
+      total: countRow?.total ?? 0
+    };
+  }
+
+  async createIncident(
+    incident: Pick<Incident, 'fingerprint' | 'type' | 'monitorId' | 'severity' | 'message' | 'lastValue' | 'threshold' | 'openedAt'>
+  ): Promise<Incident> {
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO incidents
+        (fingerprint, type, monitor_id, severity, status, message, last_value, threshold, anomaly_count, opened_at, last_seen_at)
+        VALUES (?, ?, ?, ?, 'open', ?, ?, ?, 0, ?, ?)
+        RETURNING id`,
+      [
+        incident.fingerprint,
+        incident.type,
+        incident.monitorId,
+        incident.severity,
+        incident.message,
+        incident.lastValue,
+        incident.threshold,
+        incident.openedAt,
+        incident.openedAt
+      ]
+    );
+
+    return (await this.getIncident(row!.id))!;
+  }
+
+  async updateIncident(
+    id: number,
+    changes: Partial<Pick<Incident, 'severity' | 'message' | 'lastValue' | 'threshold' | 'anomalyCount' | 'lastSeenAt'>>
+  ): Promise<Incident | null> {
+    const existing = await this.getIncident(id);
+    if (!existing) {
+      return null;
+    }
+
+    const merged = { ...existing, ...changes };
+    await this.run(
+      `UPDATE incidents SET
+        severity = ?, message = ?, last_value = ?, threshold = ?, anomaly_count = ?, last_seen_at = ?
+        WHERE id = ?`,
+      [merged.severity, merged.message, merged.lastValue, merged.threshold, merged.anomalyCount, merged.lastSeenAt, id]
+    );
+
+    return this.getIncident(id);
+  }
+
+  async resolveIncident(id: number, resolvedAt: string = new Date().toISOString()): Promise<Incident | null> {
+    await this.run(
+      "UPDATE incidents SET status = 'resolved', resolved_at = ? WHERE id = ? AND status != 'resolved'",
+      [resolvedAt, id]
+    );
+    return this.getIncident(id);
+  }
+
+  async acknowledgeIncident(id: number): Promise<Incident | null> {
+    const changes = await this.run(
+      "UPDATE incidents SET status = 'acknowledged', acknowledged_at = ? WHERE id = ? AND status = 'open'",
+      [new Date().toISOString(), id]
+    );
+    return changes > 0 ? this.getIncident(id) : null;
+  }
+
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    const rows = await this.all<NotificationChannelRow>(
+      `SELECT ${NOTIFICATION_CHANNEL_COLUMNS} FROM notification_channels ORDER BY id`
+    );
+    return rows.map(toNotificationChannel);
+  }
+
+  async getNotificationChannel(id: number): Promise<NotificationChannel | null> {
+    const row = await this.get<NotificationChannelRow>(
+      `SELECT ${NOTIFICATION_CHANNEL_COLUMNS} FROM notification_channels WHERE id = ?`,
+      [id]
+    );
+    return row ? toNotificationChannel(row) : null;
+  }
+
+  async createNotificationChannel(input: NotificationChannelInput): Promise<NotificationChannel> {
+    const now = new Date().toISOString();
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO notification_channels (name, type, config, min_severity, enabled, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        RETURNING id`,
+      [input.name, input.type, JSON.stringify(input.config), input.minSeverity, input.enabled ? 1 : 0, now, now]
+    );
+
+    return (await this.getNotificationChannel(row!.id))!;
+  }
+
+  async updateNotificationChannel(
+    id: number,
+    changes: Partial<NotificationChannelInput>
+  ): Promise<NotificationChannel | null> {
+    const existing = await this.getNotificationChannel(id);
+    if (!existing) {
+      return null;
+    }
+
+    const merged = { ...existing, ...changes };
+    await this.run(
+      `UPDATE notification_channels SET
+        name = ?, type = ?, config = ?, min_severity = ?, enabled = ?, updated_at = ?
+        WHERE id = ?`,
+      [
+        merged.name,
+        merged.type,
+        JSON.stringify(merged.config),
+        merged.minSeverity,
+        merged.enabled ? 1 : 0,
+        new Date().toISOString(),
+        id
+      ]
+    );
+
+    return this.getNotificationChannel(id);
+  }
+
+  async deleteNotificationChannel(id: number): Promise<boolean> {
+    await this.run('DELETE FROM notification_deliveries WHERE channel_id = ?', [id]);
+    const changes = await this.run('DELETE FROM notification_channels WHERE id = ?', [id]);
+    return changes > 0;
+  }
+
+  async insertNotificationDelivery(delivery: Omit<NotificationDelivery, 'id'>): Promise<NotificationDelivery> {
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO notification_deliveries
+        (channel_id, anomaly_id, status, attempts, response_status, error, created_at, completed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id`,
+      [
+        delivery.channelId,
+        delivery.anomalyId,
+        delivery.status,
+        delivery.attempts,
+        delivery.responseStatus,
+        delivery.error,
+        delivery.createdAt,
+        delivery.completedAt
+      ]
+    );
+    return { id: row!.id, ...delivery };
+  }
+
+  async getNotificationDeliveries(
+    limit: number,
+    offset: number,
+    filters: NotificationDeliveryFilters = {}
+  ): Promise<{ deliveries: NotificationDelivery[]; total: number }> {
+    let whereClause = 'WHERE 1=1';
+    const params: (string | number)[] = [];
+
+    if (filters.channelId) {
+      whereClause += ' AND channel_id = ?';
+      params.push(filters.channelId);
+    }
+
+    if (filters.status) {
+      whereClause += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    const countRow = await this.get<{ total: number }>(
+      `SELECT COUNT(*) as total FROM notification_deliveries ${whereClause}`,
+      params
+    );
+    const deliveries = await this.all<NotificationDelivery>(
+      `SELECT
+        id,
+        channel_id as "channelId",
+        anomaly_id as "anomalyId",
+        status,
+        attempts,
+        response_status as "responseStatus",
+        error,
+        created_at as "createdAt",
+        completed_at as "completedAt"
+      FROM notification_deliveries
+      ${whereClause}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return {
+      deliveries,
+      total: countRow?.total ?? 0
+    };
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    const rows = await this.all<AlertRuleRow>(`SELECT ${ALERT_RULE_COLUMNS} FROM alert_rules ORDER BY id`);
+    return rows.map(toAlertRule);
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | null> {
+    const row = await this.get<AlertRuleRow>(`SELECT ${ALERT_RULE_COLUMNS} FROM alert_rules WHERE id = ?`, [id]);
+    return row ? toAlertRule(row) : null;
+  }
+
+  async createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+    const now = new Date().toISOString();
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO alert_rules
+        (name, enabled, monitor_id, type, conditions, window_minutes, window_pings, consecutive, min_samples,
+         severity, escalate, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id`,
+      [...this.alertRuleValues(input), now, now]
+    );
+
+    return (await this.getAlertRule(row!.id))!;
+  }
+
+  async updateAlertRule(id: number, changes: Partial<AlertRuleInput>): Promise<AlertRule | null> {
+    const existing = await this.getAlertRule(id);
+    if (!existing) {
+      return null;
+    }
+
+    await this.run(
+      `UPDATE alert_rules SET
+        name = ?, enabled = ?, monitor_id = ?, type = ?, conditions = ?, window_minutes = ?, window_pings = ?,
+        consecutive = ?, min_samples = ?, severity = ?, escalate = ?, updated_at = ?
+        WHERE id = ?`,
+      [...this.alertRuleValues({ ...existing, ...changes }), new Date().toISOString(), id]
+    );
+
+    return this.getAlertRule(id);
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    await this.run('DELETE FROM detector_states WHERE rule_id = ?', [id]);
+    const changes = await this.run('DELETE FROM alert_rules WHERE id = ?', [id]);
+    return changes > 0;
+  }
+
+  async getDetectorStates(): Promise<DetectorState[]> {
+    const rows = await this.all<DetectorStateRow>(`
+      SELECT
+        rule_id as "ruleId",
+        scope,
+        rule_updated_at as "ruleUpdatedAt",
+        last_record_id as "lastRecordId",
+        state
+      FROM detector_states
+    `);
+
+    return rows.map(({ scope, state, ...row }) => ({
+      ...row,
+      monitorId: scope === 'default' ? null : Number(scope),
+      state: JSON.parse(state)
+    }));
+  }
+
+  async saveDetectorState(detector: DetectorState): Promise<void> {
+    await this.run(
+      `INSERT INTO detector_states (rule_id, scope, rule_updated_at, last_record_id, state, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(rule_id, scope) DO UPDATE SET
+          rule_updated_at = excluded.rule_updated_at,
+          last_record_id = excluded.last_record_id,
+          state = excluded.state,
+          updated_at = excluded.updated_at`,
+      [
+        detector.ruleId,
+        detectorScope(detector.monitorId),
+        detector.ruleUpdatedAt,
+        detector.lastRecordId,
+        JSON.stringify(detector.state),
+        new Date().toISOString()
+      ]
+    );
+  }
+
+  async getSlos(): Promise<Slo[]> {
+    const rows = await this.all<SloRow>(`SELECT ${SLO_COLUMNS} FROM slos ORDER BY id`);
+    return rows.map(toSlo);
+  }
+
+  async getSlo(id: number): Promise<Slo | null> {
+    const row = await this.get<SloRow>(`SELECT ${SLO_COLUMNS} FROM slos WHERE id = ?`, [id]);
+    return row ? toSlo(row) : null;
+  }
+
+  async createSlo(input: SloInput): Promise<Slo> {
+    const now = new Date().toISOString();
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO slos
+        (name, enabled, monitor_id, objective, target, latency_threshold, window_days, burn_rate_alerts, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id`,
+      [...this.sloValues(input), now, now]
+    );
+
+    return (await this.getSlo(row!.id))!;
+  }
+
+  async updateSlo(id: number, changes: Partial<SloInput>): Promise<Slo | null> {
+    const existing = await this.getSlo(id);
+    if (!existing) {
+      return null;
+    }
+
+    await this.run(
+      `UPDATE slos SET
+        name = ?, enabled = ?, monitor_id = ?, objective = ?, target = ?, latency_threshold = ?, window_days = ?,
+        burn_rate_alerts = ?, updated_at = ?
+        WHERE id = ?`,
+      [...this.sloValues({ ...existing, ...changes }), new Date().toISOString(), id]
+    );
+
+    return this.getSlo(id);
+  }
+
+  async deleteSlo(id: number): Promise<boolean> {
+    const changes = await this.run('DELETE FROM slos WHERE id = ?', [id]);
+    return changes > 0;
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    const rows = await this.all<ApiKeyRow>(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY id`);
+    return rows.map(toApiKey);
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | null> {
+    const row = await this.get<ApiKeyRow>(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ?`, [id]);
+    return row ? toApiKey(row) : null;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const row = await this.get<ApiKeyRow>(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE key_hash = ?`, [keyHash]);
+    return row ? toApiKey(row) : null;
+  }
+
+  async createApiKey(input: ApiKeyInput & { prefix: string; keyHash: string }): Promise<ApiKey> {
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO api_keys (name, key_prefix, key_hash, scopes, created_at)
+        VALUES (?, ?, ?, ?, ?)
+        RETURNING id`,
+      [input.name, input.prefix, input.keyHash, JSON.stringify(input.scopes), new Date().toISOString()]
+    );
+
+    return (await this.getApiKey(row!.id))!;
+  }
+
+  async touchApiKey(id: number, usedAt: string): Promise<void> {
+    await this.run('UPDATE api_keys SET last_used_at = ? WHERE id = ?', [usedAt, id]);
+  }
+
+  async deleteApiKey(id: number): Promise<boolean> {
+    const changes = await this.run('DELETE FROM api_keys WHERE id = ?', [id]);
+    return changes > 0;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.all<User>(`SELECT ${USER_COLUMNS} FROM users ORDER BY id`);
+  }
+
+  async getUser(id: number): Promise<User | null> {
+    return (await this.get<User>(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`, [id])) ?? null;
+  }
+
+  // The only read that includes the password hash
+  async getUserCredentials(username: string): Promise<{ user: User; passwordHash: string } | null> {
+    const row = await this.get<User & { passwordHash: string }>(
+      `SELECT ${USER_COLUMNS}, password_hash as "passwordHash" FROM users WHERE username = ?`,
+      [username]
+    );
+    if (!row) {
+      return null;
+    }
+    const { passwordHash, ...user } = row;
+    return { user, passwordHash };
+  }
+
+  async countUsers(role?: UserRole): Promise<number> {
+    const row = role
+      ? await this.get<{ count: number }>('SELECT COUNT(*) as count FROM users WHERE role = ?', [role])
+      : await this.get<{ count: number }>('SELECT COUNT(*) as count FROM users');
+    return Number(row?.count ?? 0);
+  }
+
+  async createUser(input: { username: string; role: UserRole; passwordHash: string }): Promise<User> {
+    const now = new Date().toISOString();
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO users (username, password_hash, role, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+        RETURNING id`,
+      [input.username, input.passwordHash, input.role, now, now]
+    );
+
+    return (await this.getUser(row!.id))!;
+  }
+
+  async updateUser(id: number, changes: { role?: UserRole; passwordHash?: string }): Promise<User | null> {
+    const updated = await this.run(
+      'UPDATE users SET role = COALESCE(?, role), password_hash = COALESCE(?, password_hash), updated_at = ? WHERE id = ?',
+      [changes.role ?? null, changes.passwordHash ?? null, new Date().toISOString(), id]
+    );
+
+    return updated > 0 ? this.getUser(id) : null;
+  }
+
+  async touchUserLogin(id: number, loggedInAt: string): Promise<void> {
+    await this.run('UPDATE users SET last_login_at = ? WHERE id = ?', [loggedInAt, id]);
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    await this.deleteUserSessions(id);
+    const changes = await this.run('DELETE FROM users WHERE id = ?', [id]);
+    return changes > 0;
+  }
+
+  async createSession(userId: number, tokenHash: string, createdAt: string, expiresAt: string): Promise<void> {
+    await this.run(
+      'INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)',
+      [tokenHash, userId, createdAt, expiresAt]
+    );
+  }
+
+  // The user behind a session that has not expired by `now`
+  async getSessionUser(tokenHash: string, now: string): Promise<User | null> {
+    const row = await this.get<User>(
+      `SELECT ${USER_COLUMNS} FROM sessions
+        JOIN users ON users.id = sessions.user_id
+        WHERE sessions.token_hash = ? AND sessions.expires_at > ?`,
+      [tokenHash, now]
+    );
+    return row ?? null;
+  }
+
+  async deleteSession(tokenHash: string): Promise<void> {
+    await this.run('DELETE FROM sessions WHERE token_hash = ?', [tokenHash]);
+  }
+
+  async deleteUserSessions(userId: number): Promise<void> {
+    await this.run('DELETE FROM sessions WHERE user_id = ?', [userId]);
+  }
+
+  async deleteExpiredSessions(now: string): Promise<void> {
+    await this.run('DELETE FROM sessions WHERE expires_at <= ?', [now]);
+  }
+
+  private sloValues(slo: SloInput): unknown[] {
+    return [
+      slo.name,
+      slo.enabled ? 1 : 0,
+      slo.monitorId,
+      slo.objective,
+      slo.target,
+      slo.objective === 'latency' ? slo.latencyThreshold : null,
+      slo.windowDays,
+      slo.burnRateAlerts ? 1 : 0
+    ];
+  }
+
+  private alertRuleValues(rule: AlertRuleInput): unknown[] {
+    return [
+      rule.name,
+      rule.enabled ? 1 : 0,
+      rule.monitorId,
+      rule.type,
+      JSON.stringify(rule.when),
+      'minutes' in rule.window ? rule.window.minutes : null,
+      'pings' in rule.window ? rule.window.pings : null,
+      rule.consecutive,
+      rule.minSamples,
+      rule.severity,
+      JSON.stringify(rule.escalate)
+    ];
+  }
+
+  // A trivial query, for readiness checks; rejects when the database is closed or unreachable
+  async ping(): Promise<void> {
+    await this.get('SELECT 1 AS ok');
+  }
+
+  async close(): Promise<void> {
+    await this.storage?.close();
   }
 }
@@ -0,0 +1,128 @@
+import { Server } from 'socket.io';
+import { DatabaseService } from './database';
+import { PingService } from './ping';
+import { AnomalyDetectionService } from './anomalyDetection';
+
+// A database that takes longer than this to answer SELECT 1 counts as down
+const DATABASE_TIMEOUT = 5000;
+
+export type CheckStatus = 'ok' | 'failed';
+
+export interface DatabaseCheck {
+  status: CheckStatus;
+  latencyMs: number;
+  error?: string;
+}
+
+// A periodic loop is stale once twice its interval has passed without a run; before its first run
+// that is counted from when it started
+export interface SchedulerCheck {
+  status: CheckStatus;
+  running: boolean;
+  // A paused scheduler is not pinging on purpose, so it does not count as a failure
+  paused?: boolean;
+  interval: number;
+  lastRunAt: string | null;
+  error?: string;
+}
+
+export interface SocketCheck {
+  status: CheckStatus;
+  clients: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'degraded';
+  timestamp: string;
+  checks: {
+    database: DatabaseCheck;
+    pingScheduler: SchedulerCheck;
+    anomalyDetection: SchedulerCheck;
+    socketio: SocketCheck;
+  };
+}
+
+const checkScheduler = (
+  loop: { running: boolean; paused?: boolean; interval: number; startedAt: string | null },
+  lastRunAt: string | null,
+  name: string,
+  now: number
+): SchedulerCheck => {
+  const check = { running: loop.running, interval: loop.interval, lastRunAt };
+  if (loop.paused) {
+    return { status: 'ok', ...check, paused: true };
+  }
+  if (!loop.running) {
+    return { status: 'failed', ...check, error: `${name} is not running` };
+  }
+
+  const since = lastRunAt ?? loop.startedAt;
+  if (since && now - Date.parse(since) > 2 * loop.interval) {
+    return {
+      status: 'failed',
+      ...check,
+      error: lastRunAt ? `${name} last ran at ${lastRunAt}` : `${name} has not run since ${since}`
+    };
+  }
+  return { status: 'ok', ...check };
+};
+
+export class HealthService {
+  constructor(
+    private databaseService: DatabaseService,
+    private pingService: PingService,
+    private anomalyService: AnomalyDetectionService,
+    private io: Server
+  ) {}
+
+  // Every check runs even when an earlier one failed, so the report shows everything that is wrong
+  async readiness(now: number = Date.now()): Promise<ReadinessReport> {
+    const ping = this.pingService.status();
+    const analysis = this.anomalyService.status();
+
+    const checks = {
+      database: await this.checkDatabase(),
+      pingScheduler: checkScheduler(ping, ping.lastPingAt, 'Ping scheduler', now),
+      anomalyDetection: checkScheduler(analysis, analysis.lastAnalysisAt, 'Anomaly detection', now),
+      socketio: this.checkSocket()
+    };
+
+    return {
+      status: Object.values(checks).every(check => check.status === 'ok') ? 'ready' : 'degraded',
+      timestamp: new Date(now).toISOString(),
+      checks
+    };
+  }
+
+  private async checkDatabase(): Promise<DatabaseCheck> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        this.databaseService.ping(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`No answer within ${DATABASE_TIMEOUT}ms`)), DATABASE_TIMEOUT);
+        })
+      ]);
+      return { status: 'ok', latencyMs: Date.now() - startedAt };
+    } catch (error) {
+      return {
+        status: 'failed',
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // The engine only exists once socket.io is attached to the HTTP server
+  private checkSocket(): SocketCheck {
+    const engine = this.io.engine;
+    if (!engine) {
+      return { status: 'failed', clients: 0, error: 'socket.io is not attached to the server' };
+    }
+    return { status: 'ok', clients: engine.clientsCount };
+  }
+}
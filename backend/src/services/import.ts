@@ -0,0 +1,188 @@
+import Joi from 'joi';
+import { DatabaseService, PingRecord } from './database';
+import { RetentionService, rawRetentionCutoff } from './retention';
+import { parseCsv } from '../utils/csv';
+import { ExportFormat } from '../utils/export';
+import { logger } from '../utils/logger';
+
+// Rows per transaction
+const IMPORT_BATCH_SIZE = 500;
+// Further line errors are counted but not listed
+const MAX_REPORTED_ERRORS = 100;
+
+const timingSchema = Joi.number().min(0).allow(null);
+
+// One row of GET /api/export; the id belongs to the exporting server and is dropped
+const importRecordSchema = Joi.object({
+  id: Joi.any().strip(),
+  timestamp: Joi.string().isoDate().required(),
+  monitorId: Joi.number().integer().min(1).allow(null),
+  requestType: Joi.string().valid('manual', 'auto').empty(null).default('auto'),
+  statusCode: Joi.number().integer().min(0).max(599).required(),
+  responseTime: Joi.number().min(0).required(),
+  contentType: Joi.string().allow(null),
+  contentLength: Joi.number().integer().min(0).allow(null),
+  assertionStatus: Joi.string().valid('passed', 'failed').allow(null),
+  assertionResults: Joi.string().allow(null),
+  dnsTime: timingSchema,
+  tcpTime: timingSchema,
+  tlsTime: timingSchema,
+  ttfbTime: timingSchema,
+  downloadTime: timingSchema,
+  traceId: Joi.string().hex().length(32).allow(null),
+  requestPayload: Joi.string().allow('').empty(null).default(''),
+  responseData: Joi.string().allow('').empty(null).default('')
+});
+
+const IMPORT_COLUMNS = Object.keys(importRecordSchema.describe().keys);
+
+// The file as a whole cannot be imported, e.g. a CSV without a usable header
+export class ImportError extends Error {}
+
+export interface ImportLineError {
+  line: number;
+  message: string;
+}
+
+export interface ImportOptions {
+  format: ExportFormat;
+  // Stores every row under this monitor, for history moved from another environment
+  monitorId?: number;
+}
+
+export interface ImportResult {
+  format: ExportFormat;
+  rows: number;
+  imported: number;
+  duplicates: number;
+  failed: number;
+  // The first MAX_REPORTED_ERRORS, by line
+  errors: ImportLineError[];
+  // Span of the imported timestamps
+  from: string | null;
+  to: string | null;
+}
+
+type ParsedRow = { line: number; row: unknown } | { line: number; error: string };
+
+const readNdjson = (text: string): ParsedRow[] =>
+  text.split(/\r?\n/)
+    .map((content, index) => ({ content, line: index + 1 }))
+    .filter(({ content }) => content.trim() !== '')
+    .map(({ content, line }) => {
+      try {
+        return { line, row: JSON.parse(content) };
+      } catch {
+        return { line, error: 'Not valid JSON' };
+      }
+    });
+
+// Empty CSV fields are missing values
+const readCsv = (text: string): ParsedRow[] => {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+  const unknown = header.values.filter(column => !IMPORT_COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new ImportError(`Unknown column${unknown.length > 1 ? 's' : ''} in the CSV header: ${unknown.join(', ')}`);
+  }
+
+  return records.map(({ line, values }) => values.length !== header.values.length
+    ? { line, error: `Expected ${header.values.length} fields, found ${values.length}` }
+    : { line, row: Object.fromEntries(header.values.map((column, index) => [column, values[index] === '' ? null : values[index]])) });
+};
+
+export class ImportService {
+  constructor(
+    private databaseService: DatabaseService,
+    private retentionService: RetentionService,
+    private batchSize: number = IMPORT_BATCH_SIZE
+  ) {}
+
+  // Validates every row, then stores the valid ones in batches, skipping rows whose timestamp and
+  // monitor are already stored. Rollups already computed for the imported span are rebuilt.
+  async importRecords(text: string, options: ImportOptions): Promise<ImportResult> {
+    if (options.monitorId !== undefined && !(await this.databaseService.getMonitor(options.monitorId))) {
+      throw new ImportError(`Monitor ${options.monitorId} does not exist`);
+    }
+
+    const errors: ImportLineError[] = [];
+    const parsed = options.format === 'csv' ? readCsv(text) : readNdjson(text);
+    const cutoff = rawRetentionCutoff(await this.databaseService.getRetentionSettings());
+    const knownMonitors = new Map<number, boolean>();
+
+    const valid: Array<{ line: number; record: Omit<PingRecord, 'id'> }> = [];
+    for (const entry of parsed) {
+      if ('error' in entry) {
+        errors.push({ line: entry.line, message: entry.error });
+        continue;
+      }
+      const { error, value } = importRecordSchema.validate(entry.row, { abortEarly: false });
+      if (error) {
+        errors.push({ line: entry.line, message: error.details.map(d => d.message).join('; ') });
+        continue;
+      }
+
+      const record: Omit<PingRecord, 'id'> = { ...value, monitorId: options.monitorId ?? value.monitorId ?? null };
+      // Retention would delete these before they are rolled up
+      if (record.timestamp < cutoff) {
+        errors.push({ line: entry.line, message: `Older than the raw data retention allows (${cutoff})` });
+        continue;
+      }
+      if (record.monitorId) {
+        if (!knownMonitors.has(record.monitorId)) {
+          knownMonitors.set(record.monitorId, !!(await this.databaseService.getMonitor(record.monitorId)));
+        }
+        if (!knownMonitors.get(record.monitorId)) {
+          errors.push({ line: entry.line, message: `Monitor ${record.monitorId} does not exist` });
+          continue;
+        }
+      }
+      valid.push({ line: entry.line, record });
+    }
+
+    let imported = 0;
+    let duplicates = 0;
+    let from = null as string | null;
+    let to = null as string | null;
+    // No retention run starts until the imported rows are in the rollups they fall into
+    await this.retentionService.insertHistory(async () => {
+      for (let start = 0; start < valid.length; start += this.batchSize) {
+        const batch = valid.slice(start, start + this.batchSize);
+        try {
+          const inserted = await this.databaseService.insertPingRecordsIfAbsent(batch.map(({ record }) => record));
+          for (const [index, wasInserted] of inserted.entries()) {
+            if (!wasInserted) {
+              duplicates++;
+              continue;
+            }
+            imported++;
+            const { timestamp } = batch[index].record;
+            from = from === null || timestamp < from ? timestamp : from;
+            to = to === null || timestamp > to ? timestamp : to;
+          }
+        } catch (error) {
+          logger.error(`Error importing lines ${batch[0].line}-${batch[batch.length - 1].line}:`, error);
+          const message = `Not stored: ${error instanceof Error ? error.message : String(error)}`;
+          errors.push(...batch.map(({ line }) => ({ line, message })));
+        }
+      }
+
+      return from !== null && to !== null ? { from, to } : null;
+    });
+
+    logger.info(`Imported ${imported} ping records (${duplicates} duplicates, ${errors.length} rejected)`);
+
+    return {
+      format: options.format,
+      rows: parsed.length,
+      imported,
+      duplicates,
+      failed: errors.length,
+      errors: errors.sort((a, b) => a.line - b.line).slice(0, MAX_REPORTED_ERRORS),
+      from,
+      to
+    };
+  }
+}
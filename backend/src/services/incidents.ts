@@ -0,0 +1,141 @@
+import { Server } from 'socket.io';
+import { AnomalyData, DatabaseService, Incident, SEVERITY_RANK } from './database';
+import { NotificationService } from './notifications';
+import { logger } from '../utils/logger';
+import { recordAnomaly } from '../utils/metrics';
+
+// One analyzer result. The fingerprint (type + monitor + window) identifies the incident it belongs to,
+// the dedupe key identifies the anomaly itself so a rescan does not store or broadcast it twice.
+export interface AnomalyFinding extends AnomalyData {
+  fingerprint: string;
+  dedupeKey: string;
+  // Whether the condition still holds at analysis time, as opposed to a past outlier still in the lookback
+  active: boolean;
+}
+
+export type IncidentAction = 'opened' | 'updated' | 'resolved';
+
+export const incidentFingerprint = (type: AnomalyData['type'], monitorId: number | null | undefined, window: string): string =>
+  `${type}:${monitorId ?? 'default'}:${window}`;
+
+export class IncidentService {
+  constructor(
+    private databaseService: DatabaseService,
+    private io: Server,
+    private notificationService?: NotificationService
+  ) {}
+
+  // Stores new anomalies, opens or updates their incidents, and resolves incidents whose condition cleared.
+  // With a scope, only incidents with one of those fingerprints are resolved or refreshed.
+  // Findings that repeat an open incident at no higher severity are only attached to it, so a
+  // lasting breach notifies when its incident opens, escalates and resolves rather than on every ping.
+  async process(findings: AnomalyFinding[], now: string = new Date().toISOString(), scope?: Set<string>): Promise<void> {
+    const activeFingerprints = new Set(findings.filter(f => f.active).map(f => f.fingerprint));
+    const touched = new Set<number>();
+
+    const chronological = [...findings].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    for (const finding of chronological) {
+      if (await this.databaseService.anomalyExists(finding.dedupeKey)) {
+        continue;
+      }
+
+      const { incident, opened } = await this.findOrOpenIncident(finding);
+      const anomaly: AnomalyData = {
+        timestamp: finding.timestamp,
+        type: finding.type,
+        severity: finding.severity,
+        value: finding.value,
+        threshold: finding.threshold,
+        message: finding.message,
+        recordId: finding.recordId,
+        monitorId: finding.monitorId ?? null,
+        phase: finding.phase ?? null
+      };
+      const id = await this.databaseService.insertAnomaly(anomaly, {
+        incidentId: incident?.id,
+        dedupeKey: finding.dedupeKey
+      });
+
+      const escalated = !!incident && SEVERITY_RANK[anomaly.severity] > SEVERITY_RANK[incident.severity];
+      if (!incident || opened || escalated) {
+        logger.warn(`Anomaly detected: ${anomaly.message}`);
+        recordAnomaly(anomaly);
+        this.io.emit('anomaly', { ...anomaly, id, incidentId: incident?.id ?? null, acknowledgedAt: null });
+        // Past findings are replays of what was already reported, or missed while nobody was watching
+        if (finding.active) {
+          // Not awaited, retries must not hold up detection
+          void this.notificationService?.notify({ ...anomaly, id, incidentId: incident?.id ?? null });
+        }
+      }
+
+      if (incident) {
+        const updated = await this.databaseService.updateIncident(incident.id, {
+          severity: escalated ? anomaly.severity : incident.severity,
+          message: anomaly.message,
+          lastValue: anomaly.value,
+          threshold: anomaly.threshold,
+          anomalyCount: incident.anomalyCount + 1,
+          lastSeenAt: now
+        });
+        touched.add(incident.id);
+        if (updated) {
+          this.emitIncident(opened ? 'opened' : 'updated', updated);
+        }
+      }
+    }
+
+    for (const incident of await this.databaseService.getActiveIncidents()) {
+      if (scope && !scope.has(incident.fingerprint)) {
+        continue;
+      }
+      if (!activeFingerprints.has(incident.fingerprint)) {
+        const resolved = await this.databaseService.resolveIncident(incident.id, now);
+        logger.info(`Incident ${incident.id} resolved: ${incident.fingerprint}`);
+        if (resolved) {
+          this.emitIncident('resolved', resolved);
+          void this.notificationService?.notify({
+            timestamp: now,
+            type: resolved.type,
+            severity: resolved.severity,
+            value: resolved.lastValue,
+            threshold: resolved.threshold,
+            message: `Resolved: ${resolved.message}`,
+            monitorId: resolved.monitorId,
+            incidentId: resolved.id,
+            resolvedAt: resolved.resolvedAt
+          });
+        }
+      } else if (!touched.has(incident.id)) {
+        // Condition still holds but produced no new anomaly this run
+        await this.databaseService.updateIncident(incident.id, { lastSeenAt: now });
+      }
+    }
+  }
+
+  // Past findings never open an incident; they are only attached to one that is already open
+  private async findOrOpenIncident(finding: AnomalyFinding): Promise<{ incident: Incident | null; opened: boolean }> {
+    const existing = (await this.databaseService.getActiveIncidents())
+      .find(incident => incident.fingerprint === finding.fingerprint);
+    if (existing || !finding.active) {
+      return { incident: existing ?? null, opened: false };
+    }
+
+    const incident = await this.databaseService.createIncident({
+      fingerprint: finding.fingerprint,
+      type: finding.type,
+      monitorId: finding.monitorId ?? null,
+      severity: finding.severity,
+      message: finding.message,
+      lastValue: finding.value,
+      threshold: finding.threshold,
+      openedAt: finding.timestamp
+    });
+
+    logger.warn(`Incident ${incident.id} opened: ${finding.fingerprint}`);
+    return { incident, opened: true };
+  }
+
+  private emitIncident(action: IncidentAction, incident: Incident): void {
+    this.io.emit('incident', { action, incident });
+  }
+}
@@ -0,0 +1,238 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import {
+  AnomalyData,
+  AnomalySeverity,
+  DatabaseService,
+  EmailChannelConfig,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDelivery,
+  SEVERITY_RANK,
+  WebhookChannelConfig
+} from './database';
+import { logger } from '../utils/logger';
+
+// resolvedAt is set when the notification announces that the anomaly's incident resolved
+export type NotifiableAnomaly = AnomalyData & { id?: number; incidentId?: number | null; resolvedAt?: string | null };
+
+export interface NotificationOptions {
+  // Wait before each retry; a delivery gets one more attempt than there are delays
+  retryDelays?: number[];
+  timeout?: number;
+}
+
+const DEFAULT_RETRY_DELAYS = [1000, 5000, 30000];
+const DEFAULT_TIMEOUT = 10000;
+const USER_AGENT = 'httpbin-monitor/1.0.0';
+
+export const SIGNATURE_HEADER = 'X-Monitor-Signature';
+export const TIMESTAMP_HEADER = 'X-Monitor-Timestamp';
+
+const SEVERITY_COLORS: Record<AnomalySeverity, string> = {
+  low: '#eab308',
+  medium: '#f97316',
+  high: '#dc2626'
+};
+
+// Receivers recompute this over the timestamp header and the raw body to verify a webhook
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+interface SendResult {
+  responseStatus: number | null;
+}
+
+class DeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly responseStatus: number | null,
+    readonly retryable: boolean
+  ) {
+    super(message);
+  }
+}
+
+const title = (anomaly: NotifiableAnomaly): string =>
+  `[${anomaly.resolvedAt ? 'RESOLVED' : anomaly.severity.toUpperCase()}] ${anomaly.type.replace('_', ' ')} anomaly` +
+  (anomaly.monitorId ? ` on monitor ${anomaly.monitorId}` : '');
+
+const details = (anomaly: NotifiableAnomaly): Array<[string, string]> => [
+  ['Value', String(anomaly.value)],
+  ['Threshold', String(anomaly.threshold)],
+  ['Detected at', anomaly.timestamp],
+  ...(anomaly.phase ? [['Phase', anomaly.phase] as [string, string]] : [])
+];
+
+// Server errors, rate limiting and network failures are worth retrying, other client errors are not
+const postJson = async (url: string, body: string, headers: Record<string, string>, timeout: number): Promise<SendResult> => {
+  try {
+    const response = await axios.post(url, body, {
+      headers: { 'Content-Type': 'application/json', 'User-Agent': USER_AGENT, ...headers },
+      timeout
+    });
+    return { responseStatus: response.status };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const status = error.response.status;
+      throw new DeliveryError(`HTTP ${status}`, status, status >= 500 || status === 429);
+    }
+    throw new DeliveryError(error instanceof Error ? error.message : String(error), null, true);
+  }
+};
+
+const sendWebhook = (channel: NotificationChannel, anomaly: NotifiableAnomaly, timeout: number): Promise<SendResult> => {
+  const config = channel.config as WebhookChannelConfig;
+  const body = JSON.stringify({ event: anomaly.resolvedAt ? 'resolved' : 'anomaly', channel: channel.name, sentAt: new Date().toISOString(), anomaly });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers: Record<string, string> = { [TIMESTAMP_HEADER]: timestamp };
+  if (config.secret) {
+    headers[SIGNATURE_HEADER] = signWebhookPayload(config.secret, timestamp, body);
+  }
+  return postJson(config.url, body, headers, timeout);
+};
+
+const sendSlack = (channel: NotificationChannel, anomaly: NotifiableAnomaly, timeout: number): Promise<SendResult> => {
+  const config = channel.config as WebhookChannelConfig;
+  return postJson(config.url, JSON.stringify({
+    text: `${title(anomaly)}: ${anomaly.message}`,
+    attachments: [{
+      color: SEVERITY_COLORS[anomaly.severity],
+      fields: details(anomaly).map(([name, value]) => ({ title: name, value, short: true }))
+    }]
+  }), {}, timeout);
+};
+
+// Office 365 connector card, accepted by Teams incoming webhooks
+const sendTeams = (channel: NotificationChannel, anomaly: NotifiableAnomaly, timeout: number): Promise<SendResult> => {
+  const config = channel.config as WebhookChannelConfig;
+  return postJson(config.url, JSON.stringify({
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    themeColor: SEVERITY_COLORS[anomaly.severity].slice(1),
+    summary: title(anomaly),
+    title: title(anomaly),
+    text: anomaly.message,
+    sections: [{ facts: details(anomaly).map(([name, value]) => ({ name, value })) }]
+  }), {}, timeout);
+};
+
+const sendEmail = async (channel: NotificationChannel, anomaly: NotifiableAnomaly, timeout: number): Promise<SendResult> => {
+  const config = channel.config as EmailChannelConfig;
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.username ? { user: config.username, pass: config.password } : undefined,
+    connectionTimeout: timeout,
+    greetingTimeout: timeout,
+    socketTimeout: timeout
+  });
+
+  try {
+    await transport.sendMail({
+      from: config.from,
+      to: config.to.join(', '),
+      subject: title(anomaly),
+      text: [anomaly.message, '', ...details(anomaly).map(([name, value]) => `${name}: ${value}`)].join('\n')
+    });
+    return { responseStatus: null };
+  } catch (error) {
+    // 5xx SMTP replies are permanent, 4xx and connection errors may pass on a later attempt
+    const responseCode = (error as { responseCode?: number }).responseCode ?? null;
+    throw new DeliveryError(
+      error instanceof Error ? error.message : String(error),
+      responseCode,
+      responseCode === null || responseCode < 500
+    );
+  } finally {
+    transport.close();
+  }
+};
+
+const SENDERS: Record<NotificationChannelType, (channel: NotificationChannel, anomaly: NotifiableAnomaly, timeout: number) => Promise<SendResult>> = {
+  webhook: sendWebhook,
+  slack: sendSlack,
+  teams: sendTeams,
+  email: sendEmail
+};
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export class NotificationService {
+  private readonly retryDelays: number[];
+  private readonly timeout: number;
+
+  constructor(
+    private databaseService: DatabaseService,
+    options: NotificationOptions = {}
+  ) {
+    this.retryDelays = options.retryDelays ?? DEFAULT_RETRY_DELAYS;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  // Sends a new anomaly or resolution to every enabled channel whose severity filter it passes; never throws
+  async notify(anomaly: NotifiableAnomaly): Promise<NotificationDelivery[]> {
+    try {
+      const channels = (await this.databaseService.getNotificationChannels())
+        .filter(channel => channel.enabled && SEVERITY_RANK[anomaly.severity] >= SEVERITY_RANK[channel.minSeverity]);
+      return await Promise.all(channels.map(channel => this.deliver(channel, anomaly)));
+    } catch (error) {
+      logger.error('Failed to send notifications:', error);
+      return [];
+    }
+  }
+
+  // Sends a sample anomaly regardless of the channel's severity filter or enabled flag
+  async sendTest(channel: NotificationChannel): Promise<NotificationDelivery> {
+    return this.deliver(channel, {
+      timestamp: new Date().toISOString(),
+      type: 'response_time',
+      severity: 'low',
+      value: 0,
+      threshold: 0,
+      message: `Test notification for channel "${channel.name}"`
+    });
+  }
+
+  // Attempts the delivery with backoff between retries and logs the outcome
+  async deliver(channel: NotificationChannel, anomaly: NotifiableAnomaly): Promise<NotificationDelivery> {
+    const createdAt = new Date().toISOString();
+    let attempts = 0;
+    let responseStatus: number | null = null;
+    let failure: DeliveryError | null = null;
+
+    for (;;) {
+      attempts++;
+      try {
+        ({ responseStatus } = await SENDERS[channel.type](channel, anomaly, this.timeout));
+        failure = null;
+        break;
+      } catch (error) {
+        failure = error instanceof DeliveryError ? error : new DeliveryError(String(error), null, false);
+        responseStatus = failure.responseStatus;
+        if (!failure.retryable || attempts > this.retryDelays.length) {
+          break;
+        }
+        logger.warn(`Notification to channel ${channel.id} failed (${failure.message}), retrying`);
+        await delay(this.retryDelays[attempts - 1]);
+      }
+    }
+
+    if (failure) {
+      logger.error(`Notification to channel ${channel.id} (${channel.name}) failed after ${attempts} attempt(s): ${failure.message}`);
+    }
+
+    return this.databaseService.insertNotificationDelivery({
+      channelId: channel.id,
+      anomalyId: anomaly.id ?? null,
+      status: failure ? 'failed' : 'delivered',
+      attempts,
+      responseStatus,
+      error: failure?.message ?? null,
+      createdAt,
+      completedAt: new Date().toISOString()
+    });
+  }
+}
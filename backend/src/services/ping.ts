@@ -1,51 +1,314 @@
 import axios, { AxiosResponse } from 'axios';
 import { Server } from 'socket.io';
-import { DatabaseService, PingRecord } from './database';
+import { Span, SpanKind } from '@opentelemetry/api';
+import { ATTR_HTTP_REQUEST_METHOD, ATTR_HTTP_RESPONSE_STATUS_CODE, ATTR_URL_FULL } from '@opentelemetry/semantic-conventions';
+import { DatabaseService, HttpMethod, Monitor, PingRecord, Settings } from './database';
+import { Assertion, AssertableResponse, evaluateAssertions } from './assertions';
 import { logger } from '../utils/logger';
+import { RequestTimer } from '../utils/requestTiming';
+import { recordProbe } from '../utils/metrics';
+import { readNumberEnv } from '../utils/env';
+import { currentTraceId, failSpan, traceHeaders, withSpan } from '../utils/tracing';
+import { AnomalyDetectionService } from './anomalyDetection';
 
-const DEFAULT_PING_INTERVAL = 5 * 60 * 1000; // 5 minutes
-const DEFAULT_HTTPBIN_URL = 'https://httpbin.org/anything';
+export const DEFAULT_PING_INTERVAL = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_PING_TIMEOUT = 30000; // 30 seconds
+export const DEFAULT_HTTPBIN_URL = 'https://httpbin.org/anything';
+const USER_AGENT = 'httpbin-monitor/1.0.0';
 
-const readNumberEnv = (key: string, fallback: number): number => {
-  const raw = process.env[key];
-  if (!raw) return fallback;
-  const parsed = Number(raw);
-  return Number.isFinite(parsed) ? parsed : fallback;
-};
+// What a single ping sends and where; either the built-in HTTPBIN_URL check or a stored monitor
+interface PingTarget {
+  monitorId?: number;
+  // Labels the target's metrics
+  name: string;
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  timeout: number;
+  assertions: Assertion[];
+  buildPayload: () => unknown;
+}
+
+export interface InFlightPing {
+  monitorId: number | null;
+  monitor: string;
+  requestType: 'manual' | 'auto';
+  startedAt: string;
+}
+
+export interface SchedulerStatus {
+  // Started and not paused, so the HTTPBIN_URL check and the monitors are pinged on their intervals
+  running: boolean;
+  paused: boolean;
+  pausedAt: string | null;
+  // The user or API key that paused it, null when authentication is off
+  pausedBy: string | null;
+  interval: number;
+  startedAt: string | null;
+  lastPingAt: string | null;
+  // Of the HTTPBIN_URL check; null while not running
+  nextRunAt: string | null;
+  monitors: Array<{ monitorId: number; name: string; interval: number; nextRunAt: string }>;
+  inFlight: InFlightPing[];
+}
+
+interface MonitorTimer {
+  timer: NodeJS.Timeout;
+  name: string;
+  interval: number;
+  scheduledAt: number;
+}
+
+// setInterval fires every interval after it was set up
+const nextRun = (scheduledAt: number, interval: number, now: number): string =>
+  new Date(scheduledAt + Math.max(1, Math.ceil((now - scheduledAt) / interval)) * interval).toISOString();
 
 export class PingService {
   private interval: NodeJS.Timeout | null = null;
-  private readonly PING_INTERVAL: number;
-  private readonly HTTPBIN_URL: string;
+  private scheduledAt = 0;
+  private monitorTimers = new Map<number, MonitorTimer>();
+  private running = false;
+  private paused = false;
+  private pausedAt: string | null = null;
+  private pausedBy: string | null = null;
+  private inFlight = new Map<number, InFlightPing>();
+  private pingCount = 0;
+  private startedAt: string | null = null;
+  // When the last scheduled HTTPBIN_URL ping finished, whatever its outcome
+  private lastPingAt: string | null = null;
+  // Start from the environment until applySettings() hands over the stored settings
+  private pingInterval: number;
+  private httpbinUrl: string;
 
   constructor(
     private databaseService: DatabaseService,
-    private io: Server
+    private io: Server,
+    private anomalyService?: AnomalyDetectionService
   ) {
-    this.PING_INTERVAL = readNumberEnv('PING_INTERVAL', DEFAULT_PING_INTERVAL);
-    this.HTTPBIN_URL = process.env.HTTPBIN_URL || DEFAULT_HTTPBIN_URL;
+    this.pingInterval = readNumberEnv('PING_INTERVAL', DEFAULT_PING_INTERVAL);
+    this.httpbinUrl = process.env.HTTPBIN_URL || DEFAULT_HTTPBIN_URL;
   }
 
   start(): void {
     logger.info('Starting ping service');
-    
+    this.running = true;
+    this.startedAt = new Date().toISOString();
+
+    if (this.paused) {
+      logger.info(`Ping scheduler paused since ${this.pausedAt}; only manual pings run until it is resumed`);
+      return;
+    }
+    this.schedule();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.startedAt = null;
+    this.unschedule();
+    logger.info('Ping service stopped');
+  }
+
+  // Stops scheduled pings of the HTTPBIN_URL check and every monitor until resume(); manual pings still run.
+  // Pings already in flight finish. May be called before start(), to restore a pause after a restart.
+  pause(pausedBy: string | null = null, pausedAt: string = new Date().toISOString()): void {
+    if (this.paused) {
+      return;
+    }
+    this.paused = true;
+    this.pausedAt = pausedAt;
+    this.pausedBy = pausedBy;
+    this.unschedule();
+    logger.info(`Ping scheduler paused${pausedBy ? ` by ${pausedBy}` : ''}`);
+  }
+
+  // Pings everything once and restarts the schedules
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.pausedAt = null;
+    this.pausedBy = null;
+    logger.info('Ping scheduler resumed');
+
+    if (this.running) {
+      this.schedule();
+    }
+  }
+
+  private schedule(): void {
     // Run immediately on start
     this.performPing();
-    
+
     // Set up periodic ping
+    this.scheduledAt = Date.now();
     this.interval = setInterval(() => {
       this.performPing();
-    }, this.PING_INTERVAL);
+    }, this.pingInterval);
+
+    // Each stored monitor gets its own scheduler
+    this.loadMonitors();
   }
 
-  stop(): void {
+  private unschedule(): void {
+    for (const monitorId of Array.from(this.monitorTimers.keys())) {
+      this.unscheduleMonitor(monitorId);
+    }
+
     if (this.interval) {
       clearInterval(this.interval);
       this.interval = null;
-      logger.info('Ping service stopped');
     }
   }
 
+  // Takes effect without a restart: a new URL from the next ping, a new interval by restarting the schedule
+  applySettings(settings: Pick<Settings, 'pingInterval' | 'httpbinUrl'>): void {
+    const rescheduled = settings.pingInterval !== this.pingInterval;
+    this.pingInterval = settings.pingInterval;
+    this.httpbinUrl = settings.httpbinUrl;
+
+    if (rescheduled && this.interval) {
+      clearInterval(this.interval);
+      this.scheduledAt = Date.now();
+      this.interval = setInterval(() => {
+        this.performPing();
+      }, this.pingInterval);
+      logger.info(`Pinging ${this.httpbinUrl} every ${this.pingInterval}ms`);
+    }
+  }
+
+  // For the scheduler API and readiness checks
+  status(now: number = Date.now()): SchedulerStatus {
+    return {
+      running: this.interval !== null,
+      paused: this.paused,
+      pausedAt: this.pausedAt,
+      pausedBy: this.pausedBy,
+      interval: this.pingInterval,
+      startedAt: this.startedAt,
+      lastPingAt: this.lastPingAt,
+      nextRunAt: this.interval ? nextRun(this.scheduledAt, this.pingInterval, now) : null,
+      monitors: Array.from(this.monitorTimers.entries()).map(([monitorId, scheduled]) => ({
+        monitorId,
+        name: scheduled.name,
+        interval: scheduled.interval,
+        nextRunAt: nextRun(scheduled.scheduledAt, scheduled.interval, now)
+      })),
+      inFlight: Array.from(this.inFlight.values())
+    };
+  }
+
+  // (Re)schedule a monitor after it was created or changed; disabled monitors are just unscheduled
+  scheduleMonitor(monitor: Monitor): void {
+    this.unscheduleMonitor(monitor.id);
+
+    if (!this.running || this.paused || !monitor.enabled) {
+      return;
+    }
+
+    const target = this.monitorTarget(monitor);
+    this.performPing('auto', target);
+    this.monitorTimers.set(monitor.id, {
+      timer: setInterval(() => {
+        this.performPing('auto', target);
+      }, monitor.interval),
+      name: monitor.name,
+      interval: monitor.interval,
+      scheduledAt: Date.now()
+    });
+    logger.info(`Scheduled monitor ${monitor.id} (${monitor.name}) every ${monitor.interval}ms`);
+  }
+
+  unscheduleMonitor(monitorId: number): void {
+    const scheduled = this.monitorTimers.get(monitorId);
+    if (scheduled) {
+      clearInterval(scheduled.timer);
+      this.monitorTimers.delete(monitorId);
+    }
+  }
+
+  private async loadMonitors(): Promise<void> {
+    try {
+      const monitors = await this.databaseService.getMonitors();
+      monitors.forEach(monitor => this.scheduleMonitor(monitor));
+    } catch (error) {
+      logger.error('Failed to load monitors:', error);
+    }
+  }
+
+  private defaultTarget(): PingTarget {
+    return {
+      name: 'default',
+      url: this.httpbinUrl,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT
+      },
+      timeout: DEFAULT_PING_TIMEOUT,
+      assertions: [],
+      buildPayload: () => this.generateRandomPayload()
+    };
+  }
+
+  private monitorTarget(monitor: Monitor): PingTarget {
+    return {
+      monitorId: monitor.id,
+      name: monitor.name,
+      url: monitor.url,
+      method: monitor.method,
+      headers: {
+        'User-Agent': USER_AGENT,
+        ...(monitor.bodyTemplate ? { 'Content-Type': 'application/json' } : {}),
+        ...monitor.headers
+      },
+      timeout: monitor.timeout,
+      assertions: monitor.assertions,
+      buildPayload: () => monitor.bodyTemplate ? this.renderBodyTemplate(monitor.bodyTemplate) : undefined
+    };
+  }
+
+  // Supports {{timestamp}}, {{requestId}} and {{random}} placeholders in monitor body templates
+  private renderBodyTemplate(template: string): string {
+    return template
+      .replace(/\{\{\s*timestamp\s*\}\}/g, new Date().toISOString())
+      .replace(/\{\{\s*requestId\s*\}\}/g, Math.random().toString(36).substring(2, 15))
+      .replace(/\{\{\s*random\s*\}\}/g, String(Math.random()));
+  }
+
+  private checkAssertions(
+    target: PingTarget,
+    response: AssertableResponse | null
+  ): Pick<PingRecord, 'assertionStatus' | 'assertionResults'> {
+    if (target.assertions.length === 0) {
+      return { assertionStatus: null, assertionResults: null };
+    }
+
+    const results = evaluateAssertions(target.assertions, response);
+    return {
+      assertionStatus: results.every(result => result.passed) ? 'passed' : 'failed',
+      assertionResults: JSON.stringify(results)
+    };
+  }
+
+  // The request gets a client span, which the target sees as the parent in traceparent
+  private sendRequest(target: PingTarget, payload: unknown, timer: RequestTimer): Promise<AxiosResponse> {
+    return withSpan(target.method, { [ATTR_HTTP_REQUEST_METHOD]: target.method, [ATTR_URL_FULL]: target.url }, () => {
+      const config = {
+        headers: { ...target.headers, ...traceHeaders() },
+        timeout: target.timeout,
+        httpAgent: timer.httpAgent,
+        httpsAgent: timer.httpsAgent
+      };
+
+      if (target.method === 'POST') {
+        return axios.post(target.url, payload, config);
+      }
+
+      return axios.request({ ...config, method: target.method, url: target.url, data: payload });
+    }, SpanKind.CLIENT);
+  }
+
   private generateRandomPayload(): Record<string, unknown> {
     const adjectives = ['fast', 'slow', 'large', 'small', 'complex', 'simple', 'heavy', 'light'];
     const nouns = ['request', 'payload', 'data', 'package', 'message', 'packet', 'bundle', 'container'];
@@ -79,53 +342,91 @@ export class PingService {
     };
   }
 
-  private async performPing(requestType: 'manual' | 'auto' = 'auto'): Promise<void> {
+  private async performPing(
+    requestType: 'manual' | 'auto' = 'auto',
+    target: PingTarget = this.defaultTarget()
+  ): Promise<void> {
+    const pingId = ++this.pingCount;
+    this.inFlight.set(pingId, {
+      monitorId: target.monitorId ?? null,
+      monitor: target.name,
+      requestType,
+      startedAt: new Date().toISOString()
+    });
+
+    try {
+      await withSpan('ping', {
+        'monitor.id': target.monitorId ?? 'default',
+        'monitor.name': target.name,
+        'ping.request_type': requestType
+      }, span => this.probe(requestType, target, span));
+    } finally {
+      this.inFlight.delete(pingId);
+      if (requestType === 'auto' && target.monitorId === undefined) {
+        this.lastPingAt = new Date().toISOString();
+      }
+    }
+  }
+
+  // One ping inside its span; the record carries the span's trace id
+  private async probe(requestType: 'manual' | 'auto', target: PingTarget, span: Span): Promise<void> {
     const startTime = Date.now();
-    const payload = this.generateRandomPayload();
+    const timer = new RequestTimer();
+    const payload = target.buildPayload();
+    const requestPayload = typeof payload === 'string' ? payload : JSON.stringify(payload ?? null);
     
     try {
-      logger.info(`Pinging ${this.HTTPBIN_URL}`);
+      logger.info(`Pinging ${target.method} ${target.url}`);
       
-      const response: AxiosResponse = await axios.post(
-        this.HTTPBIN_URL,
-        payload,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'User-Agent': 'httpbin-monitor/1.0.0'
-          },
-          timeout: 30000 // 30 second timeout
-        }
-      );
+      const response: AxiosResponse = await this.sendRequest(target, payload, timer);
 
       const endTime = Date.now();
       const responseTime = endTime - startTime;
+      const timings = timer.finish();
 
       const record: Omit<PingRecord, 'id'> = {
         timestamp: new Date().toISOString(),
-        requestPayload: JSON.stringify(payload),
+        requestPayload,
         responseData: JSON.stringify(response.data),
         statusCode: response.status,
         responseTime,
         contentType: response.headers['content-type'],
         contentLength: JSON.stringify(response.data).length,
-        requestType
+        requestType,
+        monitorId: target.monitorId ?? null,
+        ...timings,
+        ...this.checkAssertions(target, {
+          status: response.status,
+          data: response.data,
+          headers: response.headers,
+          responseTime
+        }),
+        traceId: currentTraceId()
       };
 
+      span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+      recordProbe({ ...record, monitorId: target.monitorId ?? null, monitor: target.name });
+
       // Store in database
       const recordId = await this.databaseService.insertPingRecord(record);
       
-      logger.info(`Ping completed successfully. ID: ${recordId}, Status: ${response.status}, Time: ${responseTime}ms`);
+      logger.info(`Ping completed successfully. ID: ${recordId}, Status: ${response.status}, Time: ${responseTime}ms` +
+        (record.assertionStatus ? `, Assertions: ${record.assertionStatus}` : ''));
 
       // Broadcast to connected clients
-      this.io.emit('newPingRecord', {
+      await withSpan('socket.emit newPingRecord', {}, () => this.io.emit('newPingRecord', {
         id: recordId,
         ...record
-      });
+      }));
+
+      // Not awaited, the next ping must not wait for detection
+      void this.anomalyService?.observe({ id: recordId, ...record });
 
     } catch (error: unknown) {
       const endTime = Date.now();
       const responseTime = endTime - startTime;
+      // Phases up to the failure, e.g. DNS and TCP for a TLS error
+      const timings = timer.finish();
 
       const errorMessage = error instanceof Error ? error.message : String(error);
       const isAxiosError = axios.isAxiosError(error);
@@ -135,7 +436,7 @@ export class PingService {
 
       const record: Omit<PingRecord, 'id'> = {
         timestamp: new Date().toISOString(),
-        requestPayload: JSON.stringify(payload),
+        requestPayload,
         responseData: JSON.stringify({
           error: errorMessage,
           code: axiosError?.code || 'UNKNOWN_ERROR',
@@ -149,25 +450,40 @@ export class PingService {
         responseTime,
         contentType: 'application/json',
         contentLength: 0,
-        requestType
+        requestType,
+        monitorId: target.monitorId ?? null,
+        ...timings,
+        // HTTP error responses can still be asserted on (e.g. an expected 404)
+        ...this.checkAssertions(target, axiosError?.response ? {
+          status: axiosError.response.status,
+          data: axiosError.response.data,
+          headers: axiosError.response.headers,
+          responseTime
+        } : null),
+        traceId: currentTraceId()
       };
 
+      failSpan(span, error);
+
+      recordProbe({ ...record, monitorId: target.monitorId ?? null, monitor: target.name });
+
       try {
         const recordId = await this.databaseService.insertPingRecord(record);
         
         // Broadcast error to clients
-        this.io.emit('newPingRecord', {
+        await withSpan('socket.emit newPingRecord', {}, () => this.io.emit('newPingRecord', {
           id: recordId,
           ...record
-        });
+        }));
+        void this.anomalyService?.observe({ id: recordId, ...record });
       } catch (dbError) {
         logger.error('Failed to store error record:', dbError);
       }
     }
   }
 
-  // Manual ping for testing
-  async pingOnce(): Promise<void> {
-    await this.performPing('manual');
+  // Manual ping for testing; pings the given monitor instead of HTTPBIN_URL when one is passed
+  async pingOnce(monitor?: Monitor): Promise<void> {
+    await this.performPing('manual', monitor ? this.monitorTarget(monitor) : undefined);
   }
 }
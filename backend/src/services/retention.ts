@@ -0,0 +1,156 @@
+import { DatabaseService, ROLLUP_BUCKET_MS, RetentionSettings, RollupResolution } from './database';
+import { logger } from '../utils/logger';
+import { readNumberEnv } from '../utils/env';
+
+const DEFAULT_RETENTION_INTERVAL = 60 * 60 * 1000; // 1 hour
+const DAY_MS = ROLLUP_BUCKET_MS.daily;
+
+export interface RetentionRunResult {
+  hourlyRollups: number;
+  dailyRollups: number;
+  deletedRecords: number;
+  deletedHourlyRollups: number;
+  rawPrunedBefore: string;
+  ranAt: string;
+}
+
+const floorMs = (ms: number, size: number): number => Math.floor(ms / size) * size;
+
+// Raw rows before this are deleted by the next run. Cut-offs are day-aligned so raw and rollup ranges
+// never split a bucket.
+export const rawRetentionCutoff = (settings: RetentionSettings, now: Date = new Date()): string => {
+  const cutoff = new Date(floorMs(now.getTime() - settings.rawRetentionDays * DAY_MS, DAY_MS)).toISOString();
+  return settings.rawPrunedBefore && settings.rawPrunedBefore > cutoff ? settings.rawPrunedBefore : cutoff;
+};
+
+export class RetentionService {
+  private interval: NodeJS.Timeout | null = null;
+  private running: Promise<RetentionRunResult> | null = null;
+  // Runs and imports take turns, so a run never prunes rows an import added before they are rolled up
+  private turn: Promise<unknown> = Promise.resolve();
+  private readonly RETENTION_INTERVAL: number;
+
+  constructor(private databaseService: DatabaseService) {
+    this.RETENTION_INTERVAL = readNumberEnv('RETENTION_INTERVAL', DEFAULT_RETENTION_INTERVAL);
+  }
+
+  start(): void {
+    logger.info('Starting retention service');
+
+    this.runSafely();
+    this.interval = setInterval(() => {
+      this.runSafely();
+    }, this.RETENTION_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      logger.info('Retention service stopped');
+    }
+  }
+
+  // Rolls up every complete hour and day, then deletes raw rows and hourly rollups past their retention.
+  // Overlapping calls share one run.
+  async runOnce(now: Date = new Date()): Promise<RetentionRunResult> {
+    if (!this.running) {
+      this.running = this.inTurn(() => this.performRun(now)).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runSafely(): Promise<void> {
+    try {
+      await this.runOnce();
+    } catch (error) {
+      logger.error('Error during retention run:', error);
+    }
+  }
+
+  private async performRun(now: Date): Promise<RetentionRunResult> {
+    const settings = await this.databaseService.getRetentionSettings();
+
+    // Rollups run first so nothing is deleted before it has been aggregated
+    const hourlyRollups = await this.rollUp('hourly', now);
+    const dailyRollups = await this.rollUp('daily', now);
+
+    const rawCutoff = rawRetentionCutoff({ ...settings, rawPrunedBefore: null }, now);
+    const hourlyCutoff = new Date(floorMs(now.getTime() - settings.hourlyRetentionDays * DAY_MS, DAY_MS)).toISOString();
+
+    const deletedRecords = await this.databaseService.deletePingRecordsBefore(rawCutoff);
+    const deletedHourlyRollups = await this.databaseService.deleteRollupsBefore('hourly', hourlyCutoff);
+
+    // Raising the retention later cannot bring deleted rows back
+    const rawPrunedBefore = settings.rawPrunedBefore && settings.rawPrunedBefore > rawCutoff
+      ? settings.rawPrunedBefore
+      : rawCutoff;
+    const ranAt = now.toISOString();
+    await this.databaseService.updateRetentionSettings({ rawPrunedBefore, lastRunAt: ranAt });
+
+    logger.info(
+      `Retention run: ${hourlyRollups} hourly and ${dailyRollups} daily rollups, ` +
+      `${deletedRecords} raw records and ${deletedHourlyRollups} hourly rollups deleted`
+    );
+
+    return { hourlyRollups, dailyRollups, deletedRecords, deletedHourlyRollups, rawPrunedBefore, ranAt };
+  }
+
+  // Adds raw rows behind the watermark (e.g. an import): insert runs between retention runs and returns
+  // the span it stored, whose already rolled-up buckets are re-aggregated before the next run starts
+  async insertHistory(insert: () => Promise<{ from: string; to: string } | null>): Promise<number> {
+    return this.inTurn(async () => {
+      const span = await insert();
+      return span ? this.refreshRollups(span.from, span.to) : 0;
+    });
+  }
+
+  private async refreshRollups(from: string, to: string): Promise<number> {
+    let refreshed = 0;
+    for (const resolution of ['hourly', 'daily'] as RollupResolution[]) {
+      const size = ROLLUP_BUCKET_MS[resolution];
+      const watermark = await this.databaseService.getRollupWatermark(resolution);
+      if (watermark && from < watermark) {
+        const through = Math.min(floorMs(Date.parse(to), size) + size, Date.parse(watermark));
+        refreshed += await this.rollupRange(resolution, floorMs(Date.parse(from), size), through);
+      }
+    }
+    return refreshed;
+  }
+
+  // Aggregates complete buckets after the watermark
+  private async rollUp(resolution: RollupResolution, now: Date): Promise<number> {
+    const size = ROLLUP_BUCKET_MS[resolution];
+    const start = await this.databaseService.getRollupWatermark(resolution)
+      ?? await this.databaseService.getEarliestPingTimestamp();
+
+    if (!start) {
+      return 0;
+    }
+
+    return this.rollupRange(resolution, floorMs(Date.parse(start), size), floorMs(now.getTime(), size));
+  }
+
+  // One day of raw rows at a time
+  private async rollupRange(resolution: RollupResolution, start: number, through: number): Promise<number> {
+    let created = 0;
+    for (let from = start; from < through; from += DAY_MS) {
+      const to = Math.min(from + DAY_MS, through);
+      created += await this.databaseService.rollupPingRecords(
+        resolution,
+        new Date(from).toISOString(),
+        new Date(to).toISOString()
+      );
+    }
+
+    return created;
+  }
+
+  private inTurn<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.turn.then(task);
+    this.turn = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,40 @@
+import { DatabaseService } from './database';
+import { PingService, SchedulerStatus } from './ping';
+
+// Pauses and resumes the ping scheduler, keeping the pause in the database so it survives a restart
+export class SchedulerService {
+  constructor(
+    private databaseService: DatabaseService,
+    private pingService: PingService
+  ) {}
+
+  // Restores a pause from before the restart; call before PingService.start()
+  async load(): Promise<void> {
+    const state = await this.databaseService.getSchedulerState();
+    if (state.paused) {
+      this.pingService.pause(state.pausedBy, state.pausedAt ?? undefined);
+    }
+  }
+
+  status(): SchedulerStatus {
+    return this.pingService.status();
+  }
+
+  // Pausing a paused scheduler keeps who paused it and when
+  async pause(pausedBy: string | null): Promise<SchedulerStatus> {
+    if (!this.pingService.status().paused) {
+      const pausedAt = new Date().toISOString();
+      await this.databaseService.saveSchedulerState({ paused: true, pausedAt, pausedBy });
+      this.pingService.pause(pausedBy, pausedAt);
+    }
+    return this.status();
+  }
+
+  async resume(): Promise<SchedulerStatus> {
+    if (this.pingService.status().paused) {
+      await this.databaseService.saveSchedulerState({ paused: false, pausedAt: null, pausedBy: null });
+      this.pingService.resume();
+    }
+    return this.status();
+  }
+}
@@ -0,0 +1,48 @@
+import { DatabaseService, Settings } from './database';
+import { DEFAULT_HTTPBIN_URL, DEFAULT_PING_INTERVAL, PingService } from './ping';
+import { AnomalyDetectionService, DEFAULT_ANALYSIS_INTERVAL } from './anomalyDetection';
+import { logger } from '../utils/logger';
+import { readNumberEnv } from '../utils/env';
+
+export type SettingsInput = Omit<Settings, 'updatedAt'>;
+
+// What applies before settings are first saved
+export const defaultSettings = (): Settings => ({
+  pingInterval: readNumberEnv('PING_INTERVAL', DEFAULT_PING_INTERVAL),
+  httpbinUrl: process.env.HTTPBIN_URL || DEFAULT_HTTPBIN_URL,
+  analysisInterval: readNumberEnv('ANALYSIS_INTERVAL', DEFAULT_ANALYSIS_INTERVAL),
+  updatedAt: null
+});
+
+// Stored settings override PING_INTERVAL, HTTPBIN_URL and ANALYSIS_INTERVAL, and changes reach
+// the running schedulers without a restart
+export class SettingsService {
+  constructor(
+    private databaseService: DatabaseService,
+    private pingService: PingService,
+    private anomalyService: AnomalyDetectionService
+  ) {}
+
+  async get(): Promise<Settings> {
+    return (await this.databaseService.getSettings()) ?? defaultSettings();
+  }
+
+  // Hands the stored settings to the services; call at startup, before they start
+  async load(): Promise<Settings> {
+    const settings = await this.get();
+    this.apply(settings);
+    return settings;
+  }
+
+  async update(changes: Partial<SettingsInput>): Promise<Settings> {
+    const settings = await this.databaseService.saveSettings({ ...(await this.get()), ...changes });
+    this.apply(settings);
+    logger.info(`Settings updated: ${Object.keys(changes).join(', ')}`);
+    return settings;
+  }
+
+  private apply(settings: Settings): void {
+    this.pingService.applySettings(settings);
+    this.anomalyService.applySettings(settings);
+  }
+}
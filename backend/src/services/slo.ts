@@ -0,0 +1,182 @@
+import { AnomalySeverity, DatabaseService } from './database';
+import { AnomalyFinding, incidentFingerprint } from './incidents';
+
+// availability: requests that did not fail (status below 400, assertions passed)
+// latency: requests answered within latencyThreshold ms, whatever their status
+export type SloObjective = 'availability' | 'latency';
+
+export const SLO_OBJECTIVES: SloObjective[] = ['availability', 'latency'];
+
+export interface Slo {
+  id: number;
+  name: string;
+  enabled: boolean;
+  // null covers every record, like /api/stats without a monitor
+  monitorId: number | null;
+  objective: SloObjective;
+  // Percent of requests that must be good over the rolling window, e.g. 99.9
+  target: number;
+  latencyThreshold: number | null;
+  windowDays: number;
+  burnRateAlerts: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SloInput = Omit<Slo, 'id' | 'createdAt' | 'updatedAt'>;
+
+// How fast the error budget goes: 1 spends exactly the budget over the SLO window
+export type BurnRateWindow = '1h' | '6h';
+
+export interface SloStatus extends Slo {
+  description: string;
+  state: 'met' | 'at_risk' | 'breached' | 'no_data';
+  windowStart: string;
+  // Later than windowStart when latency objectives reach back past the raw rows kept by retention
+  coveredFrom: string;
+  totalRequests: number;
+  goodRequests: number;
+  // Percent of good requests; null without requests
+  attainment: number | null;
+  errorBudget: {
+    // Bad requests the target allows for the requests so far, and how many there were
+    allowed: number;
+    spent: number;
+    // Percent of the budget left, negative once the objective is missed
+    remaining: number | null;
+  };
+  burnRates: Record<BurnRateWindow, number | null>;
+}
+
+interface BurnRateAlert {
+  // The long window, which is also reported in SloStatus.burnRates
+  window: BurnRateWindow;
+  longMinutes: number;
+  shortMinutes: number;
+  // Share of the whole window's budget the long window would spend at the alerting rate
+  budgetSpent: number;
+  severity: AnomalySeverity;
+}
+
+// Multi-window burn rate alerts: the long window shows a significant part of the budget went, the short
+// one that it is still going, so an alert resolves soon after the burn stops
+const BURN_RATE_ALERTS: BurnRateAlert[] = [
+  { window: '1h', longMinutes: 60, shortMinutes: 5, budgetSpent: 0.02, severity: 'high' },
+  { window: '6h', longMinutes: 6 * 60, shortMinutes: 30, budgetSpent: 0.05, severity: 'medium' }
+];
+
+// Below this share of the budget left an SLO that is still met is reported at risk
+const AT_RISK_REMAINING = 25;
+
+const MINUTE_MS = 60 * 1000;
+
+export const describeSlo = (slo: Omit<SloInput, 'enabled' | 'burnRateAlerts' | 'monitorId'>): string =>
+  slo.objective === 'latency'
+    ? `${slo.target}% of requests within ${slo.latencyThreshold}ms over ${slo.windowDays}d`
+    : `${slo.target}% of requests succeed over ${slo.windowDays}d`;
+
+export const sloFingerprint = (slo: Slo): string => incidentFingerprint('slo_burn', slo.monitorId, `slo-${slo.id}`);
+
+// The burn rate that spends the given share of the budget within the alert's long window
+const burnRateThreshold = (slo: Slo, alert: BurnRateAlert): number =>
+  (alert.budgetSpent * slo.windowDays * 24 * 60) / alert.longMinutes;
+
+export class SloService {
+  constructor(private databaseService: DatabaseService) {}
+
+  async getStatuses(now: number = Date.now()): Promise<SloStatus[]> {
+    const slos = await this.databaseService.getSlos();
+    return Promise.all(slos.map(slo => this.getStatus(slo, now)));
+  }
+
+  async getStatus(slo: Slo, now: number = Date.now()): Promise<SloStatus> {
+    const windowStart = new Date(now - slo.windowDays * 24 * 60 * MINUTE_MS).toISOString();
+    const counts = await this.counts(slo, windowStart, now);
+    const bad = counts.total - counts.good;
+    // The target is below 100%, so some budget is always allowed once there are requests
+    const allowed = counts.total * (1 - slo.target / 100);
+    const remaining = counts.total === 0 ? null : (1 - bad / allowed) * 100;
+
+    const burnRates = {} as Record<BurnRateWindow, number | null>;
+    for (const alert of BURN_RATE_ALERTS) {
+      burnRates[alert.window] = await this.burnRate(slo, alert.longMinutes, now);
+    }
+    const burning = BURN_RATE_ALERTS.some(alert => {
+      const rate = burnRates[alert.window];
+      return rate !== null && rate >= burnRateThreshold(slo, alert);
+    });
+
+    return {
+      ...slo,
+      description: describeSlo(slo),
+      state: remaining === null ? 'no_data'
+        : remaining < 0 ? 'breached'
+          : remaining < AT_RISK_REMAINING || burning ? 'at_risk'
+            : 'met',
+      windowStart,
+      coveredFrom: counts.coveredFrom,
+      totalRequests: counts.total,
+      goodRequests: counts.good,
+      attainment: counts.total === 0 ? null : (counts.good / counts.total) * 100,
+      errorBudget: { allowed, spent: bad, remaining },
+      burnRates
+    };
+  }
+
+  // One finding per burn rate alert that fires for an enabled SLO. The scope holds every SLO's
+  // fingerprint so the incidents of SLOs that stopped burning, or were disabled, resolve.
+  async evaluateBurnRates(now: number = Date.now()): Promise<{ findings: AnomalyFinding[]; scope: Set<string> }> {
+    const slos = await this.databaseService.getSlos();
+    const findings: AnomalyFinding[] = [];
+    const scope = new Set(slos.map(sloFingerprint));
+
+    for (const slo of slos.filter(slo => slo.enabled && slo.burnRateAlerts)) {
+      for (const alert of BURN_RATE_ALERTS) {
+        const threshold = burnRateThreshold(slo, alert);
+        const long = await this.burnRate(slo, alert.longMinutes, now);
+        if (long === null || long < threshold) {
+          continue;
+        }
+        const short = await this.burnRate(slo, alert.shortMinutes, now);
+        if (short === null || short < threshold) {
+          continue;
+        }
+
+        const fingerprint = sloFingerprint(slo);
+        const hour = new Date(Math.floor(now / (60 * MINUTE_MS)) * 60 * MINUTE_MS).toISOString();
+        findings.push({
+          timestamp: new Date(now).toISOString(),
+          type: 'slo_burn',
+          severity: alert.severity,
+          value: long,
+          threshold,
+          message: `${slo.name}: error budget burning at ${long.toFixed(1)}x over the last ${alert.window} ` +
+            `(${short.toFixed(1)}x over ${alert.shortMinutes}m, alerting at ${threshold.toFixed(1)}x)`,
+          monitorId: slo.monitorId,
+          fingerprint,
+          // At most one anomaly per alert and hour while the burn lasts
+          dedupeKey: `${fingerprint}:${alert.window}:${hour}`,
+          active: true
+        });
+      }
+    }
+
+    return { findings, scope };
+  }
+
+  // Share of bad requests in the last `minutes` against the share the target allows; null without requests
+  private async burnRate(slo: Slo, minutes: number, now: number): Promise<number | null> {
+    const counts = await this.counts(slo, new Date(now - minutes * MINUTE_MS).toISOString(), now);
+    if (counts.total === 0) {
+      return null;
+    }
+    return (counts.total - counts.good) / counts.total / (1 - slo.target / 100);
+  }
+
+  private counts(slo: Slo, from: string, now: number): Promise<{ total: number; good: number; coveredFrom: string }> {
+    return this.databaseService.getSliCounts(from, new Date(now).toISOString(), {
+      monitorId: slo.monitorId ?? undefined,
+      latencyThreshold: slo.objective === 'latency' ? slo.latencyThreshold ?? undefined : undefined
+    });
+  }
+}
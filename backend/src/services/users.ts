@@ -0,0 +1,134 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { DatabaseService } from './database';
+import { ApiKeyScope } from './apiKeys';
+import { readNumberEnv } from '../utils/env';
+
+// viewer: read everything; operator: also trigger pings and acknowledge; admin: everything
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'operator', 'admin'];
+
+// Roles are checked through the same scopes as API keys
+export const ROLE_SCOPES: Record<UserRole, ApiKeyScope[]> = {
+  viewer: ['read'],
+  operator: ['read', 'trigger'],
+  admin: ['admin']
+};
+
+export interface User {
+  id: number;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt: string | null;
+}
+
+export interface UserInput {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface Session {
+  user: User;
+  // The cookie value; only its hash is stored
+  token: string;
+  expiresAt: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_SESSION_TTL_HOURS = 12;
+// Beyond this the expiry would not fit in a Date
+const MAX_SESSION_TTL_HOURS = 24 * 365 * 100;
+
+// SESSION_TTL_HOURS in milliseconds; a missing, malformed, non-positive or huge value falls back to the default
+export const sessionTtlMs = (): number => {
+  const hours = readNumberEnv('SESSION_TTL_HOURS', DEFAULT_SESSION_TTL_HOURS);
+  return (hours <= MAX_SESSION_TTL_HOURS ? hours : DEFAULT_SESSION_TTL_HOURS) * HOUR_MS;
+};
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const HASH_LENGTH = 64;
+
+// Stored as scrypt$<salt>$<hash>, both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, HASH_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Session tokens are 256 random bits, so like API keys they only need a fast hash
+const hashSessionToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export class UserService {
+  // Compared against when the username is unknown, so a login takes as long either way
+  private dummyHash: Promise<string> | null = null;
+  private readonly sessionTtl: number;
+
+  constructor(private databaseService: DatabaseService) {
+    this.sessionTtl = sessionTtlMs();
+  }
+
+  async create(input: UserInput): Promise<User> {
+    return this.databaseService.createUser({
+      username: input.username,
+      role: input.role,
+      passwordHash: await hashPassword(input.password)
+    });
+  }
+
+  // A new password signs the user out everywhere; a new role applies to their next request
+  async update(id: number, changes: { password?: string; role?: UserRole }): Promise<User | null> {
+    const user = await this.databaseService.updateUser(id, {
+      role: changes.role,
+      passwordHash: changes.password === undefined ? undefined : await hashPassword(changes.password)
+    });
+    if (user && changes.password !== undefined) {
+      await this.databaseService.deleteUserSessions(id);
+    }
+    return user;
+  }
+
+  // Starts a session for valid credentials, or returns null
+  async login(username: string, password: string): Promise<Session | null> {
+    const credentials = await this.databaseService.getUserCredentials(username);
+    if (!credentials) {
+      this.dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+      await verifyPassword(password, await this.dummyHash);
+      return null;
+    }
+    if (!(await verifyPassword(password, credentials.passwordHash))) {
+      return null;
+    }
+
+    const now = new Date();
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + this.sessionTtl).toISOString();
+    await this.databaseService.deleteExpiredSessions(now.toISOString());
+    await this.databaseService.createSession(credentials.user.id, hashSessionToken(token), now.toISOString(), expiresAt);
+    await this.databaseService.touchUserLogin(credentials.user.id, now.toISOString());
+
+    return { user: { ...credentials.user, lastLoginAt: now.toISOString() }, token, expiresAt };
+  }
+
+  // The user an unexpired session token belongs to, or null
+  async verifySession(token: string): Promise<User | null> {
+    return this.databaseService.getSessionUser(hashSessionToken(token), new Date().toISOString());
+  }
+
+  async logout(token: string): Promise<void> {
+    await this.databaseService.deleteSession(hashSessionToken(token));
+  }
+}
@@ -0,0 +1,27 @@
+import { PostgresAdapter } from './postgres';
+import { SqliteAdapter } from './sqlite';
+import { StorageAdapter } from './types';
+
+export * from './types';
+export { SqliteAdapter } from './sqlite';
+export { PostgresAdapter } from './postgres';
+
+// DB_URL picks the backend: postgres://... or postgresql://... for PostgreSQL, sqlite:<path> for SQLite.
+// Without DB_URL the SQLite file at DB_PATH is used, as before.
+export function createStorageAdapter(env: NodeJS.ProcessEnv = process.env): StorageAdapter {
+  const url = env.DB_URL;
+
+  if (!url) {
+    return new SqliteAdapter(env.DB_PATH || './data/monitoring.db');
+  }
+
+  if (/^postgres(ql)?:\/\//.test(url)) {
+    return new PostgresAdapter(url);
+  }
+
+  if (url.startsWith('sqlite:')) {
+    return new SqliteAdapter(url.replace(/^sqlite:(\/\/)?/, ''));
+  }
+
+  throw new Error(`Unsupported DB_URL scheme: ${url.split(':')[0]}`);
+}
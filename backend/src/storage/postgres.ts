@@ -0,0 +1,124 @@
+import { Client, QueryResult, types as pgTypes } from 'pg';
+import { SqlStorageAdapter } from './sql';
+import { ColumnTypes } from './types';
+import { logger } from '../utils/logger';
+import { timeQuery } from '../utils/metrics';
+
+const INT8_OID = 20;
+const NUMERIC_OID = 1700;
+
+// COUNT and SUM come back as int8/numeric, which pg returns as strings to avoid precision loss.
+// The values here stay far below 2^53, so they are parsed as plain numbers like SQLite returns them.
+const getTypeParser = ((oid: number, format?: string) =>
+  oid === INT8_OID || oid === NUMERIC_OID
+    ? (value: string): number => Number(value)
+    : pgTypes.getTypeParser(oid, format as 'text')) as typeof pgTypes.getTypeParser;
+
+// Rewrites ? placeholders to $1, $2, ... while leaving quoted strings and identifiers alone
+export const toPostgresPlaceholders = (sql: string): string => {
+  let index = 0;
+  let quote: string | null = null;
+  let result = '';
+
+  for (const char of sql) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '?') {
+      result += `$${++index}`;
+      continue;
+    }
+    result += char;
+  }
+
+  return result;
+};
+
+// A single connection, like SQLite, so BEGIN/COMMIT issued by transaction() scope a real transaction
+export class PostgresAdapter extends SqlStorageAdapter {
+  readonly dialect = 'postgres' as const;
+  readonly types: ColumnTypes = {
+    id: 'SERIAL PRIMARY KEY',
+    timestamp: 'TEXT',
+    real: 'DOUBLE PRECISION'
+  };
+
+  private client: Client | null = null;
+  // pg wants one query at a time per client; callers may issue several concurrently
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private connectionString: string) {
+    super();
+  }
+
+  async connect(): Promise<void> {
+    const client = new Client({ connectionString: this.connectionString, types: { getTypeParser } });
+    try {
+      await client.connect();
+    } catch (error) {
+      logger.error('Error opening database:', error);
+      throw error;
+    }
+
+    client.on('error', (error) => logger.error('PostgreSQL connection error:', error));
+    this.client = client;
+    logger.info('Connected to PostgreSQL database');
+  }
+
+  protected async execute(sql: string, params: unknown[]): Promise<number> {
+    const result = await this.query(sql, params);
+    return result.rowCount ?? 0;
+  }
+
+  protected async queryRow<T>(sql: string, params: unknown[]): Promise<T | undefined> {
+    const result = await this.query(sql, params);
+    return result.rows[0] as T | undefined;
+  }
+
+  protected async queryRows<T>(sql: string, params: unknown[]): Promise<T[]> {
+    const result = await this.query(sql, params);
+    return result.rows as T[];
+  }
+
+  async tableExists(table: string): Promise<boolean> {
+    const row = await this.get(
+      'SELECT table_name FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ?',
+      [table]
+    );
+    return row !== undefined;
+  }
+
+  async columnExists(table: string, column: string): Promise<boolean> {
+    const row = await this.get(
+      `SELECT column_name FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = ? AND column_name = ?`,
+      [table, column]
+    );
+    return row !== undefined;
+  }
+
+  async close(): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+
+    await this.client.end();
+    this.client = null;
+    logger.info('Database connection closed');
+  }
+
+  private query(sql: string, params: unknown[]): Promise<QueryResult> {
+    const client = this.client;
+    if (!client) {
+      return Promise.reject(new Error('Database not initialized'));
+    }
+
+    // Timed once its turn comes, so the duration excludes waiting behind other queries
+    const result = this.queue.then(() => timeQuery(sql, () => client.query(toPostgresPlaceholders(sql), params)));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,265 @@
+import type { PingRecord } from '../services/database';
+import { ColumnTypes, PingRecordFilters, PingRecordRange, PingStatistics, SqlDialect, StorageAdapter } from './types';
+
+const PING_RECORD_COLUMNS = `
+  id,
+  timestamp,
+  request_payload as "requestPayload",
+  response_data as "responseData",
+  status_code as "statusCode",
+  response_time as "responseTime",
+  content_type as "contentType",
+  content_length as "contentLength",
+  request_type as "requestType",
+  monitor_id as "monitorId",
+  assertion_status as "assertionStatus",
+  assertion_results as "assertionResults",
+  dns_time as "dnsTime",
+  tcp_time as "tcpTime",
+  tls_time as "tlsTime",
+  ttfb_time as "ttfbTime",
+  download_time as "downloadTime",
+  trace_id as "traceId"
+`;
+
+// The WHERE clause shared by the paginated listing and the export
+const pingRecordWhere = (filters: PingRecordFilters): { whereClause: string; params: (string | number)[] } => {
+  let whereClause = 'WHERE 1=1';
+  const params: (string | number)[] = [];
+
+  if (filters.statusCode) {
+    whereClause += ' AND status_code = ?';
+    params.push(filters.statusCode);
+  }
+
+  if (filters.minResponseTime) {
+    whereClause += ' AND response_time >= ?';
+    params.push(filters.minResponseTime);
+  }
+
+  if (filters.maxResponseTime) {
+    whereClause += ' AND response_time <= ?';
+    params.push(filters.maxResponseTime);
+  }
+
+  if (filters.startTime) {
+    whereClause += ' AND timestamp >= ?';
+    params.push(filters.startTime);
+  }
+
+  if (filters.endTime) {
+    whereClause += ' AND timestamp <= ?';
+    params.push(filters.endTime);
+  }
+
+  if (filters.monitorId) {
+    whereClause += ' AND monitor_id = ?';
+    params.push(filters.monitorId);
+  }
+
+  return { whereClause, params };
+};
+
+// The ping record operations are plain SQL shared by every dialect; subclasses supply the connection.
+// Statements take turns on the one connection, and a transaction holds its turn until it commits or
+// rolls back, so no other caller's statement ends up inside it.
+export abstract class SqlStorageAdapter implements StorageAdapter {
+  abstract readonly dialect: SqlDialect;
+  abstract readonly types: ColumnTypes;
+
+  private turn: Promise<unknown> = Promise.resolve();
+  // Set on the handle a transaction passes to its callback, whose statements skip the line
+  private insideTransaction = false;
+
+  abstract connect(): Promise<void>;
+  protected abstract execute(sql: string, params: unknown[]): Promise<number>;
+  protected abstract queryRow<T>(sql: string, params: unknown[]): Promise<T | undefined>;
+  protected abstract queryRows<T>(sql: string, params: unknown[]): Promise<T[]>;
+  abstract tableExists(table: string): Promise<boolean>;
+  abstract columnExists(table: string, column: string): Promise<boolean>;
+  abstract close(): Promise<void>;
+
+  run(sql: string, params: unknown[] = []): Promise<number> {
+    return this.inTurn(() => this.execute(sql, params));
+  }
+
+  get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return this.inTurn(() => this.queryRow<T>(sql, params));
+  }
+
+  all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.inTurn(() => this.queryRows<T>(sql, params));
+  }
+
+  async transaction<T>(fn: (tx: StorageAdapter) => Promise<T>): Promise<T> {
+    if (this.insideTransaction) {
+      return fn(this);
+    }
+
+    return this.inTurn(async () => {
+      const tx: SqlStorageAdapter = Object.create(this);
+      tx.insideTransaction = true;
+      await tx.run('BEGIN TRANSACTION');
+      try {
+        const result = await fn(tx);
+        await tx.run('COMMIT');
+        return result;
+      } catch (error) {
+        await tx.run('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async insertPingRecord(record: Omit<PingRecord, 'id'>): Promise<number> {
+    const row = await this.get<{ id: number }>(
+      `INSERT INTO ping_records 
+        (timestamp, request_payload, response_data, status_code, response_time, content_type, content_length, request_type, monitor_id,
+         assertion_status, assertion_results, dns_time, tcp_time, tls_time, ttfb_time, download_time, trace_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id`,
+      [
+        record.timestamp,
+        record.requestPayload,
+        record.responseData,
+        record.statusCode,
+        record.responseTime,
+        record.contentType ?? null,
+        record.contentLength ?? null,
+        record.requestType || 'auto',
+        record.monitorId ?? null,
+        record.assertionStatus ?? null,
+        record.assertionResults ?? null,
+        record.dnsTime ?? null,
+        record.tcpTime ?? null,
+        record.tlsTime ?? null,
+        record.ttfbTime ?? null,
+        record.downloadTime ?? null,
+        record.traceId ?? null
+      ]
+    );
+    return row!.id;
+  }
+
+  async getPingRecords(
+    limit: number,
+    offset: number,
+    filters: PingRecordFilters
+  ): Promise<{ records: PingRecord[], total: number }> {
+    const { whereClause, params } = pingRecordWhere(filters);
+
+    const countRow = await this.get<{ total: number }>(`SELECT COUNT(*) as total FROM ping_records ${whereClause}`, params);
+    const records = await this.all<PingRecord>(
+      `SELECT ${PING_RECORD_COLUMNS}
+        FROM ping_records 
+        ${whereClause}
+        ORDER BY timestamp DESC
+        LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return {
+      records,
+      total: countRow?.total ?? 0
+    };
+  }
+
+  async getPingRecordsAfter(afterId: number, limit: number, filters: PingRecordFilters): Promise<PingRecord[]> {
+    const { whereClause, params } = pingRecordWhere(filters);
+    return this.all<PingRecord>(
+      `SELECT ${PING_RECORD_COLUMNS}
+        FROM ping_records
+        ${whereClause} AND id > ?
+        ORDER BY id
+        LIMIT ?`,
+      [...params, afterId, limit]
+    );
+  }
+
+  async getStatistics(since: string, monitorId?: number): Promise<PingStatistics> {
+    const rows = await this.all<{ totalRequests: number; sumResponseTime: number; successCount: number; statusCode: number }>(`
+      SELECT 
+        COUNT(*) as "totalRequests",
+        SUM(response_time) as "sumResponseTime",
+        SUM(CASE WHEN status_code < 400 AND COALESCE(assertion_status, '') != 'failed' THEN 1 ELSE 0 END) as "successCount",
+        status_code as "statusCode"
+      FROM ping_records 
+      WHERE timestamp >= ?
+      ${monitorId ? 'AND monitor_id = ?' : ''}
+      GROUP BY status_code
+    `, monitorId ? [since, monitorId] : [since]);
+
+    const statusCodeDistribution: Record<number, number> = {};
+    rows.forEach(row => {
+      statusCodeDistribution[row.statusCode] = row.totalRequests;
+    });
+
+    return {
+      totalRequests: rows.reduce((sum, row) => sum + row.totalRequests, 0),
+      successCount: rows.reduce((sum, row) => sum + row.successCount, 0),
+      sumResponseTime: rows.reduce((sum, row) => sum + row.sumResponseTime, 0),
+      statusCodeDistribution
+    };
+  }
+
+  async getRecentRecords(since: string, monitorId?: number): Promise<PingRecord[]> {
+    return this.all<PingRecord>(`
+      SELECT ${PING_RECORD_COLUMNS}
+      FROM ping_records 
+      WHERE timestamp >= ?
+      ${monitorId ? 'AND monitor_id = ?' : ''}
+      ORDER BY timestamp DESC
+    `, monitorId ? [since, monitorId] : [since]);
+  }
+
+  async getRecordsInOrder(range: PingRecordRange): Promise<PingRecord[]> {
+    let whereClause = 'WHERE 1=1';
+    const params: (string | number)[] = [];
+
+    if (range.afterId !== undefined) {
+      whereClause += ' AND id > ?';
+      params.push(range.afterId);
+    }
+
+    if (range.beforeId !== undefined) {
+      whereClause += ' AND id < ?';
+      params.push(range.beforeId);
+    }
+
+    if (range.since) {
+      whereClause += ' AND timestamp >= ?';
+      params.push(range.since);
+    }
+
+    if (range.until) {
+      whereClause += ' AND timestamp <= ?';
+      params.push(range.until);
+    }
+
+    if (range.monitorId === null) {
+      whereClause += ' AND monitor_id IS NULL';
+    } else if (range.monitorId !== undefined) {
+      whereClause += ' AND monitor_id = ?';
+      params.push(range.monitorId);
+    }
+
+    return this.all<PingRecord>(
+      `SELECT ${PING_RECORD_COLUMNS}
+        FROM ping_records
+        ${whereClause}
+        ORDER BY id
+        ${range.limit ? 'LIMIT ?' : ''}`,
+      range.limit ? [...params, range.limit] : params
+    );
+  }
+
+  private inTurn<T>(task: () => Promise<T>): Promise<T> {
+    if (this.insideTransaction) {
+      return task();
+    }
+
+    const result = this.turn.then(task);
+    this.turn = result.catch(() => undefined);
+    return result;
+  }
+}
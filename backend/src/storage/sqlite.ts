@@ -0,0 +1,114 @@
+import sqlite3 from 'sqlite3';
+import { SqlStorageAdapter } from './sql';
+import { ColumnTypes } from './types';
+import { logger } from '../utils/logger';
+import { timeQuery } from '../utils/metrics';
+
+export class SqliteAdapter extends SqlStorageAdapter {
+  readonly dialect = 'sqlite' as const;
+  readonly types: ColumnTypes = {
+    id: 'INTEGER PRIMARY KEY AUTOINCREMENT',
+    timestamp: 'DATETIME',
+    real: 'REAL'
+  };
+
+  private db: sqlite3.Database | null = null;
+
+  constructor(private filename: string) {
+    super();
+  }
+
+  async connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db = new sqlite3.Database(this.filename, (err) => {
+        if (err) {
+          logger.error('Error opening database:', err);
+          reject(err);
+        } else {
+          logger.info('Connected to SQLite database');
+          resolve();
+        }
+      });
+    });
+  }
+
+  protected execute(sql: string, params: unknown[]): Promise<number> {
+    return timeQuery(sql, () => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.run(sql, params, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    }));
+  }
+
+  protected queryRow<T>(sql: string, params: unknown[]): Promise<T | undefined> {
+    return timeQuery(sql, () => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.get(sql, params, (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row as T | undefined);
+        }
+      });
+    }));
+  }
+
+  protected queryRows<T>(sql: string, params: unknown[]): Promise<T[]> {
+    return timeQuery(sql, () => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.all(sql, params, (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows as T[]);
+        }
+      });
+    }));
+  }
+
+  async tableExists(table: string): Promise<boolean> {
+    const row = await this.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [table]);
+    return row !== undefined;
+  }
+
+  async columnExists(table: string, column: string): Promise<boolean> {
+    const columns = await this.all<{ name: string }>(`PRAGMA table_info(${table})`);
+    return columns.some(col => col.name === column);
+  }
+
+  async close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        resolve();
+        return;
+      }
+
+      this.db.close((err) => {
+        if (err) {
+          reject(err);
+        } else {
+          this.db = null;
+          logger.info('Database connection closed');
+          resolve();
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import type { PingRecord } from '../services/database';
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+// Column types that differ between dialects, for use in migrations
+export interface ColumnTypes {
+  // Auto-incrementing integer primary key
+  id: string;
+  // ISO-8601 strings; every timestamp comparison in the app is lexical
+  timestamp: string;
+  real: string;
+}
+
+// Statements use ? placeholders and double-quoted camelCase aliases so the same SQL runs on every dialect
+export interface SqlExecutor {
+  readonly dialect: SqlDialect;
+  readonly types: ColumnTypes;
+  // Resolves to the number of affected rows
+  run(sql: string, params?: unknown[]): Promise<number>;
+  get<T>(sql: string, params?: unknown[]): Promise<T | undefined>;
+  all<T>(sql: string, params?: unknown[]): Promise<T[]>;
+  tableExists(table: string): Promise<boolean>;
+  columnExists(table: string, column: string): Promise<boolean>;
+}
+
+export interface PingRecordFilters {
+  statusCode?: number;
+  minResponseTime?: number;
+  maxResponseTime?: number;
+  startTime?: string;
+  endTime?: string;
+  monitorId?: number;
+}
+
+// Records in insertion order, for replaying them through the anomaly detectors
+export interface PingRecordRange {
+  afterId?: number;
+  beforeId?: number;
+  since?: string;
+  until?: string;
+  // null selects the records without a monitor
+  monitorId?: number | null;
+  limit?: number;
+}
+
+// Raw-row aggregates since a point in time; DatabaseService merges them with rollups
+export interface PingStatistics {
+  totalRequests: number;
+  successCount: number;
+  sumResponseTime: number;
+  statusCodeDistribution: Record<number, number>;
+}
+
+export interface StorageAdapter extends SqlExecutor {
+  connect(): Promise<void>;
+  insertPingRecord(record: Omit<PingRecord, 'id'>): Promise<number>;
+  getPingRecords(limit: number, offset: number, filters: PingRecordFilters): Promise<{ records: PingRecord[], total: number }>;
+  // The next page of matching records by id, for exports that walk the whole table
+  getPingRecordsAfter(afterId: number, limit: number, filters: PingRecordFilters): Promise<PingRecord[]>;
+  getStatistics(since: string, monitorId?: number): Promise<PingStatistics>;
+  getRecentRecords(since: string, monitorId?: number): Promise<PingRecord[]>;
+  getRecordsInOrder(range: PingRecordRange): Promise<PingRecord[]>;
+  // Runs fn in a transaction; statements from other callers wait until it commits or rolls back.
+  // fn must issue its statements through tx, or it waits on itself.
+  transaction<T>(fn: (tx: StorageAdapter) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,69 @@
+// RFC 4180 quoting: fields with a comma, quote or line break are quoted and quotes doubled
+const csvField = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvRow = (values: unknown[]): string => values.map(csvField).join(',');
+
+export const toCsv = <T extends object>(columns: Array<keyof T & string>, rows: T[]): string =>
+  [csvRow(columns), ...rows.map(row => csvRow(columns.map(column => row[column])))].join('\n') + '\n';
+
+// Splits RFC 4180 text into records, with the line each one starts on; quoted fields may span lines
+export const parseCsv = (text: string): Array<{ line: number; values: string[] }> => {
+  const records: Array<{ line: number; values: string[] }> = [];
+  let values: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = (): void => {
+    values.push(field);
+    // Blank lines hold no record
+    if (values.length > 1 || values[0] !== '') {
+      records.push({ line: start, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || values.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
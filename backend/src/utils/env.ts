@@ -0,0 +1,9 @@
+// A positive number from the environment, or the fallback when the variable is unset, malformed,
+// zero or negative. Read it when a service is constructed or a value is needed, not at import:
+// index.ts loads .env only after the modules are imported.
+export const readNumberEnv = (key: string, fallback: number): number => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
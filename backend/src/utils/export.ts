@@ -0,0 +1,68 @@
+import { Response } from 'express';
+import { csvRow } from './csv';
+import { logger } from './logger';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+// Resolves once the response can take more data, or the client went away
+const drained = (res: Response): Promise<void> =>
+  new Promise(resolve => {
+    const done = (): void => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+
+// Writes rows as they are read, waiting whenever the client falls behind, and stops early if it
+// disconnects. The first row is read before anything is sent, so a failure there rejects and the
+// caller can still answer with an error; after that a failure can only cut the download short.
+export async function streamExport<T extends object>(
+  res: Response,
+  rows: AsyncIterable<T>,
+  options: { format: ExportFormat; columns: Array<keyof T & string>; filename: string; limit?: number }
+): Promise<void> {
+  const { format, columns, filename, limit } = options;
+  const iterator = rows[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+
+  let written = 0;
+  try {
+    if (format === 'csv' && !res.write(csvRow(columns) + '\n')) {
+      await drained(res);
+    }
+
+    while (!next.done) {
+      if (res.destroyed || written === limit) {
+        await iterator.return?.();
+        break;
+      }
+      const row = next.value;
+      const line = format === 'csv'
+        ? csvRow(columns.map(column => row[column])) + '\n'
+        : JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null]))) + '\n';
+      written++;
+      if (!res.write(line)) {
+        await drained(res);
+      }
+      next = await iterator.next();
+    }
+    res.end();
+  } catch (error) {
+    logger.error(`Export of ${filename} failed after ${written} rows:`, error);
+    res.destroy(error as Error);
+  }
+}
@@ -0,0 +1,98 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+// Everything GET /metrics exposes, in the Prometheus text format
+export const metricsRegistry = new Registry();
+
+const PREFIX = 'httpbin_monitor_';
+
+// Node process metrics: CPU, memory, heap, event loop lag, handles, GC
+collectDefaultMetrics({ register: metricsRegistry });
+
+// monitor_id is empty for the built-in HTTPBIN_URL check
+const PROBE_LABELS = ['monitor_id', 'monitor'] as const;
+
+const probeStatusCode = new Gauge({
+  name: `${PREFIX}probe_last_status_code`,
+  help: 'HTTP status of the last ping, 0 when no response arrived',
+  labelNames: PROBE_LABELS,
+  registers: [metricsRegistry]
+});
+
+const probeResponseTime = new Gauge({
+  name: `${PREFIX}probe_last_response_time_seconds`,
+  help: 'Response time of the last ping',
+  labelNames: PROBE_LABELS,
+  registers: [metricsRegistry]
+});
+
+const probeSuccess = new Gauge({
+  name: `${PREFIX}probe_success`,
+  help: 'Whether the last ping got a 2xx or 3xx response and passed its assertions',
+  labelNames: PROBE_LABELS,
+  registers: [metricsRegistry]
+});
+
+const probeDuration = new Histogram({
+  name: `${PREFIX}probe_response_time_seconds`,
+  help: 'Response times of all pings',
+  labelNames: PROBE_LABELS,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+const anomalies = new Counter({
+  name: `${PREFIX}anomalies_total`,
+  help: 'Anomalies stored by the detectors',
+  labelNames: ['type', 'severity'] as const,
+  registers: [metricsRegistry]
+});
+
+export const socketClients = new Gauge({
+  name: `${PREFIX}socketio_connected_clients`,
+  help: 'socket.io clients currently connected',
+  registers: [metricsRegistry]
+});
+
+const dbQueryDuration = new Histogram({
+  name: `${PREFIX}db_query_duration_seconds`,
+  help: 'Duration of database statements by their leading keyword',
+  labelNames: ['statement'] as const,
+  buckets: [0.0005, 0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1, 5],
+  registers: [metricsRegistry]
+});
+
+export interface ProbeResult {
+  monitorId: number | null;
+  // The monitor's name, or 'default' for the HTTPBIN_URL check
+  monitor: string;
+  statusCode: number;
+  responseTime: number;
+  assertionStatus?: 'passed' | 'failed' | null;
+}
+
+export function recordProbe(result: ProbeResult): void {
+  const labels = { monitor_id: result.monitorId === null ? '' : String(result.monitorId), monitor: result.monitor };
+  const seconds = result.responseTime / 1000;
+  const success = result.statusCode >= 200 && result.statusCode < 400 && result.assertionStatus !== 'failed';
+
+  probeStatusCode.set(labels, result.statusCode);
+  probeResponseTime.set(labels, seconds);
+  probeSuccess.set(labels, success ? 1 : 0);
+  probeDuration.observe(labels, seconds);
+}
+
+export function recordAnomaly(anomaly: { type: string; severity: string }): void {
+  anomalies.inc({ type: anomaly.type, severity: anomaly.severity });
+}
+
+// Labels a statement by its first keyword (select, insert, begin, ...) to keep the series few
+const statementKind = (sql: string): string => /^\s*(\w+)/.exec(sql)?.[1].toLowerCase() ?? 'other';
+
+export async function timeQuery<T>(sql: string, query: () => Promise<T>): Promise<T> {
+  const end = dbQueryDuration.startTimer({ statement: statementKind(sql) });
+  try {
+    return await query();
+  } finally {
+    end();
+  }
+}
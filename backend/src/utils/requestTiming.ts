@@ -0,0 +1,73 @@
+import * as http from 'http';
+import * as https from 'https';
+import { Duplex } from 'stream';
+import { performance } from 'perf_hooks';
+import type { PingTimings } from '../services/database';
+
+interface ConnectionMarks {
+  socket: number;
+  lookup?: number;
+  connect?: number;
+  secureConnect?: number;
+  firstByte?: number;
+}
+
+const elapsed = (from: number | undefined, to: number | undefined): number | null =>
+  from === undefined || to === undefined ? null : Math.round((to - from) * 100) / 100;
+
+// Measures the phases of one request. Pass both agents to the request; they never reuse a
+// connection, so every request gets its own socket whose events mark the phase boundaries.
+export class RequestTimer {
+  readonly httpAgent: http.Agent;
+  readonly httpsAgent: https.Agent;
+  private marks: ConnectionMarks | null = null;
+
+  constructor() {
+    this.httpAgent = new http.Agent({ keepAlive: false });
+    this.httpsAgent = new https.Agent({ keepAlive: false });
+
+    const createHttpConnection = this.httpAgent.createConnection.bind(this.httpAgent);
+    this.httpAgent.createConnection = (options, callback): Duplex | null | undefined => this.watch(createHttpConnection(options, callback));
+
+    const createHttpsConnection = this.httpsAgent.createConnection.bind(this.httpsAgent);
+    this.httpsAgent.createConnection = (options, callback): Duplex | null | undefined => this.watch(createHttpsConnection(options, callback));
+  }
+
+  // A redirect opens another connection; the phases then describe the last one
+  private watch<T extends Duplex | null | undefined>(socket: T): T {
+    if (!socket) {
+      return socket;
+    }
+
+    const marks: ConnectionMarks = { socket: performance.now() };
+    this.marks = marks;
+    socket.once('lookup', () => { marks.lookup = performance.now(); });
+    socket.once('connect', () => { marks.connect = performance.now(); });
+    socket.once('secureConnect', () => { marks.secureConnect = performance.now(); });
+    socket.once('data', () => { marks.firstByte = performance.now(); });
+    return socket;
+  }
+
+  // Call once the response body was read or the request failed
+  finish(): PingTimings {
+    const end = performance.now();
+    const marks = this.marks;
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+
+    if (!marks) {
+      return { dnsTime: null, tcpTime: null, tlsTime: null, ttfbTime: null, downloadTime: null };
+    }
+
+    // No lookup event means the host was an IP address, so there was nothing to resolve
+    const resolved = marks.lookup ?? (marks.connect !== undefined ? marks.socket : undefined);
+
+    return {
+      dnsTime: elapsed(marks.socket, resolved),
+      tcpTime: elapsed(resolved, marks.connect),
+      tlsTime: elapsed(marks.connect, marks.secureConnect),
+      ttfbTime: elapsed(marks.secureConnect ?? marks.connect, marks.firstByte),
+      downloadTime: elapsed(marks.firstByte, marks.firstByte !== undefined ? end : undefined)
+    };
+  }
+}
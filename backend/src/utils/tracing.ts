@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import {
+  Attributes,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  isSpanContextValid,
+  propagation,
+  trace
+} from '@opentelemetry/api';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource } from '@opentelemetry/resources';
+import { BatchSpanProcessor, ReadableSpan, SpanExporter, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVICE_NAME,
+  ATTR_URL_PATH
+} from '@opentelemetry/semantic-conventions';
+import { logger } from './logger';
+
+// otlp: OTEL_EXPORTER_OTLP_ENDPOINT (default http://localhost:4318); file: OTEL_TRACES_FILE; none: spans are only
+// used for the trace ids stored on ping records and sent in traceparent
+export type TraceExporter = 'otlp' | 'file' | 'none';
+
+export const TRACE_EXPORTERS: TraceExporter[] = ['otlp', 'file', 'none'];
+
+const DEFAULT_TRACES_FILE = './logs/traces.ndjson';
+
+// A proxy until initTracing registers the provider; without one every span is a no-op
+const tracer = trace.getTracer('httpbin-monitor');
+
+// Appends finished spans to a file as NDJSON, for reading traces without a collector
+export class FileSpanExporter implements SpanExporter {
+  constructor(private path: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map(span => JSON.stringify({
+      traceId: span.spanContext().traceId,
+      spanId: span.spanContext().spanId,
+      parentSpanId: span.parentSpanId ?? null,
+      name: span.name,
+      kind: SpanKind[span.kind],
+      startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+      durationMs: hrTimeToMilliseconds(span.duration),
+      status: SpanStatusCode[span.status.code],
+      ...(span.status.message ? { statusMessage: span.status.message } : {}),
+      attributes: span.attributes,
+      events: span.events.map(event => ({ name: event.name, attributes: event.attributes ?? {} }))
+    }) + '\n');
+
+    fs.mkdir(dirname(this.path), { recursive: true })
+      .then(() => fs.appendFile(this.path, lines.join('')))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error: Error) => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+// Registers the tracer provider, W3C trace context propagation and async context tracking.
+// Call once at startup, before spans are started; shut the provider down to flush pending spans.
+export function initTracing(env: NodeJS.ProcessEnv = process.env): NodeTracerProvider {
+  const exporter = (env.OTEL_TRACES_EXPORTER || 'none') as TraceExporter;
+  if (!TRACE_EXPORTERS.includes(exporter)) {
+    throw new Error(`OTEL_TRACES_EXPORTER must be one of ${TRACE_EXPORTERS.join(', ')}, got ${exporter}`);
+  }
+
+  const spanProcessors: SpanProcessor[] = [];
+  if (exporter === 'otlp') {
+    spanProcessors.push(new BatchSpanProcessor(new OTLPTraceExporter()));
+  } else if (exporter === 'file') {
+    spanProcessors.push(new BatchSpanProcessor(new FileSpanExporter(env.OTEL_TRACES_FILE || DEFAULT_TRACES_FILE)));
+  }
+
+  const provider = new NodeTracerProvider({
+    resource: new Resource({ [ATTR_SERVICE_NAME]: env.OTEL_SERVICE_NAME || 'httpbin-monitor' }),
+    spanProcessors
+  });
+  provider.register();
+  logger.info(`Tracing started (OTEL_TRACES_EXPORTER=${exporter})`);
+  return provider;
+}
+
+// Runs fn in a new span that is active for everything fn starts; failures mark the span and are rethrown
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => T | Promise<T>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes, kind }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      failSpan(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+export function failSpan(span: Span, error: unknown): void {
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+}
+
+// The trace the active span belongs to, or null when tracing is not initialised
+export function currentTraceId(): string | null {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && isSpanContextValid(spanContext) ? spanContext.traceId : null;
+}
+
+// traceparent (and tracestate) for an outbound request made in the active span
+export function traceHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  propagation.inject(context.active(), headers);
+  return headers;
+}
+
+// A server span per request, continuing the caller's trace when it sends traceparent.
+// It is named by the matched route once the response is done, e.g. GET /api/monitors/:id.
+export function traceRequests(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const parent = propagation.extract(context.active(), req.headers);
+    const span = tracer.startSpan(`${req.method} ${req.baseUrl}`, {
+      kind: SpanKind.SERVER,
+      attributes: {
+        [ATTR_HTTP_REQUEST_METHOD]: req.method,
+        [ATTR_URL_PATH]: req.originalUrl.split('?')[0]
+      }
+    }, parent);
+
+    let ended = false;
+    const end = (): void => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      const route = req.baseUrl + (req.route?.path ?? '');
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+      span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span.end();
+    };
+    res.on('finish', end);
+    res.on('close', end);
+
+    context.with(trace.setSpan(parent, span), next);
+  };
+}
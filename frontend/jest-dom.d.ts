@@ -0,0 +1,2 @@
+// Types for the matchers jest.setup.js adds, which TypeScript cannot see from a JS setup file
+import '@testing-library/jest-dom';
@@ -0,0 +1,72 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import { Header } from '@/components/Header'
+import { SchedulerStatus, User } from '@/types'
+
+describe('Header', () => {
+  const user: User = {
+    id: 1,
+    username: 'vera',
+    role: 'viewer',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    lastLoginAt: null
+  }
+
+  const scheduler: SchedulerStatus = {
+    running: true,
+    paused: false,
+    pausedAt: null,
+    pausedBy: null,
+    interval: 300000,
+    startedAt: '2024-01-01T00:00:00.000Z',
+    lastPingAt: null,
+    nextRunAt: '2024-01-01T00:05:00.000Z',
+    monitors: [],
+    inFlight: []
+  }
+
+  const renderHeader = (props: Partial<React.ComponentProps<typeof Header>> = {}) =>
+    render(
+      <Header
+        isConnected
+        user={user}
+        canTrigger={false}
+        scheduler={scheduler}
+        onManualPing={jest.fn()}
+        onToggleScheduler={jest.fn()}
+        onLogout={jest.fn()}
+        {...props}
+      />
+    )
+
+  it('shows the current user without the manual ping button for viewers', () => {
+    renderHeader()
+
+    expect(screen.getByText('vera')).toBeInTheDocument()
+    expect(screen.getByText('viewer')).toBeInTheDocument()
+    expect(screen.getByLabelText('Sign out')).toBeInTheDocument()
+    expect(screen.getByLabelText('Settings')).toHaveAttribute('href', '/settings')
+    expect(screen.queryByText('Manual Ping')).not.toBeInTheDocument()
+    expect(screen.getByText(/^Next ping/)).toBeInTheDocument()
+    expect(screen.queryByLabelText('Pause scheduled pings')).not.toBeInTheDocument()
+  })
+
+  it('shows the manual ping button to operators', () => {
+    renderHeader({ user: { ...user, role: 'operator' }, canTrigger: true })
+
+    expect(screen.getByText('Manual Ping')).toBeInTheDocument()
+  })
+
+  it('lets operators resume a paused scheduler', () => {
+    const onToggleScheduler = jest.fn()
+    renderHeader({
+      canTrigger: true,
+      scheduler: { ...scheduler, running: false, paused: true, pausedBy: 'otto', nextRunAt: null },
+      onToggleScheduler
+    })
+
+    expect(screen.getByText('Paused by otto')).toBeInTheDocument()
+    fireEvent.click(screen.getByLabelText('Resume scheduled pings'))
+    expect(onToggleScheduler).toHaveBeenCalled()
+  })
+})
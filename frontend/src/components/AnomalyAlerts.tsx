@@ -1,12 +1,51 @@
-import { AlertTriangle, X } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, Check, X } from 'lucide-react';
 import { AnomalyData } from '@/types';
+import { apiClient } from '@/lib/api';
 import { clsx } from 'clsx';
+import { TIMING_PHASES } from './RecordDetail';
+
+const HISTORY_PAGE_SIZE = 10;
 
 interface AnomalyAlertsProps {
   anomalies: AnomalyData[];
 }
 
 export function AnomalyAlerts({ anomalies }: AnomalyAlertsProps) {
+  const [history, setHistory] = useState<AnomalyData[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [acknowledgedIds, setAcknowledgedIds] = useState<Set<number>>(new Set());
+
+  const loadHistory = async (offset: number) => {
+    try {
+      const result = await apiClient.getAnomalies({ limit: HISTORY_PAGE_SIZE, offset });
+      setHistory(prev => offset === 0 ? result.anomalies : [...prev, ...result.anomalies]);
+      setHasMore(result.pagination?.hasMore ?? false);
+    } catch (error) {
+      console.error('Failed to load anomaly history:', error);
+    }
+  };
+
+  // Load stored anomalies on page load; live ones arrive through the anomalies prop
+  useEffect(() => {
+    loadHistory(0);
+  }, []);
+
+  // Live anomalies first, then history, without showing a stored anomaly twice
+  const allAnomalies = useMemo(() => {
+    const liveIds = new Set(anomalies.map(a => a.id).filter(id => id !== undefined));
+    return [...anomalies, ...history.filter(a => a.id === undefined || !liveIds.has(a.id))];
+  }, [anomalies, history]);
+
+  const handleAcknowledge = async (id: number) => {
+    try {
+      await apiClient.acknowledgeAnomaly(id);
+      setAcknowledgedIds(prev => new Set(prev).add(id));
+    } catch (error) {
+      console.error('Failed to acknowledge anomaly:', error);
+    }
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'high':
@@ -33,7 +72,7 @@ export function AnomalyAlerts({ anomalies }: AnomalyAlertsProps) {
     return new Date(timestamp).toLocaleString();
   };
 
-  if (anomalies.length === 0) {
+  if (allAnomalies.length === 0) {
     return null;
   }
 
@@ -42,14 +81,14 @@ export function AnomalyAlerts({ anomalies }: AnomalyAlertsProps) {
       <div className="flex items-center space-x-2">
         <AlertTriangle className="w-5 h-5 text-orange-600" />
         <h3 className="text-lg font-semibold text-gray-900">
-          Recent Anomalies ({anomalies.length})
+          Recent Anomalies ({allAnomalies.length})
         </h3>
       </div>
       
       <div className="space-y-2">
-        {anomalies.map((anomaly, index) => (
+        {allAnomalies.map((anomaly, index) => (
           <div
-            key={index}
+            key={anomaly.id ?? `live-${index}`}
             className={clsx(
               'border rounded-lg p-4 flex items-start space-x-3',
               getSeverityColor(anomaly.severity)
@@ -78,11 +117,40 @@ export function AnomalyAlerts({ anomalies }: AnomalyAlertsProps) {
                 <span>
                   Threshold: <strong>{anomaly.threshold}</strong>
                 </span>
+                {anomaly.phase && (
+                  <span>
+                    Phase: <strong>{TIMING_PHASES.find(p => p.phase === anomaly.phase)?.label ?? anomaly.phase}</strong>
+                  </span>
+                )}
+                {anomaly.id !== undefined && (
+                  anomaly.acknowledgedAt || acknowledgedIds.has(anomaly.id) ? (
+                    <span className="flex items-center space-x-1 opacity-75">
+                      <Check className="w-3 h-3" />
+                      <span>Acknowledged</span>
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleAcknowledge(anomaly.id!)}
+                      className="underline hover:no-underline"
+                    >
+                      Acknowledge
+                    </button>
+                  )
+                )}
               </div>
             </div>
           </div>
         ))}
       </div>
+
+      {hasMore && (
+        <button
+          onClick={() => loadHistory(history.length)}
+          className="btn btn-secondary w-full"
+        >
+          Load older anomalies
+        </button>
+      )}
     </div>
   );
 }
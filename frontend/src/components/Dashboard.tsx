@@ -1,12 +1,16 @@
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
 import { Header } from './Header';
 import { StatsCards } from './StatsCards';
 import { DataTable } from './DataTable';
 import { AnomalyAlerts } from './AnomalyAlerts';
+import { IncidentsPanel } from './IncidentsPanel';
+import { SloPanel } from './SloPanel';
 import { ResponseTimeChart } from './ResponseTimeChart';
+import { MonitorSelector } from './MonitorSelector';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { apiClient } from '@/lib/api';
-import { PingRecord, Statistics, FilterOptions } from '@/types';
+import { PingRecord, Statistics, FilterOptions, Monitor, AuthSession, SchedulerStatus } from '@/types';
 import { LoadingSpinner } from './LoadingSpinner';
 
 interface DashboardProps {
@@ -14,9 +18,11 @@ interface DashboardProps {
     records: PingRecord[];
     stats: Statistics;
   } | null;
+  session: AuthSession;
 }
 
-export function Dashboard({ initialData }: DashboardProps) {
+export function Dashboard({ initialData, session }: DashboardProps) {
+  const router = useRouter();
   const [records, setRecords] = useState<PingRecord[]>(initialData?.records || []);
   const [stats, setStats] = useState<Statistics>(initialData?.stats || {
     totalRequests: 0,
@@ -34,8 +40,30 @@ export function Dashboard({ initialData }: DashboardProps) {
     initialData?.records?.[0]?.id || null
   );
   const [hasActiveFilters, setHasActiveFilters] = useState(false);
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [scheduler, setScheduler] = useState<SchedulerStatus | null>(null);
 
-  const { isConnected, newRecords, anomalies } = useWebSocket();
+  const { isConnected, newRecords, anomalies, incidents } = useWebSocket();
+
+  // Load configured monitors for the selector
+  useEffect(() => {
+    apiClient.getMonitors()
+      .then(setMonitors)
+      .catch((error) => console.error('Failed to load monitors:', error));
+  }, []);
+
+  // Keep the scheduler state in the header current, e.g. after another user paused it
+  useEffect(() => {
+    const loadScheduler = () => {
+      apiClient.getSchedulerStatus()
+        .then(setScheduler)
+        .catch((error) => console.error('Failed to load the scheduler status:', error));
+    };
+
+    loadScheduler();
+    const interval = setInterval(loadScheduler, 30000); // Every 30 seconds
+    return () => clearInterval(interval);
+  }, []);
 
   // Check if filters are active
   useEffect(() => {
@@ -55,7 +83,8 @@ export function Dashboard({ initialData }: DashboardProps) {
     if (newRecords.length > 0 && !hasActiveFilters) {
       // Process only new records that haven't been processed yet
       const unprocessedRecords = newRecords.filter(
-        r => !lastProcessedRecordId || r.id > lastProcessedRecordId
+        r => (!lastProcessedRecordId || r.id > lastProcessedRecordId) &&
+          (filters.monitorId === undefined || r.monitorId === filters.monitorId)
       );
       
       if (unprocessedRecords.length > 0) {
@@ -77,7 +106,7 @@ export function Dashboard({ initialData }: DashboardProps) {
         // Update stats immediately when new records arrive
         const updateStats = async () => {
           try {
-            const newStats = await apiClient.getStatistics(24);
+            const newStats = await apiClient.getStatistics(24, filters.monitorId);
             setStats(newStats);
           } catch (error) {
             console.error('Failed to refresh stats:', error);
@@ -86,13 +115,13 @@ export function Dashboard({ initialData }: DashboardProps) {
         updateStats();
       }
     }
-  }, [newRecords, lastProcessedRecordId, hasActiveFilters]);
+  }, [newRecords, lastProcessedRecordId, hasActiveFilters, filters.monitorId]);
 
   // Refresh stats periodically
   useEffect(() => {
     const interval = setInterval(async () => {
       try {
-        const newStats = await apiClient.getStatistics(24);
+        const newStats = await apiClient.getStatistics(24, filters.monitorId);
         setStats(newStats);
       } catch (error) {
         console.error('Failed to refresh stats:', error);
@@ -100,7 +129,7 @@ export function Dashboard({ initialData }: DashboardProps) {
     }, 30000); // Every 30 seconds
 
     return () => clearInterval(interval);
-  }, []);
+  }, [filters.monitorId]);
 
   const handleFilterChange = async (newFilters: FilterOptions) => {
     setLoading(true);
@@ -118,6 +147,15 @@ export function Dashboard({ initialData }: DashboardProps) {
     }
   };
 
+  const handleMonitorChange = async (monitorId?: number) => {
+    await handleFilterChange({ ...filters, offset: 0, monitorId });
+    try {
+      setStats(await apiClient.getStatistics(24, monitorId));
+    } catch (error) {
+      console.error('Failed to fetch monitor stats:', error);
+    }
+  };
+
   const handleManualPing = async () => {
     setLoading(true);
     try {
@@ -130,7 +168,7 @@ export function Dashboard({ initialData }: DashboardProps) {
         try {
           const [result, newStats] = await Promise.all([
             apiClient.getPingRecords(filters),
-            apiClient.getStatistics(24)
+            apiClient.getStatistics(24, filters.monitorId)
           ]);
           
           // Merge with existing records, avoiding duplicates
@@ -165,29 +203,74 @@ export function Dashboard({ initialData }: DashboardProps) {
     }
   };
 
+  const handleToggleScheduler = async () => {
+    if (!scheduler) {
+      return;
+    }
+    try {
+      setScheduler(await apiClient.setSchedulerPaused(!scheduler.paused));
+    } catch (error) {
+      console.error('Failed to change the scheduler:', error);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await apiClient.logout();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
+    router.replace('/login');
+  };
+
+  // The backend checks the role too; this only hides what the user may not do
+  const canTrigger = session.scopes.includes('trigger') || session.scopes.includes('admin');
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
         isConnected={isConnected}
+        user={session.user}
+        canTrigger={canTrigger}
+        scheduler={scheduler}
         onManualPing={handleManualPing}
+        onToggleScheduler={handleToggleScheduler}
+        onLogout={handleLogout}
       />
       
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Monitor Selector */}
+        <div className="mb-6">
+          <MonitorSelector
+            monitors={monitors}
+            selectedMonitorId={filters.monitorId}
+            onChange={handleMonitorChange}
+          />
+        </div>
+
         {/* Stats Cards */}
         <StatsCards stats={stats} />
         
-        {/* Anomaly Alerts */}
-        {anomalies.length > 0 && (
-          <div className="mt-6">
-            <AnomalyAlerts anomalies={anomalies} />
-          </div>
-        )}
+        {/* SLO attainment, error budget and burn rates */}
+        <div className="mt-6">
+          <SloPanel monitorId={filters.monitorId} />
+        </div>
+
+        {/* Open and recently resolved incidents */}
+        <div className="mt-6">
+          <IncidentsPanel liveIncidents={incidents} />
+        </div>
+
+        {/* Anomaly Alerts (live + stored history) */}
+        <div className="mt-6">
+          <AnomalyAlerts anomalies={anomalies} />
+        </div>
         
         {/* Charts and Table */}
         <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Response Time Chart */}
           <div className="lg:col-span-2">
-            <ResponseTimeChart records={records.slice(0, 50)} />
+            <ResponseTimeChart monitorId={filters.monitorId} refreshKey={records[0]?.id} />
           </div>
           
           {/* Data Table */}
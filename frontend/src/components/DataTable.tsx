@@ -5,10 +5,14 @@ import {
   ChevronLeft, 
   ChevronRight,
   Filter,
+  Download,
   X
 } from 'lucide-react';
-import { PingRecord, FilterOptions } from '@/types';
+import { PingRecord, FilterOptions, AssertionResult, ExportFormat } from '@/types';
 import { clsx } from 'clsx';
+import { apiClient } from '@/lib/api';
+import toast from 'react-hot-toast';
+import { RecordDetail } from './RecordDetail';
 
 interface DataTableProps {
   records: PingRecord[];
@@ -24,6 +28,9 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [showFilters, setShowFilters] = useState(false);
   const [localFilters, setLocalFilters] = useState<FilterOptions>(filters);
+  const [selectedRecord, setSelectedRecord] = useState<PingRecord | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
 
   // Sync localFilters with filters prop when it changes
   useEffect(() => {
@@ -64,6 +71,7 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
     const filtersToApply: FilterOptions = {
       limit: localFilters.limit || filters.limit || 50,
       offset: 0, // Always reset to first page when applying filters
+      monitorId: filters.monitorId, // Monitor is chosen outside the table, keep it
     };
     
     // Only include filter criteria if they have values
@@ -91,13 +99,26 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
     // Reset to default filters, clearing all filter criteria
     const defaultFilters: FilterOptions = { 
       limit: filters.limit || 50, 
-      offset: 0 
+      offset: 0,
+      monitorId: filters.monitorId
     };
     setLocalFilters(defaultFilters);
     onFilterChange(defaultFilters);
     setShowFilters(false);
   };
 
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await apiClient.downloadExport(filters, exportFormat);
+    } catch (error) {
+      console.error('Failed to export records:', error);
+      toast.error('Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const getStatusColor = (statusCode: number) => {
     if (statusCode >= 200 && statusCode < 300) return 'text-green-600 bg-green-50';
     if (statusCode >= 300 && statusCode < 400) return 'text-yellow-600 bg-yellow-50';
@@ -110,6 +131,21 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
     return new Date(timestamp).toLocaleString();
   };
 
+  const getFailedAssertions = (record: PingRecord): AssertionResult[] => {
+    if (!record.assertionResults) return [];
+    try {
+      return (JSON.parse(record.assertionResults) as AssertionResult[]).filter(r => !r.passed);
+    } catch {
+      return [];
+    }
+  };
+
+  const getAssertionFailureLabel = (record: PingRecord, failed: AssertionResult[]) => {
+    if (record.statusCode === 0 || record.statusCode >= 400) return 'Failed';
+    const payloadOnly = failed.length > 0 && failed.every(r => r.type === 'json_path' || r.type === 'body_regex');
+    return `${record.statusCode} but ${payloadOnly ? 'wrong payload' : 'assertions failed'}`;
+  };
+
   const totalRecords = filters.total ?? records.length;
   const totalPages = Math.ceil(totalRecords / filters.limit);
   const currentPage = Math.floor(filters.offset / filters.limit) + 1;
@@ -146,6 +182,24 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
               <Filter className="w-4 h-4" />
               <span>Filters</span>
             </button>
+            <select
+              className="input w-auto"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="Export format"
+            >
+              <option value="csv">CSV</option>
+              <option value="ndjson">NDJSON</option>
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={exporting}
+              className="btn btn-secondary flex items-center space-x-2 disabled:opacity-50"
+              title="Download every record matching the current filters"
+            >
+              <Download className="w-4 h-4" />
+              <span>{exporting ? 'Exporting...' : 'Export filtered'}</span>
+            </button>
           </div>
         </div>
 
@@ -258,6 +312,9 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
                   )}
                 </div>
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Assertions
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Request Type
               </th>
@@ -271,7 +328,11 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {sortedRecords.map((record) => (
-              <tr key={record.id} className="hover:bg-gray-50">
+              <tr
+                key={record.id}
+                onClick={() => setSelectedRecord(record)}
+                className="hover:bg-gray-50 cursor-pointer"
+              >
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                   {formatTimestamp(record.timestamp)}
                 </td>
@@ -286,6 +347,26 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                   {record.responseTime}ms
                 </td>
+                <td className="px-6 py-4 text-sm">
+                  {record.assertionStatus === 'failed' ? (
+                    <div>
+                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full text-red-600 bg-red-50">
+                        {getAssertionFailureLabel(record, getFailedAssertions(record))}
+                      </span>
+                      {getFailedAssertions(record).map((result, index) => (
+                        <p key={index} className="text-xs text-red-700 mt-1">
+                          {result.message}
+                        </p>
+                      ))}
+                    </div>
+                  ) : record.assertionStatus === 'passed' ? (
+                    <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full text-green-600 bg-green-50">
+                      Passed
+                    </span>
+                  ) : (
+                    <span className="text-gray-400">N/A</span>
+                  )}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={clsx(
                     'inline-flex px-2 py-1 text-xs font-semibold rounded-full',
@@ -347,6 +428,10 @@ export function DataTable({ records, filters, onFilterChange }: DataTableProps)
           </div>
         </div>
       )}
+
+      {selectedRecord && (
+        <RecordDetail record={selectedRecord} onClose={() => setSelectedRecord(null)} />
+      )}
     </div>
   );
 }
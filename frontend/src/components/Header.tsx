@@ -1,12 +1,23 @@
-import { Activity, Wifi, WifiOff, RefreshCw } from 'lucide-react';
+import Link from 'next/link';
+import { Activity, Wifi, WifiOff, RefreshCw, LogOut, UserCircle, Settings, Pause, Play } from 'lucide-react';
 import { clsx } from 'clsx';
+import { SchedulerStatus, User } from '@/types';
 
 interface HeaderProps {
   isConnected: boolean;
+  // null when the backend runs without authentication
+  user: User | null;
+  canTrigger: boolean;
+  // null until loaded
+  scheduler: SchedulerStatus | null;
   onManualPing: () => void;
+  onToggleScheduler: () => void;
+  onLogout: () => void;
 }
 
-export function Header({ isConnected, onManualPing }: HeaderProps) {
+const formatTime = (timestamp: string): string => new Date(timestamp).toLocaleTimeString();
+
+export function Header({ isConnected, user, canTrigger, scheduler, onManualPing, onToggleScheduler, onLogout }: HeaderProps) {
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -45,14 +56,70 @@ export function Header({ isConnected, onManualPing }: HeaderProps) {
               )}
             </div>
 
-            {/* Manual Ping Button */}
-            <button
-              onClick={onManualPing}
-              className="btn btn-primary flex items-center space-x-2"
+            {/* Scheduler State, with pause and resume for operators and admins */}
+            {scheduler && (
+              <div className="flex items-center space-x-2">
+                <span
+                  className={clsx('text-sm', scheduler.paused ? 'font-medium text-yellow-600' : 'text-gray-500')}
+                  title={scheduler.inFlight.length > 0 ? `${scheduler.inFlight.length} ping(s) in flight` : undefined}
+                >
+                  {scheduler.paused
+                    ? `Paused${scheduler.pausedBy ? ` by ${scheduler.pausedBy}` : ''}`
+                    : scheduler.nextRunAt
+                      ? `Next ping ${formatTime(scheduler.nextRunAt)}`
+                      : 'Not scheduled'}
+                </span>
+                {canTrigger && (
+                  <button
+                    onClick={onToggleScheduler}
+                    title={scheduler.paused ? 'Resume scheduled pings' : 'Pause scheduled pings'}
+                    aria-label={scheduler.paused ? 'Resume scheduled pings' : 'Pause scheduled pings'}
+                    className="p-2 text-gray-400 hover:text-gray-600 rounded-md"
+                  >
+                    {scheduler.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Manual Ping Button, for operators and admins */}
+            {canTrigger && (
+              <button
+                onClick={onManualPing}
+                className="btn btn-primary flex items-center space-x-2"
+              >
+                <RefreshCw className="w-4 h-4" />
+                <span>Manual Ping</span>
+              </button>
+            )}
+
+            <Link
+              href="/settings"
+              title="Settings"
+              aria-label="Settings"
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-md"
             >
-              <RefreshCw className="w-4 h-4" />
-              <span>Manual Ping</span>
-            </button>
+              <Settings className="w-5 h-5" />
+            </Link>
+
+            {/* Current User */}
+            {user && (
+              <div className="flex items-center space-x-3 pl-4 border-l border-gray-200">
+                <UserCircle className="w-5 h-5 text-gray-400" />
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900">{user.username}</p>
+                  <p className="text-gray-500 capitalize">{user.role}</p>
+                </div>
+                <button
+                  onClick={onLogout}
+                  title="Sign out"
+                  aria-label="Sign out"
+                  className="p-2 text-gray-400 hover:text-gray-600 rounded-md"
+                >
+                  <LogOut className="w-4 h-4" />
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,142 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ShieldAlert, CheckCircle } from 'lucide-react';
+import { Incident } from '@/types';
+import { apiClient } from '@/lib/api';
+import { clsx } from 'clsx';
+
+const RESOLVED_LIMIT = 5;
+
+interface IncidentsPanelProps {
+  liveIncidents: Incident[];
+}
+
+export function IncidentsPanel({ liveIncidents }: IncidentsPanelProps) {
+  const [loaded, setLoaded] = useState<Incident[]>([]);
+
+  // Load active and recently resolved incidents on page load; updates arrive through liveIncidents
+  useEffect(() => {
+    const loadIncidents = async () => {
+      try {
+        const [active, resolved] = await Promise.all([
+          apiClient.getIncidents({ status: 'active', limit: 50 }),
+          apiClient.getIncidents({ status: 'resolved', limit: RESOLVED_LIMIT }),
+        ]);
+        setLoaded([...active, ...resolved]);
+      } catch (error) {
+        console.error('Failed to load incidents:', error);
+      }
+    };
+
+    loadIncidents();
+  }, []);
+
+  // The socket copy of an incident is newer than the one loaded on page load
+  const { active, resolved } = useMemo(() => {
+    const byId = new Map<number, Incident>();
+    [...loaded, ...liveIncidents].forEach(incident => byId.set(incident.id, incident));
+    const all = Array.from(byId.values())
+      .sort((a, b) => new Date(b.lastSeenAt).getTime() - new Date(a.lastSeenAt).getTime());
+
+    return {
+      active: all.filter(incident => incident.status !== 'resolved'),
+      resolved: all.filter(incident => incident.status === 'resolved').slice(0, RESOLVED_LIMIT),
+    };
+  }, [loaded, liveIncidents]);
+
+  const handleAcknowledge = async (id: number) => {
+    try {
+      const incident = await apiClient.acknowledgeIncident(id);
+      setLoaded(prev => [...prev.filter(i => i.id !== id), incident]);
+    } catch (error) {
+      console.error('Failed to acknowledge incident:', error);
+    }
+  };
+
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'high':
+        return 'bg-red-50 border-red-200 text-red-800';
+      case 'medium':
+        return 'bg-orange-50 border-orange-200 text-orange-800';
+      case 'low':
+        return 'bg-yellow-50 border-yellow-200 text-yellow-800';
+      default:
+        return 'bg-gray-50 border-gray-200 text-gray-800';
+    }
+  };
+
+  const formatTimestamp = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString();
+  };
+
+  if (active.length === 0 && resolved.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center space-x-2">
+        <ShieldAlert className="w-5 h-5 text-red-600" />
+        <h3 className="text-lg font-semibold text-gray-900">
+          Incidents ({active.length} active)
+        </h3>
+      </div>
+
+      {active.length === 0 ? (
+        <p className="text-sm text-gray-500">No active incidents</p>
+      ) : (
+        <div className="space-y-2">
+          {active.map((incident) => (
+            <div
+              key={incident.id}
+              className={clsx(
+                'border rounded-lg p-4 flex items-start justify-between',
+                getSeverityColor(incident.severity)
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium capitalize">
+                  {incident.type.replace('_', ' ')} - {incident.severity}
+                  {incident.status === 'acknowledged' && (
+                    <span className="ml-2 text-xs normal-case opacity-75">(acknowledged)</span>
+                  )}
+                </p>
+                <p className="text-sm mt-1">{incident.message}</p>
+                <p className="text-xs mt-2 opacity-75">
+                  Opened {formatTimestamp(incident.openedAt)} · last seen {formatTimestamp(incident.lastSeenAt)} ·{' '}
+                  {incident.anomalyCount} {incident.anomalyCount === 1 ? 'anomaly' : 'anomalies'}
+                </p>
+              </div>
+
+              {incident.status === 'open' && (
+                <button
+                  onClick={() => handleAcknowledge(incident.id)}
+                  className="btn btn-secondary ml-4 text-xs"
+                >
+                  Acknowledge
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {resolved.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Recently resolved</h4>
+          <ul className="space-y-1">
+            {resolved.map((incident) => (
+              <li key={incident.id} className="flex items-center space-x-2 text-sm text-gray-600">
+                <CheckCircle className="w-4 h-4 text-green-500" />
+                <span className="capitalize">{incident.type.replace('_', ' ')}</span>
+                <span className="opacity-75">
+                  {formatTimestamp(incident.openedAt)} – {incident.resolvedAt ? formatTimestamp(incident.resolvedAt) : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { Server } from 'lucide-react';
+import { Monitor } from '@/types';
+
+interface MonitorSelectorProps {
+  monitors: Monitor[];
+  selectedMonitorId?: number;
+  onChange: (monitorId?: number) => void;
+}
+
+export function MonitorSelector({ monitors, selectedMonitorId, onChange }: MonitorSelectorProps) {
+  if (monitors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-3">
+      <Server className="w-5 h-5 text-gray-500" />
+      <label htmlFor="monitor-selector" className="text-sm font-medium text-gray-700">
+        Monitor
+      </label>
+      <select
+        id="monitor-selector"
+        className="input max-w-xs"
+        value={selectedMonitorId ?? ''}
+        onChange={(e) => onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+      >
+        <option value="">All targets</option>
+        {monitors.map((monitor) => (
+          <option key={monitor.id} value={monitor.id}>
+            {monitor.name}{monitor.enabled ? '' : ' (disabled)'}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
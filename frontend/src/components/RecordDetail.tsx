@@ -0,0 +1,89 @@
+import { X } from 'lucide-react';
+import { PingRecord, TimingPhase } from '@/types';
+
+export const TIMING_PHASES: Array<{ phase: TimingPhase; field: keyof PingRecord; label: string; color: string }> = [
+  { phase: 'dns', field: 'dnsTime', label: 'DNS lookup', color: 'bg-teal-500' },
+  { phase: 'tcp', field: 'tcpTime', label: 'TCP connect', color: 'bg-orange-500' },
+  { phase: 'tls', field: 'tlsTime', label: 'TLS handshake', color: 'bg-purple-500' },
+  { phase: 'ttfb', field: 'ttfbTime', label: 'Time to first byte', color: 'bg-green-500' },
+  { phase: 'download', field: 'downloadTime', label: 'Content download', color: 'bg-blue-500' },
+];
+
+interface RecordDetailProps {
+  record: PingRecord;
+  onClose: () => void;
+}
+
+const formatJson = (value: string) => {
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+};
+
+export function RecordDetail({ record, onClose }: RecordDetailProps) {
+  // Phases run one after another, so each bar starts where the previous one ended
+  let offset = 0;
+  const phases = TIMING_PHASES.flatMap(({ field, ...phase }) => {
+    const duration = record[field];
+    if (typeof duration !== 'number') return [];
+    const start = offset;
+    offset += duration;
+    return [{ ...phase, start, duration }];
+  });
+  const total = Math.max(offset, record.responseTime, 1);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="card w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Request #{record.id}</h2>
+            <p className="text-sm text-gray-500">
+              {new Date(record.timestamp).toLocaleString()} · Status {record.statusCode} · {record.responseTime}ms
+            </p>
+            {record.traceId && (
+              <p className="text-xs text-gray-400 font-mono">Trace {record.traceId}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Timing</h3>
+        {phases.length === 0 ? (
+          <p className="text-sm text-gray-500">No timing phases were recorded for this request.</p>
+        ) : (
+          <div className="space-y-2">
+            {phases.map((phase) => (
+              <div key={phase.phase} className="flex items-center text-sm">
+                <span className="w-40 text-gray-600">{phase.label}</span>
+                <div className="relative flex-1 h-4 bg-gray-100 rounded">
+                  <div
+                    className={`absolute h-4 rounded ${phase.color}`}
+                    style={{
+                      left: `${(phase.start / total) * 100}%`,
+                      width: `max(${(phase.duration / total) * 100}%, 2px)`,
+                    }}
+                  />
+                </div>
+                <span className="w-20 text-right text-gray-900">{phase.duration.toFixed(1)}ms</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 mt-6 mb-2">Request payload</h3>
+        <pre className="text-xs bg-gray-50 rounded p-3 overflow-x-auto max-h-48">{formatJson(record.requestPayload)}</pre>
+
+        <h3 className="text-sm font-medium text-gray-700 mt-4 mb-2">Response</h3>
+        <pre className="text-xs bg-gray-50 rounded p-3 overflow-x-auto max-h-48">{formatJson(record.responseData)}</pre>
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,57 @@
-import { useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { PingRecord } from '@/types';
+import { useState, useEffect, useMemo } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SeriesBucket, SeriesPoint } from '@/types';
+import { apiClient } from '@/lib/api';
+import { clsx } from 'clsx';
+
+const RANGES: Array<{ label: string; minutes: number; bucket: SeriesBucket }> = [
+  { label: '1h', minutes: 60, bucket: '1m' },
+  { label: '6h', minutes: 6 * 60, bucket: '5m' },
+  { label: '24h', minutes: 24 * 60, bucket: '5m' },
+  { label: '7d', minutes: 7 * 24 * 60, bucket: '1h' },
+  { label: '90d', minutes: 90 * 24 * 60, bucket: '1d' },
+];
 
 interface ResponseTimeChartProps {
-  records: PingRecord[];
+  monitorId?: number;
+  // Changes whenever new records arrive so the series is refetched
+  refreshKey?: number;
 }
 
-export function ResponseTimeChart({ records }: ResponseTimeChartProps) {
+export function ResponseTimeChart({ monitorId, refreshKey }: ResponseTimeChartProps) {
+  const [range, setRange] = useState(RANGES[0]);
+  const [points, setPoints] = useState<SeriesPoint[]>([]);
+
+  useEffect(() => {
+    const loadSeries = async () => {
+      try {
+        const to = new Date();
+        const from = new Date(to.getTime() - range.minutes * 60 * 1000);
+        setPoints(await apiClient.getSeries({
+          bucket: range.bucket,
+          from: from.toISOString(),
+          to: to.toISOString(),
+          monitorId,
+        }));
+      } catch (error) {
+        console.error('Failed to load response time series:', error);
+      }
+    };
+
+    loadSeries();
+  }, [range, monitorId, refreshKey]);
+
   const chartData = useMemo(() => {
-    return records
-      .slice()
-      .reverse()
-      .map((record) => ({
-        timestamp: new Date(record.timestamp).toLocaleTimeString([], {
-          hour: '2-digit',
-          minute: '2-digit'
-        }),
-        responseTime: record.responseTime,
-        statusCode: record.statusCode,
-        fullTimestamp: record.timestamp
-      }));
-  }, [records]);
+    return points.map((point) => ({
+      ...point,
+      timestamp: new Date(point.bucketStart).toLocaleString([], range.minutes > 24 * 60
+        ? { month: 'short', day: 'numeric', hour: '2-digit' }
+        : { hour: '2-digit', minute: '2-digit' }),
+      // Range areas render as bands between the two values
+      p50to95: [point.p50, point.p95],
+      p95to99: [point.p95, point.p99],
+    }));
+  }, [points, range]);
 
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
@@ -28,13 +59,17 @@ export function ResponseTimeChart({ records }: ResponseTimeChartProps) {
       return (
         <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
           <p className="text-sm font-medium text-gray-900">
-            {data.fullTimestamp}
+            {new Date(data.bucketStart).toLocaleString()}
+          </p>
+          <p className="text-sm text-gray-600">
+            p50 / p95 / p99: <span className="font-medium">{data.p50} / {data.p95} / {data.p99}ms</span>
           </p>
           <p className="text-sm text-gray-600">
-            Response Time: <span className="font-medium">{data.responseTime}ms</span>
+            Avg: <span className="font-medium">{data.avg}ms</span> (min {data.min}, max {data.max})
           </p>
           <p className="text-sm text-gray-600">
-            Status: <span className="font-medium">{data.statusCode}</span>
+            Requests: <span className="font-medium">{data.count}</span>
+            {data.errorCount > 0 && <span className="text-red-600"> ({data.errorCount} failed)</span>}
           </p>
         </div>
       );
@@ -44,38 +79,68 @@ export function ResponseTimeChart({ records }: ResponseTimeChartProps) {
 
   return (
     <div className="card p-6">
-      <h2 className="text-lg font-semibold text-gray-900 mb-4">
-        Response Time Trend
-      </h2>
-      
-      {records.length === 0 ? (
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Response Time Percentiles
+        </h2>
+        <div className="flex space-x-1">
+          {RANGES.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setRange(option)}
+              className={clsx(
+                'btn text-xs',
+                option.label === range.label ? 'btn-primary' : 'btn-secondary'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {points.length === 0 ? (
         <div className="flex items-center justify-center h-64 text-gray-500">
           No data available
         </div>
       ) : (
         <ResponsiveContainer width="100%" height={300}>
-          <LineChart data={chartData}>
+          <ComposedChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-            <XAxis 
+            <XAxis
               dataKey="timestamp"
               tick={{ fontSize: 12 }}
               stroke="#6b7280"
             />
-            <YAxis 
+            <YAxis
               tick={{ fontSize: 12 }}
               stroke="#6b7280"
               label={{ value: 'Response Time (ms)', angle: -90, position: 'insideLeft' }}
             />
             <Tooltip content={<CustomTooltip />} />
+            <Area
+              type="monotone"
+              dataKey="p95to99"
+              stroke="none"
+              fill="#bfdbfe"
+              fillOpacity={0.6}
+            />
+            <Area
+              type="monotone"
+              dataKey="p50to95"
+              stroke="none"
+              fill="#93c5fd"
+              fillOpacity={0.6}
+            />
             <Line
               type="monotone"
-              dataKey="responseTime"
+              dataKey="p50"
               stroke="#3b82f6"
               strokeWidth={2}
-              dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
-              activeDot={{ r: 6 }}
+              dot={false}
+              activeDot={{ r: 5 }}
             />
-          </LineChart>
+          </ComposedChart>
         </ResponsiveContainer>
       )}
     </div>
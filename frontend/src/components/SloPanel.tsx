@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { Target } from 'lucide-react';
+import { SloStatus } from '@/types';
+import { apiClient } from '@/lib/api';
+import { clsx } from 'clsx';
+
+const REFRESH_INTERVAL = 60000;
+
+interface SloPanelProps {
+  monitorId?: number;
+}
+
+const STATE_LABELS: Record<SloStatus['state'], { label: string; className: string }> = {
+  met: { label: 'Met', className: 'bg-green-100 text-green-800' },
+  at_risk: { label: 'At risk', className: 'bg-orange-100 text-orange-800' },
+  breached: { label: 'Breached', className: 'bg-red-100 text-red-800' },
+  no_data: { label: 'No data', className: 'bg-gray-100 text-gray-600' },
+};
+
+const formatPercent = (value: number | null, digits = 3) =>
+  value === null ? '–' : `${Number(value.toFixed(digits))}%`;
+
+const formatBurnRate = (rate: number | null) => (rate === null ? '–' : `${rate.toFixed(1)}x`);
+
+export function SloPanel({ monitorId }: SloPanelProps) {
+  const [slos, setSlos] = useState<SloStatus[]>([]);
+
+  // Attainment moves slowly, so a periodic refresh is enough
+  useEffect(() => {
+    const loadSlos = async () => {
+      try {
+        setSlos(await apiClient.getSlos(monitorId));
+      } catch (error) {
+        console.error('Failed to load SLOs:', error);
+      }
+    };
+
+    loadSlos();
+    const interval = setInterval(loadSlos, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [monitorId]);
+
+  const enabled = slos.filter(slo => slo.enabled);
+  if (enabled.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Target className="w-5 h-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Service Level Objectives</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {enabled.map((slo) => {
+          const state = STATE_LABELS[slo.state];
+          const remaining = slo.errorBudget.remaining;
+          const budgetWidth = remaining === null ? 0 : Math.max(0, Math.min(100, remaining));
+
+          return (
+            <div key={slo.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{slo.name}</p>
+                  <p className="text-xs text-gray-500">{slo.description}</p>
+                </div>
+                <span className={clsx('ml-2 px-2 py-0.5 rounded-full text-xs font-medium', state.className)}>
+                  {state.label}
+                </span>
+              </div>
+
+              <div className="flex items-baseline space-x-2">
+                <span className="text-2xl font-semibold text-gray-900">{formatPercent(slo.attainment)}</span>
+                <span className="text-xs text-gray-500">
+                  of {slo.totalRequests.toLocaleString()} requests, target {slo.target}%
+                </span>
+              </div>
+
+              <div>
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>Error budget left</span>
+                  <span>{formatPercent(remaining, 1)}</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={clsx(
+                      'h-full rounded-full',
+                      budgetWidth > 25 ? 'bg-green-500' : budgetWidth > 0 ? 'bg-orange-500' : 'bg-red-500'
+                    )}
+                    style={{ width: `${budgetWidth}%` }}
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-600">
+                Burn rate: {formatBurnRate(slo.burnRates['1h'])} over 1h · {formatBurnRate(slo.burnRates['6h'])} over 6h
+                {slo.coveredFrom > slo.windowStart && (
+                  <span className="block mt-1 text-gray-500">
+                    Only covers since {new Date(slo.coveredFrom).toLocaleDateString()}; older raw records were pruned
+                  </span>
+                )}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 import { useEffect, useState, useCallback } from 'react';
 import { socketService } from '@/lib/socket';
-import { PingRecord, AnomalyData } from '@/types';
+import { PingRecord, AnomalyData, Incident, IncidentEvent } from '@/types';
 import toast from 'react-hot-toast';
 
 export function useWebSocket() {
   const [isConnected, setIsConnected] = useState(false);
   const [newRecords, setNewRecords] = useState<PingRecord[]>([]);
   const [anomalies, setAnomalies] = useState<AnomalyData[]>([]);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
 
   const handleNewRecord = useCallback((record: PingRecord) => {
     setNewRecords(prev => [record, ...prev.slice(0, 9)]); // Keep last 10 records
@@ -20,18 +21,27 @@ export function useWebSocket() {
   }, []);
 
   const handleAnomaly = useCallback((anomaly: AnomalyData) => {
+    // No toast here; incidents announce themselves once instead of on every anomaly
     setAnomalies(prev => [anomaly, ...prev.slice(0, 4)]); // Keep last 5 anomalies
-    
-    // Show toast for anomaly
+  }, []);
+
+  const handleIncident = useCallback(({ action, incident }: IncidentEvent) => {
+    // Keep the latest version of each incident seen on the socket
+    setIncidents(prev => [incident, ...prev.filter(i => i.id !== incident.id)].slice(0, 20));
+
     const severityColors = {
       low: '🟡',
       medium: '🟠',
       high: '🔴'
     };
-    
-    toast(`${severityColors[anomaly.severity]} ${anomaly.message}`, {
-      duration: anomaly.severity === 'high' ? 8000 : 5000,
-    });
+
+    if (action === 'opened') {
+      toast(`${severityColors[incident.severity]} Incident opened: ${incident.message}`, {
+        duration: incident.severity === 'high' ? 8000 : 5000,
+      });
+    } else if (action === 'resolved') {
+      toast.success(`Incident resolved: ${incident.type.replace('_', ' ')}`);
+    }
   }, []);
 
   useEffect(() => {
@@ -45,6 +55,7 @@ export function useWebSocket() {
         setIsConnected(true);
         socketService.onNewPingRecord(handleNewRecord);
         socketService.onAnomaly(handleAnomaly);
+        socketService.onIncident(handleIncident);
       } catch (error) {
         console.error('Failed to connect to WebSocket:', error);
         if (mounted) {
@@ -59,10 +70,11 @@ export function useWebSocket() {
       mounted = false;
       socketService.removeListener('newPingRecord', handleNewRecord);
       socketService.removeListener('anomaly', handleAnomaly);
+      socketService.removeListener('incident', handleIncident);
       socketService.disconnect();
       setIsConnected(false);
     };
-  }, [handleNewRecord, handleAnomaly]);
+  }, [handleNewRecord, handleAnomaly, handleIncident]);
 
   const clearNewRecords = useCallback(() => {
     setNewRecords([]);
@@ -76,6 +88,7 @@ export function useWebSocket() {
     isConnected,
     newRecords,
     anomalies,
+    incidents,
     clearNewRecords,
     clearAnomalies,
   };
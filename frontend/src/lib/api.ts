@@ -1,11 +1,35 @@
 import axios from "axios";
-import { PingRecord, ApiResponse, Statistics, FilterOptions } from "@/types";
+import {
+  PingRecord,
+  ApiResponse,
+  Statistics,
+  FilterOptions,
+  ExportFormat,
+  Monitor,
+  AnomalyData,
+  AnomalyFilterOptions,
+  PaginationInfo,
+  Incident,
+  IncidentStatus,
+  AnomalyStats,
+  SeriesPoint,
+  SeriesQuery,
+  SloStatus,
+  AuthSession,
+  User,
+  Settings,
+  AlertRule,
+  RuleCondition,
+  SchedulerStatus,
+} from "@/types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL ;
 console.log("API_BASE_URL IS ............",API_BASE_URL);
 const api = axios.create({
   baseURL: API_BASE_URL,
   timeout: 30000,
+  // The API authenticates the dashboard by its session cookie
+  withCredentials: true,
   headers: {
     "Content-Type": "application/json",
   },
@@ -21,6 +45,25 @@ api.interceptors.response.use(
 );
 
 export const apiClient = {
+  // Sign in; the API sets the session cookie
+  async login(username: string, password: string): Promise<User> {
+    const response = await api.post<ApiResponse<{ user: User; expiresAt: string }>>("/api/auth/login", {
+      username,
+      password,
+    });
+    return response.data.data.user;
+  },
+
+  async logout(): Promise<void> {
+    await api.post("/api/auth/logout");
+  },
+
+  // The signed-in user and their scopes; rejects with a 401 when signed out
+  async getSession(): Promise<AuthSession> {
+    const response = await api.get<ApiResponse<AuthSession>>("/api/auth/me");
+    return response.data.data;
+  },
+
   // Get ping records with pagination and filtering
   async getPingRecords(
     filters: FilterOptions,
@@ -34,18 +77,39 @@ export const apiClient = {
     };
   },
 
+  // Download every record matching the filters, not just the current page. It goes through axios
+  // rather than a plain link so a failure can be reported instead of opening an error page.
+  async downloadExport(filters: FilterOptions, format: ExportFormat): Promise<void> {
+    const params: Record<string, unknown> = { format };
+    Object.entries(filters).forEach(([key, value]) => {
+      const paging = key === "limit" || key === "offset" || key === "total";
+      if (!paging && value !== undefined && value !== null && value !== "") {
+        params[key] = value;
+      }
+    });
+    const response = await api.get<Blob>("/api/export", { params, responseType: "blob", timeout: 0 });
+    const filename = /filename="([^"]+)"/.exec(response.headers["content-disposition"] ?? "")?.[1] ?? `pings.${format}`;
+
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+
   // Get statistics
-  async getStatistics(hours: number = 24): Promise<Statistics> {
+  async getStatistics(hours: number = 24, monitorId?: number): Promise<Statistics> {
     const response = await api.get<ApiResponse<Statistics>>("/api/stats", {
-      params: { hours },
+      params: { hours, monitorId },
     });
     return response.data.data;
   },
 
   // Get recent records
-  async getRecentRecords(minutes: number = 60): Promise<PingRecord[]> {
+  async getRecentRecords(minutes: number = 60, monitorId?: number): Promise<PingRecord[]> {
     const response = await api.get<ApiResponse<PingRecord[]>>("/api/recent", {
-      params: { minutes },
+      params: { minutes, monitorId },
     });
     return response.data.data;
   },
@@ -59,9 +123,107 @@ export const apiClient = {
     return response.data.data;
   },
 
+  // Get configured monitors
+  async getMonitors(): Promise<Monitor[]> {
+    const response = await api.get<ApiResponse<Monitor[]>>("/api/monitors");
+    return response.data.data;
+  },
+
+  // Get stored anomalies with pagination and filtering
+  async getAnomalies(
+    filters: AnomalyFilterOptions,
+  ): Promise<{ anomalies: AnomalyData[]; pagination?: PaginationInfo }> {
+    const response = await api.get<ApiResponse<AnomalyData[]>>("/api/anomalies", {
+      params: filters,
+    });
+    return {
+      anomalies: response.data.data,
+      pagination: response.data.pagination,
+    };
+  },
+
+  // Acknowledge a stored anomaly
+  async acknowledgeAnomaly(id: number): Promise<void> {
+    await api.post(`/api/anomalies/${id}/ack`);
+  },
+
+  // Get incidents; "active" covers open and acknowledged ones
+  async getIncidents(
+    params: { status?: IncidentStatus | "active"; limit?: number; offset?: number; monitorId?: number } = {},
+  ): Promise<Incident[]> {
+    const response = await api.get<ApiResponse<Incident[]>>("/api/incidents", {
+      params,
+    });
+    return response.data.data;
+  },
+
+  // Acknowledge an open incident
+  async acknowledgeIncident(id: number): Promise<Incident> {
+    const response = await api.post<ApiResponse<Incident>>(`/api/incidents/${id}/ack`);
+    return response.data.data;
+  },
+
+  // Get time-bucketed response time percentiles
+  async getSeries(params: SeriesQuery): Promise<SeriesPoint[]> {
+    const response = await api.get<ApiResponse<SeriesPoint[]>>("/api/series", {
+      params,
+    });
+    return response.data.data;
+  },
+
   // Get anomaly statistics
-  async getAnomalyStats(): Promise<any> {
-    const response = await api.get<ApiResponse<any>>("/api/anomaly-stats");
+  async getAnomalyStats(
+    params: { minutes?: number; monitorId?: number } = {},
+  ): Promise<AnomalyStats> {
+    const response = await api.get<ApiResponse<AnomalyStats>>("/api/anomaly-stats", {
+      params,
+    });
+    return response.data.data;
+  },
+
+  // Get SLOs with attainment, error budget and burn rates
+  async getSlos(monitorId?: number): Promise<SloStatus[]> {
+    const response = await api.get<ApiResponse<SloStatus[]>>("/api/slo", {
+      params: { monitorId },
+    });
+    return response.data.data;
+  },
+
+  // Get the runtime settings in effect
+  async getSettings(): Promise<Settings> {
+    const response = await api.get<ApiResponse<Settings>>("/api/settings");
+    return response.data.data;
+  },
+
+  // Update runtime settings (admin only); the backend applies them without a restart
+  async updateSettings(changes: Partial<Omit<Settings, "updatedAt">>): Promise<Settings> {
+    const response = await api.put<ApiResponse<Settings>>("/api/settings", changes);
+    return response.data.data;
+  },
+
+  // Get the ping scheduler's state, next runs and in-flight pings
+  async getSchedulerStatus(): Promise<SchedulerStatus> {
+    const response = await api.get<ApiResponse<SchedulerStatus>>("/api/scheduler/status");
+    return response.data.data;
+  },
+
+  // Pause or resume scheduled pings; the pause is kept across backend restarts
+  async setSchedulerPaused(paused: boolean): Promise<SchedulerStatus> {
+    const response = await api.post<ApiResponse<SchedulerStatus>>(
+      paused ? "/api/scheduler/pause" : "/api/scheduler/resume",
+    );
+    return response.data.data;
+  },
+
+  // Get alert rules with a readable description of each
+  async getAlertRules(): Promise<AlertRule[]> {
+    const response = await api.get<ApiResponse<AlertRule[]>>("/api/alert-rules");
+    return response.data.data;
+  },
+
+  // Replace an alert rule's conditions (admin only)
+  async updateAlertRuleConditions(id: number, when: RuleCondition[]): Promise<AlertRule> {
+    const response = await api.put<ApiResponse<AlertRule>>(`/api/alert-rules/${id}`, { when });
     return response.data.data;
   },
 
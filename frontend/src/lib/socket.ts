@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client';
-import { PingRecord, AnomalyData } from '@/types';
+import { PingRecord, AnomalyData, IncidentEvent } from '@/types';
 
 class SocketService {
   private socket: Socket | null = null;
@@ -11,6 +11,8 @@ class SocketService {
       const wsUrl = process.env.NEXT_PUBLIC_WS_URL || 'http://localhost:8001';
       
       this.socket = io(wsUrl, {
+        // The server refuses the connection without the session cookie of a signed-in user
+        withCredentials: true,
         transports: ['websocket', 'polling'],
         timeout: 20000,
         reconnection: true,
@@ -58,6 +60,12 @@ class SocketService {
     }
   }
 
+  onIncident(callback: (event: IncidentEvent) => void): void {
+    if (this.socket) {
+      this.socket.on('incident', callback);
+    }
+  }
+
   removeListener(event: string, callback?: (...args: any[]) => void): void {
     if (this.socket) {
       if (callback) {
@@ -1,12 +1,16 @@
 import { useState, useEffect } from 'react';
 import Head from 'next/head';
+import { useRouter } from 'next/router';
+import axios from 'axios';
 import { Dashboard } from '@/components/Dashboard';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { apiClient } from '@/lib/api';
-import { PingRecord, Statistics } from '@/types';
+import { PingRecord, Statistics, AuthSession } from '@/types';
 
 export default function Home() {
+  const router = useRouter();
   const [loading, setLoading] = useState(true);
+  const [session, setSession] = useState<AuthSession | null>(null);
   const [initialData, setInitialData] = useState<{
     records: PingRecord[];
     stats: Statistics;
@@ -14,6 +18,18 @@ export default function Home() {
 
   useEffect(() => {
     const loadInitialData = async () => {
+      try {
+        setSession(await apiClient.getSession());
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 401) {
+          router.replace('/login');
+        } else {
+          console.error('Failed to load the session:', error);
+          setLoading(false);
+        }
+        return;
+      }
+
       try {
         const [records, stats] = await Promise.all([
           apiClient.getRecentRecords(60), // Last hour
@@ -39,6 +55,14 @@ export default function Home() {
     );
   }
 
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Could not reach the monitoring API. Try reloading the page.</p>
+      </div>
+    );
+  }
+
   return (
     <>
       <Head>
@@ -49,7 +73,7 @@ export default function Home() {
       </Head>
 
       <main className="min-h-screen bg-gray-50">
-        <Dashboard initialData={initialData} />
+        <Dashboard initialData={initialData} session={session} />
       </main>
     </>
   );
@@ -0,0 +1,96 @@
+import { useState, FormEvent } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import { Activity, LogIn } from 'lucide-react';
+import { apiClient } from '@/lib/api';
+
+export default function Login() {
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await apiClient.login(username, password);
+      router.replace('/');
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        setError('Invalid username or password');
+      } else {
+        console.error('Failed to sign in:', error);
+        setError('Could not sign in. Try again later.');
+      }
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Sign in - HTTPBin Monitor</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="card w-full max-w-sm p-8">
+          <div className="flex items-center space-x-3 mb-6">
+            <Activity className="w-8 h-8 text-primary-600" />
+            <h1 className="text-xl font-bold text-gray-900">HTTPBin Monitor</h1>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">
+                Username
+              </label>
+              <input
+                id="username"
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="input"
+                required
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input"
+                required
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="btn btn-primary w-full flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              <LogIn className="w-4 h-4" />
+              <span>{submitting ? 'Signing in...' : 'Sign in'}</span>
+            </button>
+          </form>
+        </div>
+      </main>
+    </>
+  );
+}
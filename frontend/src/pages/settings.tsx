@@ -0,0 +1,286 @@
+import { useState, useEffect, FormEvent } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import { ArrowLeft, Save } from 'lucide-react';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { apiClient } from '@/lib/api';
+import { AlertRule, AuthSession, Settings } from '@/types';
+
+// The backend's validation messages, or a generic one
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error) && Array.isArray(error.response?.data?.details)) {
+    return error.response!.data.details.join(', ');
+  }
+  return fallback;
+};
+
+interface SettingsForm {
+  pingIntervalSeconds: string;
+  httpbinUrl: string;
+  analysisIntervalSeconds: string;
+}
+
+const toForm = (settings: Settings): SettingsForm => ({
+  pingIntervalSeconds: String(settings.pingInterval / 1000),
+  httpbinUrl: settings.httpbinUrl,
+  analysisIntervalSeconds: String(settings.analysisInterval / 1000)
+});
+
+function AlertRuleThresholds({ rule, canEdit }: { rule: AlertRule; canEdit: boolean }) {
+  const [thresholds, setThresholds] = useState(rule.when.map(condition => String(condition.threshold)));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await apiClient.updateAlertRuleConditions(
+        rule.id,
+        rule.when.map((condition, index) => ({ ...condition, threshold: Number(thresholds[index]) }))
+      );
+      setMessage({ text: 'Saved', error: false });
+    } catch (error) {
+      console.error('Failed to update alert rule:', error);
+      setMessage({ text: errorMessage(error, 'Could not save the thresholds'), error: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="py-4 border-b border-gray-100 last:border-b-0">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <p className="font-medium text-gray-900">
+            {rule.name}
+            {!rule.enabled && <span className="ml-2 text-xs text-gray-500">(disabled)</span>}
+          </p>
+          <p className="text-sm text-gray-500">{rule.description}</p>
+        </div>
+        {canEdit && (
+          <button onClick={handleSave} disabled={saving} className="btn btn-secondary text-sm disabled:opacity-50">
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {rule.when.map((condition, index) => (
+          <label key={index} className="flex items-center space-x-2 text-sm text-gray-700">
+            <span className="font-mono">{condition.metric} {condition.operator}</span>
+            <input
+              type="number"
+              step="any"
+              value={thresholds[index]}
+              onChange={(e) => setThresholds(prev => prev.map((value, i) => (i === index ? e.target.value : value)))}
+              className="input w-28"
+              disabled={!canEdit}
+              aria-label={`${rule.name} ${condition.metric} threshold`}
+            />
+          </label>
+        ))}
+      </div>
+      {message && (
+        <p className={`mt-2 text-sm ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [form, setForm] = useState<SettingsForm | null>(null);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setSession(await apiClient.getSession());
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 401) {
+          router.replace('/login');
+        } else {
+          console.error('Failed to load the session:', error);
+          setLoading(false);
+        }
+        return;
+      }
+
+      try {
+        const [current, alertRules] = await Promise.all([apiClient.getSettings(), apiClient.getAlertRules()]);
+        setSettings(current);
+        setForm(toForm(current));
+        setRules(alertRules);
+      } catch (error) {
+        console.error('Failed to load settings:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  // The backend checks the role too; viewers and operators see the settings read-only
+  const canEdit = session?.scopes.includes('admin') ?? false;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!form) {
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const updated = await apiClient.updateSettings({
+        pingInterval: Math.round(Number(form.pingIntervalSeconds) * 1000),
+        httpbinUrl: form.httpbinUrl.trim(),
+        analysisInterval: Math.round(Number(form.analysisIntervalSeconds) * 1000)
+      });
+      setSettings(updated);
+      setForm(toForm(updated));
+      setMessage({ text: 'Saved. The new intervals apply from now on, no restart needed.', error: false });
+    } catch (error) {
+      console.error('Failed to update settings:', error);
+      setMessage({ text: errorMessage(error, 'Could not save the settings'), error: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="large" />
+      </div>
+    );
+  }
+
+  if (!session || !settings || !form) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Could not reach the monitoring API. Try reloading the page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Settings - HTTPBin Monitor</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <main className="min-h-screen bg-gray-50">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          <div className="flex items-center space-x-3">
+            <Link href="/" aria-label="Back to the dashboard" className="p-2 text-gray-400 hover:text-gray-600 rounded-md">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+          </div>
+
+          <form onSubmit={handleSubmit} className="card p-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Scheduling</h2>
+              <p className="text-sm text-gray-500">
+                {settings.updatedAt
+                  ? `Last changed ${new Date(settings.updatedAt).toLocaleString()}`
+                  : 'From the environment; saving stores them in the database'}
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="httpbinUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                Default check URL
+              </label>
+              <input
+                id="httpbinUrl"
+                type="url"
+                value={form.httpbinUrl}
+                onChange={(e) => setForm({ ...form, httpbinUrl: e.target.value })}
+                className="input"
+                disabled={!canEdit}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="pingInterval" className="block text-sm font-medium text-gray-700 mb-1">
+                  Ping interval (seconds)
+                </label>
+                <input
+                  id="pingInterval"
+                  type="number"
+                  min={10}
+                  max={86400}
+                  value={form.pingIntervalSeconds}
+                  onChange={(e) => setForm({ ...form, pingIntervalSeconds: e.target.value })}
+                  className="input"
+                  disabled={!canEdit}
+                  required
+                />
+              </div>
+
+              <div>
+                <label htmlFor="analysisInterval" className="block text-sm font-medium text-gray-700 mb-1">
+                  Anomaly detection interval (seconds)
+                </label>
+                <input
+                  id="analysisInterval"
+                  type="number"
+                  min={10}
+                  max={86400}
+                  value={form.analysisIntervalSeconds}
+                  onChange={(e) => setForm({ ...form, analysisIntervalSeconds: e.target.value })}
+                  className="input"
+                  disabled={!canEdit}
+                  required
+                />
+              </div>
+            </div>
+
+            {message && (
+              <p className={`text-sm ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+            )}
+
+            {canEdit ? (
+              <button
+                type="submit"
+                disabled={saving}
+                className="btn btn-primary flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                <span>{saving ? 'Saving...' : 'Save settings'}</span>
+              </button>
+            ) : (
+              <p className="text-sm text-gray-500">Only admins can change settings.</p>
+            )}
+          </form>
+
+          <div className="card p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Detection thresholds</h2>
+            <p className="text-sm text-gray-500 mb-2">
+              Anomalies fire when all of a rule&apos;s conditions hold; changes apply to the next ping.
+            </p>
+            {rules.length === 0 ? (
+              <p className="text-sm text-gray-500">No alert rules are configured.</p>
+            ) : (
+              rules.map(rule => <AlertRuleThresholds key={rule.id} rule={rule} canEdit={canEdit} />)
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
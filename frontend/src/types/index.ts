@@ -8,6 +8,51 @@ export interface PingRecord {
   contentType?: string;
   contentLength?: number;
   requestType?: 'manual' | 'auto';
+  monitorId?: number | null;
+  assertionStatus?: 'passed' | 'failed' | null;
+  assertionResults?: string | null; // JSON-encoded AssertionResult[]
+  // Request phases in ms; null when a phase did not happen (TLS on plain HTTP) or was never reached
+  dnsTime?: number | null;
+  tcpTime?: number | null;
+  tlsTime?: number | null;
+  ttfbTime?: number | null;
+  downloadTime?: number | null;
+  // OpenTelemetry trace of the ping, for looking it up in the tracing backend
+  traceId?: string | null;
+}
+
+export type TimingPhase = 'dns' | 'tcp' | 'tls' | 'ttfb' | 'download';
+
+export type Assertion =
+  | { type: 'status'; expected: number[] }
+  | { type: 'json_path'; path: string; equals: unknown }
+  | { type: 'body_regex'; pattern: string }
+  | { type: 'header'; name: string; equals?: string; pattern?: string }
+  | { type: 'response_time'; max: number };
+
+export interface AssertionResult {
+  type: Assertion['type'];
+  passed: boolean;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
+export interface Monitor {
+  id: number;
+  name: string;
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  bodyTemplate: string | null;
+  interval: number;
+  timeout: number;
+  enabled: boolean;
+  assertions: Assertion[];
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface PaginationInfo {
@@ -27,12 +72,51 @@ export interface ApiResponse<T> {
 
 export interface AnomalyData {
   timestamp: string;
-  type: 'response_time' | 'status_code' | 'error_rate';
+  type: 'response_time' | 'status_code' | 'error_rate' | 'slo_burn';
   severity: 'low' | 'medium' | 'high';
   value: number;
   threshold: number;
   message: string;
   recordId?: number;
+  monitorId?: number | null;
+  phase?: TimingPhase | null; // the request phase that regressed, for response time anomalies
+  id?: number; // set once the anomaly is stored
+  incidentId?: number | null;
+  acknowledgedAt?: string | null;
+}
+
+export type IncidentStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface Incident {
+  id: number;
+  fingerprint: string;
+  type: AnomalyData['type'];
+  monitorId: number | null;
+  severity: AnomalyData['severity'];
+  status: IncidentStatus;
+  message: string;
+  lastValue: number;
+  threshold: number;
+  anomalyCount: number;
+  openedAt: string;
+  lastSeenAt: string;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+}
+
+export interface IncidentEvent {
+  action: 'opened' | 'updated' | 'resolved';
+  incident: Incident;
+}
+
+export interface AnomalyFilterOptions {
+  limit: number;
+  offset: number;
+  type?: AnomalyData['type'];
+  severity?: AnomalyData['severity'];
+  startTime?: string;
+  endTime?: string;
+  acknowledged?: boolean;
 }
 
 export interface Statistics {
@@ -42,6 +126,132 @@ export interface Statistics {
   statusCodeDistribution: Record<number, number>;
 }
 
+export interface AnomalyStats {
+  windowMinutes: number;
+  monitorId: number | null;
+  responseTimeStats: {
+    mean: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    count: number;
+    p50: number;
+    p90: number;
+    p99: number;
+  };
+  errorRate: number;
+  totalRequests: number;
+  rules: Array<{ id: number; name: string; description: string }>;
+  analysisInterval: number;
+  lastAnalysisAt: string | null;
+}
+
+export interface SloStatus {
+  id: number;
+  name: string;
+  enabled: boolean;
+  monitorId: number | null;
+  objective: 'availability' | 'latency';
+  target: number;
+  latencyThreshold: number | null;
+  windowDays: number;
+  burnRateAlerts: boolean;
+  description: string;
+  state: 'met' | 'at_risk' | 'breached' | 'no_data';
+  windowStart: string;
+  coveredFrom: string;
+  totalRequests: number;
+  goodRequests: number;
+  attainment: number | null;
+  errorBudget: {
+    allowed: number;
+    spent: number;
+    remaining: number | null; // percent of the budget left, negative once missed
+  };
+  burnRates: { '1h': number | null; '6h': number | null };
+}
+
+export type SeriesBucket = '1m' | '5m' | '1h' | '1d';
+
+export interface SeriesPoint {
+  bucketStart: string;
+  count: number;
+  errorCount: number;
+  min: number;
+  max: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface SeriesQuery {
+  bucket: SeriesBucket;
+  from?: string;
+  to?: string;
+  monitorId?: number;
+}
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+// viewer: read only; operator: also manual pings and acknowledgements; admin: everything
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export type AuthScope = 'read' | 'trigger' | 'admin';
+
+export interface User {
+  id: number;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt: string | null;
+}
+
+// user is null when the backend runs with API_AUTH=off
+export interface AuthSession {
+  user: User | null;
+  scopes: AuthScope[];
+}
+
+// Runtime settings; updatedAt is null while the backend's environment variables still apply
+export interface Settings {
+  pingInterval: number; // ms between HTTPBIN_URL pings
+  httpbinUrl: string;
+  analysisInterval: number; // ms between anomaly detection catch-up runs
+  updatedAt: string | null;
+}
+
+// The ping scheduler; manual pings run even while it is paused
+export interface SchedulerStatus {
+  running: boolean;
+  paused: boolean;
+  pausedAt: string | null;
+  pausedBy: string | null;
+  interval: number;
+  startedAt: string | null;
+  lastPingAt: string | null;
+  nextRunAt: string | null; // of the default check
+  monitors: Array<{ monitorId: number; name: string; interval: number; nextRunAt: string }>;
+  inFlight: Array<{ monitorId: number | null; monitor: string; requestType: 'manual' | 'auto'; startedAt: string }>;
+}
+
+export interface RuleCondition {
+  metric: string;
+  operator: '>' | '>=' | '<' | '<=';
+  threshold: number;
+}
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  enabled: boolean;
+  monitorId: number | null;
+  type: AnomalyData['type'];
+  when: RuleCondition[];
+  description: string;
+}
+
 export interface FilterOptions {
   limit: number;
   offset: number;
@@ -51,4 +261,5 @@ export interface FilterOptions {
   maxResponseTime?: number;
   startTime?: string;
   endTime?: string;
+  monitorId?: number;
 }